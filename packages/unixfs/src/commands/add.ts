@@ -1,6 +1,13 @@
-import { type ByteStream, type DirectoryCandidate, type FileCandidate, importBytes, importByteStream, type ImportCandidateStream, importDirectory, importer, type ImporterOptions, importFile, type ImportResult } from 'ipfs-unixfs-importer'
+import * as dagPB from '@ipld/dag-pb'
+import { UnixFS } from 'ipfs-unixfs'
+import { type ByteStream, type DirectoryCandidate, type FileCandidate, importBytes, importByteStream, type ImportCandidate, importDirectory, importer, type ImporterOptions, importFile, type ImportResult } from 'ipfs-unixfs-importer'
 import { fixedSize } from 'ipfs-unixfs-importer/chunker'
 import { balanced } from 'ipfs-unixfs-importer/layout'
+import { fromReadableStream } from '../utils/web-streams.js'
+import { CHUNK_SIZE, MAX_CHILDREN_PER_NODE } from './utils/constants.js'
+import { createSymlink } from './utils/create-symlink.js'
+import { persist } from './utils/persist.js'
+import type { AddCandidate, AddCandidateStream, SymlinkCandidate } from '../index.js'
 import type { Blocks } from '@helia/interface/blocks'
 import type { CID } from 'multiformats/cid'
 
@@ -11,17 +18,56 @@ const defaultImporterSettings: ImporterOptions = {
   cidVersion: 1,
   rawLeaves: true,
   layout: balanced({
-    maxChildrenPerNode: 1024
+    maxChildrenPerNode: MAX_CHILDREN_PER_NODE
   }),
   chunker: fixedSize({
-    chunkSize: 1048576
+    chunkSize: CHUNK_SIZE
   })
 }
 
-export async function * addAll (source: ImportCandidateStream, blockstore: Blocks, options: Partial<ImporterOptions> = {}): AsyncGenerator<ImportResult, void, unknown> {
-  yield * importer(source, blockstore, {
+export async function * addAll (source: AddCandidateStream, blockstore: Blocks, options: Partial<ImporterOptions> = {}): AsyncGenerator<ImportResult, void, unknown> {
+  const symlinks = new Map<string, SymlinkCandidate>()
+  const dirBuilder = options.dirBuilder ?? defaultDirBuilder
+
+  // the importer cannot create symlinks so pass them through as directories
+  // and create symlink nodes in their place when the directory is built
+  const candidates = async function * (): AsyncGenerator<ImportCandidate> {
+    for await (const candidate of source) {
+      if (isSymlinkCandidate(candidate)) {
+        symlinks.set(candidate.path, candidate)
+
+        yield {
+          path: candidate.path
+        }
+
+        continue
+      }
+
+      yield candidate
+    }
+  }
+
+  yield * importer(candidates(), blockstore, {
     ...defaultImporterSettings,
-    ...options
+    ...options,
+    dirBuilder: async (dir, blockstore, options) => {
+      const symlink = symlinks.get(dir.originalPath ?? '')
+
+      if (symlink == null) {
+        return dirBuilder(dir, blockstore, options)
+      }
+
+      return {
+        ...await createSymlink(symlink.target, blockstore, {
+          ...options,
+          mode: symlink.mode,
+          mtime: symlink.mtime
+        }),
+        path: dir.path,
+        originalPath: dir.originalPath,
+        single: true
+      }
+    }
   })
 }
 
@@ -34,8 +80,8 @@ export async function addBytes (bytes: Uint8Array, blockstore: Blocks, options:
   return cid
 }
 
-export async function addByteStream (bytes: ByteStream, blockstore: Blocks, options: Partial<ImporterOptions> = {}): Promise<CID> {
-  const { cid } = await importByteStream(bytes, blockstore, {
+export async function addByteStream (bytes: ByteStream | ReadableStream<Uint8Array>, blockstore: Blocks, options: Partial<ImporterOptions> = {}): Promise<CID> {
+  const { cid } = await importByteStream(isReadableStream(bytes) ? fromReadableStream(bytes) : bytes, blockstore, {
     ...defaultImporterSettings,
     ...options
   })
@@ -63,3 +109,39 @@ export async function addDirectory (dir: Partial<DirectoryCandidate>, blockstore
 
   return cid
 }
+
+/**
+ * WHATWG streams are not async iterable in every browser
+ */
+function isReadableStream (bytes: ByteStream | ReadableStream<Uint8Array>): bytes is ReadableStream<Uint8Array> {
+  return typeof (bytes as ReadableStream<Uint8Array>).getReader === 'function'
+}
+
+function isSymlinkCandidate (candidate: AddCandidate): candidate is SymlinkCandidate {
+  return typeof (candidate as SymlinkCandidate).target === 'string'
+}
+
+/**
+ * Equivalent to the importer's default directory builder which is not exported
+ */
+const defaultDirBuilder: Required<ImporterOptions>['dirBuilder'] = async (dir, blockstore, options) => {
+  const unixfs = new UnixFS({
+    type: 'directory',
+    mtime: dir.mtime,
+    mode: dir.mode
+  })
+  const block = dagPB.encode(dagPB.prepare({ Data: unixfs.marshal() }))
+  const cid = await persist(block, blockstore, {
+    cidVersion: options.cidVersion,
+    signal: options.signal
+  })
+
+  return {
+    cid,
+    path: dir.path,
+    unixfs,
+    size: BigInt(block.length),
+    originalPath: dir.originalPath,
+    block
+  }
+}
@@ -0,0 +1,52 @@
+import { logger } from '@libp2p/logger'
+import { exporter } from 'ipfs-unixfs-exporter'
+import mergeOpts from 'merge-options'
+import { NotAFileError } from '../errors.js'
+import { loadBalancedFile } from './utils/balanced-file.js'
+import { CHUNK_SIZE, MAX_CHILDREN_PER_NODE, SHARD_SPLIT_THRESHOLD_BYTES } from './utils/constants.js'
+import { resolve, updatePathCids } from './utils/resolve.js'
+import type { AppendOptions } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { ByteStream } from 'ipfs-unixfs-importer'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:append')
+
+const defaultOptions: AppendOptions = {
+  chunkSize: CHUNK_SIZE,
+  maxChildrenPerNode: MAX_CHILDREN_PER_NODE,
+  rawLeaves: true,
+  shardSplitThresholdBytes: SHARD_SPLIT_THRESHOLD_BYTES
+}
+
+export async function append (cid: CID, source: ByteStream, blockstore: Blocks, options: Partial<AppendOptions> = {}): Promise<CID> {
+  const opts: AppendOptions = mergeOptions(defaultOptions, options)
+  const resolved = await resolve(cid, opts.path, blockstore, opts)
+  const entry = await exporter(resolved.cid, blockstore, opts)
+
+  if (entry.type !== 'file' && entry.type !== 'raw') {
+    throw new NotAFileError()
+  }
+
+  const fileSize = entry.type === 'raw' ? BigInt(entry.node.byteLength) : entry.unixfs.fileSize()
+
+  log('append to %c after %d bytes', resolved.cid, fileSize)
+
+  const builder = await loadBalancedFile(resolved.cid, fileSize, blockstore, opts)
+  let appended = 0
+
+  for await (const buf of source) {
+    appended += buf.byteLength
+
+    await builder.append(buf)
+  }
+
+  if (appended === 0) {
+    return cid
+  }
+
+  const updatedCid = await builder.finish()
+
+  return updatePathCids(updatedCid, resolved, blockstore, opts)
+}
@@ -0,0 +1,541 @@
+import * as dagPB from '@ipld/dag-pb'
+import { logger } from '@libp2p/logger'
+import { UnixFS } from 'ipfs-unixfs'
+import mergeOpts from 'merge-options'
+import { AlreadyExistsError, DoesNotExistError, NotADirectoryError, NotAFileError, NotUnixFSError } from '../errors.js'
+import { chmod } from './chmod.js'
+import { touch } from './touch.js'
+import { splitPath } from './utils/add-to-path.js'
+import { cidToPBLink } from './utils/cid-to-pblink.js'
+import { SHARD_SPLIT_THRESHOLD_BYTES } from './utils/constants.js'
+import { createShard } from './utils/hamt-utils.js'
+import { isOverShardThreshold } from './utils/is-over-shard-threshold.js'
+import { OverlayBlockstore } from './utils/overlay-blockstore.js'
+import { persist } from './utils/persist.js'
+import { write } from './write.js'
+import type { BatchOptions, CpOptions, MkdirOptions, TouchOptions, UnixFSBatch, WriteOptions } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { PBLink, PBNode } from '@ipld/dag-pb'
+import type { AbortOptions } from '@libp2p/interface'
+import type { CID, Version } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:batch')
+
+const defaultOptions: BatchOptions = {
+  shardSplitThresholdBytes: SHARD_SPLIT_THRESHOLD_BYTES
+}
+
+/**
+ * A file, or a directory that has not been read yet
+ */
+interface BatchEntry {
+  type: 'entry'
+  cid: CID
+
+  /**
+   * The link that pointed to this entry, reused when the parent is written
+   */
+  link?: Required<PBLink>
+}
+
+interface BatchDirectory {
+  type: 'directory'
+
+  /**
+   * Set while the directory is unchanged since it was read or committed
+   */
+  cid?: CID
+  link?: Required<PBLink>
+  unixfs: UnixFS
+  entries: Map<string, BatchNode>
+  cidVersion: Version
+
+  /**
+   * True if the directory was in the DAG before the current changes were made
+   */
+  existing: boolean
+
+  /**
+   * True if entries were removed, which allows a shard to become a flat
+   * directory again
+   */
+  removed: boolean
+
+  /**
+   * True if the mtime was set explicitly so it should not be updated
+   */
+  touched: boolean
+}
+
+type BatchNode = BatchEntry | BatchDirectory
+
+export function batch (root: CID, blockstore: Blocks, options: Partial<BatchOptions> = {}): UnixFSBatch {
+  const opts: BatchOptions = mergeOptions(defaultOptions, options)
+
+  return new DefaultUnixFSBatch(root, blockstore, opts)
+}
+
+class DefaultUnixFSBatch implements UnixFSBatch {
+  private rootCid: CID
+  private root?: BatchDirectory
+  private readonly blockstore: Blocks
+
+  /**
+   * Files are changed by running the commands against this so their blocks
+   * are only written to the blockstore on commit
+   */
+  private readonly overlay: OverlayBlockstore
+  private readonly options: BatchOptions
+  private queue: Promise<unknown>
+
+  constructor (root: CID, blockstore: Blocks, options: BatchOptions) {
+    this.rootCid = root
+    this.blockstore = blockstore
+    this.overlay = new OverlayBlockstore(blockstore)
+    this.options = options
+    this.queue = Promise.resolve()
+  }
+
+  async cp (source: CID, path: string, options: Partial<Pick<CpOptions, 'force' | 'parents' | 'signal'>> = {}): Promise<void> {
+    await this.enqueue(async () => {
+      const { parents, name } = splitPath(path)
+      const directories = await this.walk(parents, options.parents ?? false, options)
+      const directory = directories[directories.length - 1]
+
+      if (directory.entries.has(name) && options.force !== true) {
+        throw new AlreadyExistsError()
+      }
+
+      log('adding %c as %s', source, path)
+
+      directory.entries.set(name, {
+        type: 'entry',
+        cid: source,
+        link: await cidToPBLink(source, name, this.overlay, this.withOptions(options))
+      })
+
+      markChanged(directories)
+    })
+  }
+
+  async mkdir (path: string, options: Partial<Pick<MkdirOptions, 'cidVersion' | 'force' | 'parents' | 'mode' | 'mtime' | 'signal'>> = {}): Promise<void> {
+    await this.enqueue(async () => {
+      const { parents, name } = splitPath(path)
+      const directories = await this.walk(parents, options.parents ?? false, options)
+      const directory = directories[directories.length - 1]
+      const existing = directory.entries.get(name)
+
+      if (existing != null) {
+        // like `mkdir -p`, an existing directory is not an error
+        if (options.parents === true && await this.expand(directory, name, existing, options) != null) {
+          return
+        }
+
+        if (options.force !== true) {
+          throw new AlreadyExistsError()
+        }
+      }
+
+      log('creating %s', path)
+
+      directory.entries.set(name, createDirectory(new UnixFS({
+        type: 'directory',
+        mode: options.mode,
+        mtime: options.mtime
+      }), options.cidVersion ?? 1))
+
+      markChanged(directories)
+    })
+  }
+
+  async rm (path: string, options: AbortOptions = {}): Promise<void> {
+    await this.enqueue(async () => {
+      const { parents, name } = splitPath(path)
+      const directories = await this.walk(parents, false, options)
+      const directory = directories[directories.length - 1]
+
+      if (!directory.entries.delete(name)) {
+        throw new DoesNotExistError(`${path} did not exist`)
+      }
+
+      log('removing %s', path)
+
+      directory.removed = true
+      markChanged(directories)
+    })
+  }
+
+  async write (path: string, bytes: Uint8Array, options: Partial<Pick<WriteOptions, 'offset' | 'signal'>> = {}): Promise<void> {
+    await this.enqueue(async () => {
+      const { parents, name } = splitPath(path)
+      const directories = await this.walk(parents, false, options)
+      const directory = directories[directories.length - 1]
+      const entry = directory.entries.get(name)
+
+      if (entry == null) {
+        throw new DoesNotExistError(`${path} did not exist`)
+      }
+
+      if (entry.type === 'directory') {
+        throw new NotAFileError()
+      }
+
+      log('writing %d bytes to %s', bytes.byteLength, path)
+
+      const cid = await write(entry.cid, bytes, this.overlay, this.withOptions(options))
+
+      if (cid.equals(entry.cid)) {
+        return
+      }
+
+      directory.entries.set(name, { type: 'entry', cid })
+      markChanged(directories)
+    })
+  }
+
+  async chmod (path: string, mode: number, options: AbortOptions = {}): Promise<void> {
+    await this.enqueue(async () => {
+      log('setting mode of %s to %d', path, mode)
+
+      await this.updateMetadata(path, (directory) => {
+        directory.unixfs.mode = mode
+      }, async (cid) => chmod(cid, mode, this.overlay, this.withOptions(options)), options)
+    })
+  }
+
+  async touch (path: string, options: Partial<Pick<TouchOptions, 'mtime' | 'signal'>> = {}): Promise<void> {
+    await this.enqueue(async () => {
+      const mtime = options.mtime ?? {
+        secs: BigInt(Math.round(Date.now() / 1000)),
+        nsecs: 0
+      }
+
+      log('setting mtime of %s to %o', path, mtime)
+
+      await this.updateMetadata(path, (directory) => {
+        directory.unixfs.mtime = mtime
+        directory.touched = true
+      }, async (cid) => touch(cid, this.overlay, this.withOptions({ ...options, mtime })), options)
+    })
+  }
+
+  async commit (options: AbortOptions = {}): Promise<CID> {
+    return this.enqueue(async () => {
+      if (this.root == null) {
+        return this.rootCid
+      }
+
+      this.rootCid = await this.flush(this.root, options)
+
+      // blocks of files that were replaced or removed are not needed
+      this.overlay.clear()
+
+      log('committed batch as %c', this.rootCid)
+
+      return this.rootCid
+    })
+  }
+
+  /**
+   * Operations read directories lazily so they run one at a time to prevent
+   * two of them loading the same directory
+   */
+  private async enqueue <T> (fn: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(fn)
+
+    this.queue = result.catch(() => {})
+
+    return result
+  }
+
+  private withOptions <T extends AbortOptions> (options: T): BatchOptions & T {
+    return {
+      ...this.options,
+      ...options,
+      signal: options.signal ?? this.options.signal
+    }
+  }
+
+  /**
+   * Return every directory on the path from the root to the directory named by
+   * the passed segments, optionally creating any that are missing
+   */
+  private async walk (segments: string[], parents: boolean, options: AbortOptions): Promise<BatchDirectory[]> {
+    if (this.root == null) {
+      const root = await loadDirectory(this.rootCid, undefined, this.overlay, this.withOptions(options))
+
+      if (root == null) {
+        throw new NotADirectoryError(`${this.rootCid.toString()} was not a UnixFS directory`)
+      }
+
+      this.root = root
+    }
+
+    const directories = [this.root]
+
+    for (let i = 0; i < segments.length; i++) {
+      const parent = directories[directories.length - 1]
+      const name = segments[i]
+      const node = parent.entries.get(name)
+
+      if (node == null) {
+        if (!parents) {
+          throw new DoesNotExistError(`Parent directory ${segments.slice(0, i + 1).join('/')} did not exist`)
+        }
+
+        log('creating missing directory %s', segments.slice(0, i + 1).join('/'))
+
+        const directory = createDirectory(new UnixFS({ type: 'directory' }), this.rootCid.version)
+        parent.entries.set(name, directory)
+        directories.push(directory)
+        markChanged(directories)
+        continue
+      }
+
+      const directory = await this.expand(parent, name, node, options)
+
+      if (directory == null) {
+        throw new NotADirectoryError(`${segments.slice(0, i + 1).join('/')} was not a UnixFS directory`)
+      }
+
+      directories.push(directory)
+    }
+
+    return directories
+  }
+
+  /**
+   * Read the contents of a directory entry into memory, returning undefined if
+   * the entry is not a directory
+   */
+  private async expand (parent: BatchDirectory, name: string, node: BatchNode, options: AbortOptions): Promise<BatchDirectory | undefined> {
+    if (node.type === 'directory') {
+      return node
+    }
+
+    const directory = await loadDirectory(node.cid, node.link, this.overlay, this.withOptions(options))
+
+    if (directory != null) {
+      parent.entries.set(name, directory)
+    }
+
+    return directory
+  }
+
+  private async updateMetadata (path: string, updateDirectory: (directory: BatchDirectory) => void, updateFile: (cid: CID) => Promise<CID>, options: AbortOptions): Promise<void> {
+    const segments = path.split('/').filter(Boolean)
+    const name = segments.pop()
+    const directories = await this.walk(segments, false, options)
+    const parent = directories[directories.length - 1]
+
+    if (name == null) {
+      updateDirectory(parent)
+      markChanged(directories)
+      return
+    }
+
+    const node = parent.entries.get(name)
+
+    if (node == null) {
+      throw new DoesNotExistError(`${path} did not exist`)
+    }
+
+    const directory = await this.expand(parent, name, node, options)
+
+    if (directory != null) {
+      updateDirectory(directory)
+      markChanged([...directories, directory])
+      return
+    }
+
+    if (node.type === 'entry') {
+      parent.entries.set(name, { type: 'entry', cid: await updateFile(node.cid) })
+      markChanged(directories)
+    }
+  }
+
+  /**
+   * Write every changed directory below and including the passed one, children
+   * first, returning the new CID of the directory
+   */
+  private async flush (directory: BatchDirectory, options: AbortOptions): Promise<CID> {
+    if (directory.cid != null) {
+      return directory.cid
+    }
+
+    const links: Array<Required<PBLink>> = []
+
+    for (const [name, node] of directory.entries) {
+      if (node.link == null) {
+        let cid: CID
+
+        if (node.type === 'directory') {
+          cid = await this.flush(node, options)
+        } else {
+          cid = node.cid
+          await this.overlay.persist(cid, options)
+        }
+
+        node.link = await cidToPBLink(cid, name, this.blockstore, this.withOptions(options))
+      }
+
+      links.push(node.link)
+    }
+
+    const unixfs = directory.unixfs
+
+    if (directory.existing && !directory.touched && unixfs.mtime != null) {
+      // update mtime if previously set
+      const ms = Date.now()
+      const secs = Math.floor(ms / 1000)
+
+      unixfs.mtime = {
+        secs: BigInt(secs),
+        nsecs: (ms - (secs * 1000)) * 1000000
+      }
+    }
+
+    const flat: PBNode = dagPB.prepare({
+      Data: new UnixFS({ type: 'directory', mode: unixfs.mode, mtime: unixfs.mtime }).marshal(),
+      Links: links
+    })
+
+    // a shard only becomes a flat directory again when entries are removed
+    const keepShard = unixfs.type === 'hamt-sharded-directory' && !directory.removed
+    let cid: CID
+
+    if (keepShard || await isOverShardThreshold(flat, this.blockstore, this.options.shardSplitThresholdBytes, options)) {
+      log('writing sharded directory with %d entries', links.length)
+
+      const result = await createShard(this.blockstore, links.map(link => ({
+        name: link.Name,
+        size: BigInt(link.Tsize),
+        cid: link.Hash
+      })), {
+        mode: unixfs.mode,
+        mtime: unixfs.mtime,
+        cidVersion: directory.cidVersion
+      })
+
+      cid = result.cid
+      unixfs.type = 'hamt-sharded-directory'
+    } else {
+      log('writing directory with %d entries', links.length)
+
+      cid = await persist(dagPB.encode(flat), this.blockstore, {
+        cidVersion: directory.cidVersion,
+        signal: options.signal
+      })
+      unixfs.type = 'directory'
+    }
+
+    directory.cid = cid
+    directory.existing = true
+    directory.removed = false
+    directory.touched = false
+
+    return cid
+  }
+}
+
+function createDirectory (unixfs: UnixFS, cidVersion: Version): BatchDirectory {
+  return {
+    type: 'directory',
+    unixfs,
+    entries: new Map(),
+    cidVersion,
+    existing: false,
+    removed: false,
+    touched: false
+  }
+}
+
+/**
+ * Clear the CIDs of the passed directories so they are written on commit
+ */
+function markChanged (directories: BatchDirectory[]): void {
+  for (const directory of directories) {
+    directory.cid = undefined
+    directory.link = undefined
+  }
+}
+
+/**
+ * Read the entries of a directory, returning undefined if the CID is not a
+ * directory
+ */
+async function loadDirectory (cid: CID, link: Required<PBLink> | undefined, blockstore: Blocks, options: BatchOptions): Promise<BatchDirectory | undefined> {
+  if (cid.code !== dagPB.code) {
+    return
+  }
+
+  const node = dagPB.decode(await blockstore.get(cid, options))
+
+  if (node.Data == null) {
+    throw new NotUnixFSError(`${cid.toString()} had no data`)
+  }
+
+  const unixfs = UnixFS.unmarshal(node.Data)
+
+  if (!unixfs.isDirectory()) {
+    return
+  }
+
+  const entries = new Map<string, BatchNode>()
+
+  for (const child of await listLinks(node, unixfs.type === 'hamt-sharded-directory', blockstore, options)) {
+    entries.set(child.Name, {
+      type: 'entry',
+      cid: child.Hash,
+      link: child
+    })
+  }
+
+  return {
+    type: 'directory',
+    cid,
+    link,
+    unixfs,
+    entries,
+    cidVersion: cid.version,
+    existing: true,
+    removed: false,
+    touched: false
+  }
+}
+
+/**
+ * Return the links to every entry in a directory, removing the bucket
+ * prefixes from the names of links in a shard
+ */
+async function listLinks (node: PBNode, sharded: boolean, blockstore: Blocks, options: BatchOptions): Promise<Array<Required<PBLink>>> {
+  if (!sharded) {
+    return node.Links.map(link => ({
+      Name: link.Name ?? '',
+      Tsize: link.Tsize ?? 0,
+      Hash: link.Hash
+    }))
+  }
+
+  const links: Array<Required<PBLink>> = []
+
+  for (const link of node.Links) {
+    const name = link.Name ?? ''
+
+    // two character names are links to subshards
+    if (name.length === 2) {
+      const subshard = dagPB.decode(await blockstore.get(link.Hash, options))
+      links.push(...await listLinks(subshard, true, blockstore, options))
+      continue
+    }
+
+    links.push({
+      Name: name.substring(2),
+      Tsize: link.Tsize ?? 0,
+      Hash: link.Hash
+    })
+  }
+
+  return links
+}
@@ -1,6 +1,7 @@
 import { exporter } from 'ipfs-unixfs-exporter'
 import mergeOpts from 'merge-options'
 import { NoContentError, NotAFileError } from '../errors.js'
+import { readAhead } from './utils/read-ahead.js'
 import { resolve } from './utils/resolve.js'
 import type { CatOptions } from '../index.js'
 import type { Blocks } from '@helia/interface/blocks'
@@ -15,12 +16,22 @@ const defaultOptions: CatOptions = {
 export async function * cat (cid: CID, blockstore: Blocks, options: Partial<CatOptions> = {}): AsyncIterable<Uint8Array> {
   const opts: CatOptions = mergeOptions(defaultOptions, options)
   const resolved = await resolve(cid, opts.path, blockstore, opts)
+
+  if (opts.readAhead != null && opts.readAhead > 0) {
+    yield * readAhead(resolved.cid, blockstore, opts)
+    return
+  }
+
   const result = await exporter(resolved.cid, blockstore, opts)
 
   if (result.type !== 'file' && result.type !== 'raw') {
     throw new NotAFileError()
   }
 
+  if (result.type === 'file' && result.unixfs.type === 'symlink') {
+    throw new NotAFileError('Cannot read the contents of a symlink')
+  }
+
   if (result.content == null) {
     throw new NoContentError()
   }
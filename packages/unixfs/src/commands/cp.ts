@@ -1,9 +1,6 @@
 import { logger } from '@libp2p/logger'
 import mergeOpts from 'merge-options'
-import { InvalidParametersError } from '../errors.js'
-import { addLink } from './utils/add-link.js'
-import { cidToDirectory } from './utils/cid-to-directory.js'
-import { cidToPBLink } from './utils/cid-to-pblink.js'
+import { addToPath } from './utils/add-to-path.js'
 import { SHARD_SPLIT_THRESHOLD_BYTES } from './utils/constants.js'
 import type { CpOptions } from '../index.js'
 import type { Blocks } from '@helia/interface/blocks'
@@ -14,31 +11,17 @@ const log = logger('helia:unixfs:cp')
 
 const defaultOptions: CpOptions = {
   force: false,
+  parents: false,
   shardSplitThresholdBytes: SHARD_SPLIT_THRESHOLD_BYTES
 }
 
 export async function cp (source: CID, target: CID, name: string, blockstore: Blocks, options: Partial<CpOptions> = {}): Promise<CID> {
   const opts: CpOptions = mergeOptions(defaultOptions, options)
 
-  if (name.includes('/')) {
-    throw new InvalidParametersError('Name must not have slashes')
-  }
-
-  const [
-    directory,
-    pblink
-  ] = await Promise.all([
-    cidToDirectory(target, blockstore, opts),
-    cidToPBLink(source, name, blockstore, opts)
-  ])
-
   log('Adding %c as "%s" to %c', source, name, target)
 
-  const result = await addLink(directory, pblink, blockstore, {
-    allowOverwriting: opts.force,
-    cidVersion: target.version,
-    ...opts
+  return addToPath(target, name, source, blockstore, {
+    ...opts,
+    cidVersion: target.version
   })
-
-  return result.cid
 }
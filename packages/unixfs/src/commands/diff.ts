@@ -0,0 +1,228 @@
+import * as dagPB from '@ipld/dag-pb'
+import { logger } from '@libp2p/logger'
+import { UnixFS } from 'ipfs-unixfs'
+import mergeOpts from 'merge-options'
+import { NotUnixFSError } from '../errors.js'
+import type { DiffEntry, DiffOptions } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { PBLink, PBNode } from '@ipld/dag-pb'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:diff')
+
+const defaultOptions: DiffOptions = {
+
+}
+
+interface DirectoryNode {
+  node: PBNode
+  unixfs: UnixFS
+}
+
+export async function * diff (oldCid: CID, newCid: CID, blockstore: Blocks, options: Partial<DiffOptions> = {}): AsyncGenerator<DiffEntry> {
+  const opts: DiffOptions = mergeOptions(defaultOptions, options)
+
+  log('diff %c and %c', oldCid, newCid)
+
+  yield * diffEntry('', oldCid, newCid, blockstore, opts)
+}
+
+/**
+ * Compare two versions of the same entry, descending into directories so only
+ * the entries that changed below them are reported
+ */
+async function * diffEntry (path: string, oldCid: CID, newCid: CID, blockstore: Blocks, options: DiffOptions): AsyncGenerator<DiffEntry> {
+  if (oldCid.equals(newCid)) {
+    return
+  }
+
+  const [
+    oldDir,
+    newDir
+  ] = await Promise.all([
+    loadDirectory(oldCid, blockstore, options),
+    loadDirectory(newCid, blockstore, options)
+  ])
+
+  if (oldDir != null && newDir != null) {
+    let changed = false
+
+    for await (const entry of diffDirectories(path, oldDir, newDir, blockstore, options)) {
+      changed = true
+      yield entry
+    }
+
+    // if no entries changed only the directory metadata was updated
+    if (changed) {
+      return
+    }
+  }
+
+  yield {
+    path,
+    type: 'modified',
+    oldCid,
+    newCid
+  }
+}
+
+async function * diffDirectories (path: string, oldDir: DirectoryNode, newDir: DirectoryNode, blockstore: Blocks, options: DiffOptions): AsyncGenerator<DiffEntry> {
+  if (oldDir.unixfs.type === 'hamt-sharded-directory' && newDir.unixfs.type === 'hamt-sharded-directory' && oldDir.unixfs.fanout === newDir.unixfs.fanout) {
+    yield * diffBuckets(path, oldDir.node, newDir.node, blockstore, options)
+    return
+  }
+
+  const [
+    oldEntries,
+    newEntries
+  ] = await Promise.all([
+    listEntries(oldDir.node.Links, oldDir.unixfs, blockstore, options),
+    listEntries(newDir.node.Links, newDir.unixfs, blockstore, options)
+  ])
+
+  yield * diffEntries(path, oldEntries, newEntries, blockstore, options)
+}
+
+/**
+ * Shards with the same fanout place an entry at the same position so they can
+ * be compared one bucket at a time, skipping any subshard that is unchanged
+ */
+async function * diffBuckets (path: string, oldNode: PBNode, newNode: PBNode, blockstore: Blocks, options: DiffOptions): AsyncGenerator<DiffEntry> {
+  const oldLinks = linksByPrefix(oldNode)
+  const newLinks = linksByPrefix(newNode)
+  const prefixes = [...new Set([...oldLinks.keys(), ...newLinks.keys()])].sort()
+
+  for (const prefix of prefixes) {
+    const oldLink = oldLinks.get(prefix)
+    const newLink = newLinks.get(prefix)
+
+    if (oldLink != null && newLink != null) {
+      if (oldLink.Name === newLink.Name && oldLink.Hash.equals(newLink.Hash)) {
+        continue
+      }
+
+      if (isSubshard(oldLink) && isSubshard(newLink)) {
+        const [
+          oldSubshard,
+          newSubshard
+        ] = await Promise.all([
+          blockstore.get(oldLink.Hash, options),
+          blockstore.get(newLink.Hash, options)
+        ])
+
+        yield * diffBuckets(path, dagPB.decode(oldSubshard), dagPB.decode(newSubshard), blockstore, options)
+        continue
+      }
+    }
+
+    const [
+      oldEntries,
+      newEntries
+    ] = await Promise.all([
+      oldLink == null ? new Map<string, CID>() : bucketEntries(oldLink, blockstore, options),
+      newLink == null ? new Map<string, CID>() : bucketEntries(newLink, blockstore, options)
+    ])
+
+    yield * diffEntries(path, oldEntries, newEntries, blockstore, options)
+  }
+}
+
+async function * diffEntries (path: string, oldEntries: Map<string, CID>, newEntries: Map<string, CID>, blockstore: Blocks, options: DiffOptions): AsyncGenerator<DiffEntry> {
+  for (const [name, oldCid] of oldEntries) {
+    const newCid = newEntries.get(name)
+
+    if (newCid == null) {
+      yield {
+        path: joinPath(path, name),
+        type: 'removed',
+        oldCid
+      }
+
+      continue
+    }
+
+    yield * diffEntry(joinPath(path, name), oldCid, newCid, blockstore, options)
+  }
+
+  for (const [name, newCid] of newEntries) {
+    if (!oldEntries.has(name)) {
+      yield {
+        path: joinPath(path, name),
+        type: 'added',
+        newCid
+      }
+    }
+  }
+}
+
+async function loadDirectory (cid: CID, blockstore: Blocks, options: DiffOptions): Promise<DirectoryNode | undefined> {
+  if (cid.code !== dagPB.code) {
+    return
+  }
+
+  const node = dagPB.decode(await blockstore.get(cid, options))
+
+  if (node.Data == null) {
+    throw new NotUnixFSError(`${cid.toString()} had no data`)
+  }
+
+  const unixfs = UnixFS.unmarshal(node.Data)
+
+  if (!unixfs.isDirectory()) {
+    return
+  }
+
+  return { node, unixfs }
+}
+
+async function listEntries (links: PBLink[], unixfs: UnixFS, blockstore: Blocks, options: DiffOptions): Promise<Map<string, CID>> {
+  const entries = new Map<string, CID>()
+
+  if (unixfs.type !== 'hamt-sharded-directory') {
+    for (const link of links) {
+      entries.set(link.Name ?? '', link.Hash)
+    }
+
+    return entries
+  }
+
+  for (const link of links) {
+    for (const [name, cid] of await bucketEntries(link, blockstore, options)) {
+      entries.set(name, cid)
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Return every directory entry stored under a link in a shard
+ */
+async function bucketEntries (link: PBLink, blockstore: Blocks, options: DiffOptions): Promise<Map<string, CID>> {
+  if (!isSubshard(link)) {
+    return new Map([[(link.Name ?? '').substring(2), link.Hash]])
+  }
+
+  const node = dagPB.decode(await blockstore.get(link.Hash, options))
+
+  return listEntries(node.Links, new UnixFS({ type: 'hamt-sharded-directory' }), blockstore, options)
+}
+
+function linksByPrefix (node: PBNode): Map<string, PBLink> {
+  const links = new Map<string, PBLink>()
+
+  for (const link of node.Links) {
+    links.set((link.Name ?? '').substring(0, 2), link)
+  }
+
+  return links
+}
+
+function isSubshard (link: PBLink): boolean {
+  return link.Name?.length === 2
+}
+
+function joinPath (path: string, name: string): string {
+  return path === '' ? name : `${path}/${name}`
+}
@@ -0,0 +1,288 @@
+import { CarWriter } from '@ipld/car'
+import * as dagPB from '@ipld/dag-pb'
+import { logger } from '@libp2p/logger'
+import { anySignal } from 'any-signal'
+import { UnixFS } from 'ipfs-unixfs'
+import mergeOpts from 'merge-options'
+import { identity } from 'multiformats/hashes/identity'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { DoesNotExistError, InvalidParametersError, NotADirectoryError, NotAFileError, NotUnixFSError } from '../errors.js'
+import { wrapHash } from './utils/consumable-hash.js'
+import { hamtBucketBits, hamtHashFn } from './utils/hamt-constants.js'
+import { toPrefix } from './utils/hamt-utils.js'
+import type { ExportCarOptions } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { PBLink } from '@ipld/dag-pb'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:export-car')
+
+const defaultOptions: ExportCarOptions = {
+
+}
+
+interface Block {
+  cid: CID
+  bytes: Uint8Array
+}
+
+/**
+ * The byte range of a file to export, `end` is exclusive and if it is omitted
+ * the range continues to the end of the file
+ */
+interface Range {
+  start: bigint
+  end?: bigint
+}
+
+export async function * exportCar (cid: CID, blockstore: Blocks, options: Partial<ExportCarOptions> = {}): AsyncGenerator<Uint8Array> {
+  const opts: ExportCarOptions = mergeOptions(defaultOptions, options)
+
+  if (opts.offset != null && (opts.offset < 0 || !Number.isSafeInteger(opts.offset))) {
+    throw new InvalidParametersError('Offset must be a non-negative integer')
+  }
+
+  if (opts.length != null && (opts.length < 0 || !Number.isSafeInteger(opts.length))) {
+    throw new InvalidParametersError('Length must be a non-negative integer')
+  }
+
+  log('export %c as CAR', cid)
+
+  const { writer, out } = CarWriter.create([cid])
+  const controller = new AbortController()
+  const signal = anySignal([controller.signal, opts.signal])
+  let error: Error | undefined
+
+  // the writer waits for each block to be read from `out` before accepting
+  // the next so blocks are only loaded as fast as they are consumed
+  const writing = (async () => {
+    try {
+      for await (const block of exportBlocks(cid, blockstore, { ...opts, signal })) {
+        if (controller.signal.aborted) {
+          break
+        }
+
+        await writer.put(block)
+      }
+    } catch (err) {
+      error = err instanceof Error ? err : new Error(String(err))
+    } finally {
+      await writer.close()
+    }
+  })()
+
+  const chunks = out[Symbol.asyncIterator]()
+
+  try {
+    while (true) {
+      const result = await chunks.next()
+
+      if (result.done === true) {
+        break
+      }
+
+      yield result.value
+    }
+  } finally {
+    // stop loading blocks if the consumer stopped early, then read what is
+    // left because the writer only closes once everything has been read
+    controller.abort()
+
+    let result: IteratorResult<Uint8Array>
+
+    do {
+      result = await chunks.next()
+    } while (result.done !== true)
+
+    await writing
+    signal.clear()
+  }
+
+  if (error != null) {
+    throw error
+  }
+}
+
+/**
+ * Yield the blocks needed to resolve the path followed by the blocks of the
+ * DAG at the end of it, or only the blocks that contain the requested byte
+ * range, in depth-first order
+ */
+async function * exportBlocks (cid: CID, blockstore: Blocks, options: ExportCarOptions): AsyncGenerator<Block> {
+  const seen = new Set<string>()
+  const target = yield * pathBlocks(cid, (options.path ?? '').split('/').filter(Boolean), seen, blockstore, options)
+
+  if (options.offset == null && options.length == null) {
+    yield * dagBlocks(target, seen, blockstore, options)
+    return
+  }
+
+  const start = BigInt(options.offset ?? 0)
+  const end = options.length == null ? undefined : start + BigInt(options.length)
+
+  yield * rangeBlocks(target, { start, end }, seen, blockstore, options)
+}
+
+/**
+ * Yield every block walked through to resolve the path from the root, only
+ * descending into the buckets of a sharded directory that contain the next
+ * path segment, and return the CID at the end of the path
+ */
+async function * pathBlocks (cid: CID, parts: string[], seen: Set<string>, blockstore: Blocks, options: ExportCarOptions): AsyncGenerator<Block, CID> {
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i]
+    const block = await getBlock(cid, seen, blockstore, options)
+
+    if (block != null) {
+      yield block
+    }
+
+    if (cid.code !== dagPB.code) {
+      throw new NotADirectoryError(`${parts.slice(0, i).join('/')} was not a UnixFS directory`)
+    }
+
+    const node = dagPB.decode(block?.bytes ?? await blockstore.get(cid, options))
+
+    if (node.Data == null) {
+      throw new NotUnixFSError(`${cid.toString()} had no data`)
+    }
+
+    const unixfs = UnixFS.unmarshal(node.Data)
+    let link: PBLink | undefined
+
+    if (unixfs.type === 'directory') {
+      link = node.Links.find(link => link.Name === part)
+    } else if (unixfs.type === 'hamt-sharded-directory') {
+      link = yield * shardBlocks(node.Links, part, seen, blockstore, options)
+    } else {
+      throw new NotADirectoryError(`${parts.slice(0, i).join('/')} was not a UnixFS directory`)
+    }
+
+    if (link == null) {
+      throw new DoesNotExistError(`Could not find ${parts.slice(0, i + 1).join('/')}`)
+    }
+
+    cid = link.Hash
+  }
+
+  return cid
+}
+
+/**
+ * Yield the subshards on the way to the bucket that holds the named entry and
+ * return the link to the entry if it exists
+ */
+async function * shardBlocks (links: PBLink[], name: string, seen: Set<string>, blockstore: Blocks, options: ExportCarOptions): AsyncGenerator<Block, PBLink | undefined> {
+  const hash = wrapHash(hamtHashFn)(uint8ArrayFromString(name))
+
+  while (true) {
+    const prefix = toPrefix(await hash.take(hamtBucketBits))
+    const link = links.find(link => link.Name?.startsWith(prefix) === true)
+
+    if (link == null) {
+      return
+    }
+
+    // two character names are links to subshards
+    if (link.Name?.length !== 2) {
+      return link.Name === `${prefix}${name}` ? link : undefined
+    }
+
+    const block = await getBlock(link.Hash, seen, blockstore, options)
+
+    if (block != null) {
+      yield block
+    }
+
+    links = dagPB.decode(block?.bytes ?? await blockstore.get(link.Hash, options)).Links
+  }
+}
+
+/**
+ * Yield every block in a DAG, parents before their children
+ */
+async function * dagBlocks (cid: CID, seen: Set<string>, blockstore: Blocks, options: ExportCarOptions): AsyncGenerator<Block> {
+  const block = await getBlock(cid, seen, blockstore, options)
+
+  // blocks that have been seen already were exported along with their children
+  if (block == null) {
+    return
+  }
+
+  yield block
+
+  if (cid.code !== dagPB.code) {
+    return
+  }
+
+  for (const link of dagPB.decode(block.bytes).Links) {
+    yield * dagBlocks(link.Hash, seen, blockstore, options)
+  }
+}
+
+/**
+ * Yield the blocks of a file that hold bytes in the passed range along with
+ * the nodes above them
+ */
+async function * rangeBlocks (cid: CID, range: Range, seen: Set<string>, blockstore: Blocks, options: ExportCarOptions): AsyncGenerator<Block> {
+  const block = await getBlock(cid, seen, blockstore, options)
+
+  if (block != null) {
+    yield block
+  }
+
+  if (cid.code !== dagPB.code) {
+    return
+  }
+
+  const node = dagPB.decode(block?.bytes ?? await blockstore.get(cid, options))
+
+  if (node.Data == null) {
+    throw new NotUnixFSError(`${cid.toString()} had no data`)
+  }
+
+  const unixfs = UnixFS.unmarshal(node.Data)
+
+  if (unixfs.type !== 'file' && unixfs.type !== 'raw') {
+    throw new NotAFileError('Only files can be exported with an offset or length')
+  }
+
+  // data held in the node itself comes before the data in its children
+  let position = BigInt(unixfs.data?.byteLength ?? 0)
+
+  for (let i = 0; i < node.Links.length; i++) {
+    const childStart = position
+    const childEnd = position + unixfs.blockSizes[i]
+    position = childEnd
+
+    if (childEnd <= range.start || (range.end != null && childStart >= range.end)) {
+      continue
+    }
+
+    yield * rangeBlocks(node.Links[i].Hash, {
+      start: range.start > childStart ? range.start - childStart : 0n,
+      end: range.end != null && range.end < childEnd ? range.end - childStart : undefined
+    }, seen, blockstore, options)
+  }
+}
+
+/**
+ * Load a block that has not been exported yet. Blocks that have already been
+ * exported and identity CIDs, which hold their data in the CID itself, are
+ * skipped
+ */
+async function getBlock (cid: CID, seen: Set<string>, blockstore: Blocks, options: ExportCarOptions): Promise<Block | undefined> {
+  const key = cid.toString()
+
+  if (seen.has(key) || cid.multihash.code === identity.code) {
+    return
+  }
+
+  seen.add(key)
+
+  return {
+    cid,
+    bytes: await blockstore.get(cid, options)
+  }
+}
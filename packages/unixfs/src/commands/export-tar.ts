@@ -0,0 +1,90 @@
+import { logger } from '@libp2p/logger'
+import { exporter, type UnixFSEntry } from 'ipfs-unixfs-exporter'
+import { pack, type TarImportCandidate } from 'it-tar'
+import mergeOpts from 'merge-options'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
+import { NotUnixFSError } from '../errors.js'
+import { resolve } from './utils/resolve.js'
+import { archiveRootPath, walk } from './utils/walk.js'
+import type { ExportTarOptions } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { Mtime } from 'ipfs-unixfs'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:export-tar')
+
+const defaultOptions: ExportTarOptions = {
+
+}
+
+export async function * exportTar (cid: CID, blockstore: Blocks, options: Partial<ExportTarOptions> = {}): AsyncGenerator<Uint8Array> {
+  const opts: ExportTarOptions = mergeOptions(defaultOptions, options)
+  const resolved = await resolve(cid, opts.path, blockstore, opts)
+  const entry = await exporter(resolved.cid, blockstore, opts)
+
+  log('export %c as tar', resolved.cid)
+
+  const entries = (async function * () {
+    for await (const { path, entry: node } of walk(entry, archiveRootPath(entry, opts.path), opts)) {
+      // the root directory itself is not part of the archive
+      if (path !== '') {
+        yield toTarEntry(node, path, opts)
+      }
+    }
+  })()
+
+  yield * pack()(entries)
+}
+
+function toTarEntry (entry: UnixFSEntry, path: string, options: ExportTarOptions): TarImportCandidate {
+  if (entry.type === 'directory') {
+    return {
+      header: {
+        name: `${path}/`,
+        type: 'directory',
+        mode: entry.unixfs.mode,
+        mtime: toDate(entry.unixfs.mtime)
+      }
+    }
+  }
+
+  if (entry.type === 'file' && entry.unixfs.type === 'symlink') {
+    return {
+      header: {
+        name: path,
+        type: 'symlink',
+        linkname: uint8ArrayToString(entry.unixfs.data ?? new Uint8Array()),
+        mode: entry.unixfs.mode,
+        mtime: toDate(entry.unixfs.mtime)
+      }
+    }
+  }
+
+  if (entry.type !== 'file' && entry.type !== 'raw' && entry.type !== 'identity') {
+    throw new NotUnixFSError(`Cannot export ${entry.type} node at ${path} to a tar archive`)
+  }
+
+  return {
+    header: {
+      name: path,
+      type: 'file',
+      size: Number(entry.size),
+      mode: entry.type === 'file' ? entry.unixfs.mode : undefined,
+      mtime: toDate(entry.type === 'file' ? entry.unixfs.mtime : undefined)
+    },
+    body: entry.content(options)
+  }
+}
+
+/**
+ * Nodes without an mtime get the epoch so the same DAG always creates the
+ * same archive
+ */
+function toDate (mtime?: Mtime): Date {
+  if (mtime == null) {
+    return new Date(0)
+  }
+
+  return new Date((Number(mtime.secs) * 1000) + Math.floor((mtime.nsecs ?? 0) / 1000000))
+}
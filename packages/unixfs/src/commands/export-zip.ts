@@ -0,0 +1,256 @@
+import { logger } from '@libp2p/logger'
+import { exporter, type UnixFSEntry } from 'ipfs-unixfs-exporter'
+import mergeOpts from 'merge-options'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { InvalidParametersError, NotUnixFSError } from '../errors.js'
+import { transform } from '../utils/web-streams.js'
+import { CENTRAL_DIRECTORY_HEADER_LENGTH, CENTRAL_DIRECTORY_HEADER_SIGNATURE, DATA_DESCRIPTOR_LENGTH, DATA_DESCRIPTOR_SIGNATURE, END_OF_CENTRAL_DIRECTORY_LENGTH, END_OF_CENTRAL_DIRECTORY_SIGNATURE, EXTENDED_TIMESTAMP_EXTRA_FIELD, FLAG_DATA_DESCRIPTOR, FLAG_UTF8, HOST_UNIX, LOCAL_FILE_HEADER_LENGTH, LOCAL_FILE_HEADER_SIGNATURE, METHOD_DEFLATE, METHOD_STORE, S_IFDIR, S_IFLNK, S_IFREG, ZIP_VERSION, crc32, toDosDateTime } from '../utils/zip.js'
+import { resolve } from './utils/resolve.js'
+import { archiveRootPath, walk } from './utils/walk.js'
+import type { ExportZipOptions } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { Mtime } from 'ipfs-unixfs'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:export-zip')
+
+const defaultOptions: ExportZipOptions = {
+  compression: 'deflate'
+}
+
+/**
+ * The largest size, offset and number of entries that can be stored without
+ * ZIP64 extensions
+ */
+const MAX_UINT32 = 0xffffffff
+const MAX_ENTRIES = 0xfffe
+
+/**
+ * Everything needed to write the local and central directory headers of an
+ * entry
+ */
+interface ZipRecord {
+  name: Uint8Array
+  flags: number
+  method: number
+  time: number
+  date: number
+  crc: number
+  compressedSize: number
+  size: number
+  externalAttributes: number
+  offset: number
+  extra: Uint8Array
+}
+
+export async function * exportZip (cid: CID, blockstore: Blocks, options: Partial<ExportZipOptions> = {}): AsyncGenerator<Uint8Array> {
+  const opts: ExportZipOptions = mergeOptions(defaultOptions, options)
+  const resolved = await resolve(cid, opts.path, blockstore, opts)
+  const root = await exporter(resolved.cid, blockstore, opts)
+  const records: ZipRecord[] = []
+  let offset = 0
+
+  log('export %c as zip', resolved.cid)
+
+  for await (const { path, entry } of walk(root, archiveRootPath(root, opts.path), opts)) {
+    // the root directory itself is not part of the archive
+    if (path === '') {
+      continue
+    }
+
+    if (offset > MAX_UINT32 || records.length === MAX_ENTRIES) {
+      throw new InvalidParametersError('The DAG is too large to export as a zip file, ZIP64 is not supported')
+    }
+
+    const record = toRecord(entry, path, offset, opts)
+
+    if (entry.type === 'directory' || (entry.type === 'file' && entry.unixfs.type === 'symlink')) {
+      const data = entry.type === 'directory' ? new Uint8Array(0) : entry.unixfs.data ?? new Uint8Array(0)
+
+      record.crc = crc32(data)
+      record.compressedSize = record.size = data.byteLength
+
+      yield localFileHeader(record)
+      yield data
+      offset += LOCAL_FILE_HEADER_LENGTH + record.name.byteLength + record.extra.byteLength + data.byteLength
+    } else if (entry.type === 'file' || entry.type === 'raw' || entry.type === 'identity') {
+      // the checksum and sizes of files are only known after they have been
+      // streamed so they follow the content in a data descriptor
+      record.flags |= FLAG_DATA_DESCRIPTOR
+
+      const header = localFileHeader(record)
+      yield header
+      offset += header.byteLength
+
+      const content = (async function * () {
+        for await (const buf of entry.content(opts)) {
+          record.crc = crc32(buf, record.crc)
+          record.size += buf.byteLength
+          yield buf
+        }
+      })()
+
+      for await (const buf of record.method === METHOD_DEFLATE ? transform(content, new CompressionStream('deflate-raw')) : content) {
+        record.compressedSize += buf.byteLength
+        yield buf
+      }
+
+      if (record.size > MAX_UINT32 || record.compressedSize > MAX_UINT32) {
+        throw new InvalidParametersError(`${path} is too large to export as a zip file, ZIP64 is not supported`)
+      }
+
+      yield dataDescriptor(record)
+      offset += record.compressedSize + DATA_DESCRIPTOR_LENGTH
+    }
+
+    records.push(record)
+  }
+
+  if (offset > MAX_UINT32) {
+    throw new InvalidParametersError('The DAG is too large to export as a zip file, ZIP64 is not supported')
+  }
+
+  let length = 0
+
+  for (const record of records) {
+    const header = centralDirectoryHeader(record)
+    yield header
+    length += header.byteLength
+  }
+
+  yield endOfCentralDirectory(records.length, length, offset)
+}
+
+function toRecord (entry: UnixFSEntry, path: string, offset: number, options: ExportZipOptions): ZipRecord {
+  let name = path
+  let type = S_IFREG
+  let method = options.compression === 'store' ? METHOD_STORE : METHOD_DEFLATE
+  let mode = 0o644
+  let mtime: Mtime | undefined
+
+  if (entry.type === 'directory') {
+    name = `${path}/`
+    type = S_IFDIR
+    method = METHOD_STORE
+  } else if (entry.type === 'file' && entry.unixfs.type === 'symlink') {
+    type = S_IFLNK
+    method = METHOD_STORE
+  } else if (entry.type !== 'file' && entry.type !== 'raw' && entry.type !== 'identity') {
+    throw new NotUnixFSError(`Cannot export ${entry.type} node at ${path} to a zip file`)
+  }
+
+  if (entry.type === 'directory' || entry.type === 'file') {
+    mode = entry.unixfs.mode ?? mode
+    mtime = entry.unixfs.mtime
+  }
+
+  const { time, date } = toDosDateTime(mtime == null ? new Date(0) : new Date(Number(mtime.secs) * 1000))
+
+  return {
+    name: uint8ArrayFromString(name),
+    flags: FLAG_UTF8,
+    method,
+    time,
+    date,
+    crc: 0,
+    compressedSize: 0,
+    size: 0,
+    // the unix mode is stored in the high bytes, 0x10 is the MS-DOS directory
+    // attribute
+    externalAttributes: (((type | mode) << 16) | (type === S_IFDIR ? 0x10 : 0)) >>> 0,
+    offset,
+    extra: extendedTimestamp(mtime)
+  }
+}
+
+/**
+ * The MS-DOS time has two second precision in local time so the mtime is also
+ * stored as seconds since the epoch in UTC
+ */
+function extendedTimestamp (mtime?: Mtime): Uint8Array {
+  if (mtime == null || mtime.secs < -0x80000000n || mtime.secs > 0x7fffffffn) {
+    return new Uint8Array(0)
+  }
+
+  const buf = new Uint8Array(9)
+  const view = new DataView(buf.buffer)
+
+  view.setUint16(0, EXTENDED_TIMESTAMP_EXTRA_FIELD, true)
+  view.setUint16(2, 5, true)
+  // only the modification time is present
+  view.setUint8(4, 1)
+  view.setInt32(5, Number(mtime.secs), true)
+
+  return buf
+}
+
+function localFileHeader (record: ZipRecord): Uint8Array {
+  const buf = new Uint8Array(LOCAL_FILE_HEADER_LENGTH + record.name.byteLength + record.extra.byteLength)
+  const view = new DataView(buf.buffer)
+
+  view.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true)
+  view.setUint16(4, ZIP_VERSION, true)
+  view.setUint16(6, record.flags, true)
+  view.setUint16(8, record.method, true)
+  view.setUint16(10, record.time, true)
+  view.setUint16(12, record.date, true)
+  view.setUint32(14, record.crc, true)
+  view.setUint32(18, record.compressedSize, true)
+  view.setUint32(22, record.size, true)
+  view.setUint16(26, record.name.byteLength, true)
+  view.setUint16(28, record.extra.byteLength, true)
+  buf.set(record.name, LOCAL_FILE_HEADER_LENGTH)
+  buf.set(record.extra, LOCAL_FILE_HEADER_LENGTH + record.name.byteLength)
+
+  return buf
+}
+
+function dataDescriptor (record: ZipRecord): Uint8Array {
+  const buf = new Uint8Array(DATA_DESCRIPTOR_LENGTH)
+  const view = new DataView(buf.buffer)
+
+  view.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true)
+  view.setUint32(4, record.crc, true)
+  view.setUint32(8, record.compressedSize, true)
+  view.setUint32(12, record.size, true)
+
+  return buf
+}
+
+function centralDirectoryHeader (record: ZipRecord): Uint8Array {
+  const buf = new Uint8Array(CENTRAL_DIRECTORY_HEADER_LENGTH + record.name.byteLength + record.extra.byteLength)
+  const view = new DataView(buf.buffer)
+
+  view.setUint32(0, CENTRAL_DIRECTORY_HEADER_SIGNATURE, true)
+  view.setUint16(4, (HOST_UNIX << 8) | ZIP_VERSION, true)
+  view.setUint16(6, ZIP_VERSION, true)
+  view.setUint16(8, record.flags, true)
+  view.setUint16(10, record.method, true)
+  view.setUint16(12, record.time, true)
+  view.setUint16(14, record.date, true)
+  view.setUint32(16, record.crc, true)
+  view.setUint32(20, record.compressedSize, true)
+  view.setUint32(24, record.size, true)
+  view.setUint16(28, record.name.byteLength, true)
+  view.setUint16(30, record.extra.byteLength, true)
+  view.setUint32(38, record.externalAttributes, true)
+  view.setUint32(42, record.offset, true)
+  buf.set(record.name, CENTRAL_DIRECTORY_HEADER_LENGTH)
+  buf.set(record.extra, CENTRAL_DIRECTORY_HEADER_LENGTH + record.name.byteLength)
+
+  return buf
+}
+
+function endOfCentralDirectory (count: number, length: number, offset: number): Uint8Array {
+  const buf = new Uint8Array(END_OF_CENTRAL_DIRECTORY_LENGTH)
+  const view = new DataView(buf.buffer)
+
+  view.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+  view.setUint16(8, count, true)
+  view.setUint16(10, count, true)
+  view.setUint32(12, length, true)
+  view.setUint32(16, offset, true)
+
+  return buf
+}
@@ -0,0 +1,112 @@
+import { CarBlockIterator } from '@ipld/car'
+import * as dagPB from '@ipld/dag-pb'
+import { logger } from '@libp2p/logger'
+import mergeOpts from 'merge-options'
+import { identity } from 'multiformats/hashes/identity'
+import { sha256, sha512 } from 'multiformats/hashes/sha2'
+import { equals as uint8ArrayEquals } from 'uint8arrays/equals'
+import { InvalidCarError } from '../errors.js'
+import { stat } from './stat.js'
+import { OverlayBlockstore } from './utils/overlay-blockstore.js'
+import type { ImportCarOptions, ImportCarResult, UnixFSStats } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { CID } from 'multiformats/cid'
+import type { MultihashHasher } from 'multiformats/hashes/interface'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:import-car')
+
+const defaultOptions: ImportCarOptions = {
+  allowUnreferencedBlocks: false
+}
+
+const hashers: Record<number, MultihashHasher> = {
+  [identity.code]: identity,
+  [sha256.code]: sha256,
+  [sha512.code]: sha512
+}
+
+export async function importCar (source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>, blockstore: Blocks, options: Partial<ImportCarOptions> = {}): Promise<ImportCarResult> {
+  const opts: ImportCarOptions = mergeOptions(defaultOptions, options)
+  const iterator = await CarBlockIterator.fromIterable((async function * () {
+    yield * source
+  })())
+  const roots = await iterator.getRoots()
+  // blocks are held in memory until the whole CAR file has been checked so
+  // nothing is written to the blockstore if it is rejected
+  const overlay = new OverlayBlockstore(blockstore)
+  const imported = new Set<string>()
+  const referenced = new Set<string>(roots.map(cid => cid.toString()))
+  let blocks = 0
+  let size = 0n
+
+  log('importing CAR with roots %s', roots.map(cid => cid.toString()).join(', '))
+
+  for await (const { cid, bytes } of iterator) {
+    await verifyBlock(cid, bytes)
+
+    // record every link so blocks nothing points to can be found at the end
+    if (cid.code === dagPB.code) {
+      for (const link of dagPB.decode(bytes).Links) {
+        referenced.add(link.Hash.toString())
+      }
+    }
+
+    await overlay.put(cid, bytes)
+
+    imported.add(cid.toString())
+    blocks++
+    size += BigInt(bytes.byteLength)
+  }
+
+  for (const root of roots) {
+    if (!imported.has(root.toString())) {
+      throw new InvalidCarError(`Root ${root.toString()} was not in the CAR file`)
+    }
+  }
+
+  if (!opts.allowUnreferencedBlocks) {
+    for (const key of imported) {
+      if (!referenced.has(key)) {
+        throw new InvalidCarError(`Block ${key} was not referenced by a root or any other block`)
+      }
+    }
+  }
+
+  const stats: UnixFSStats[] = []
+
+  // throws if a root is not a UnixFS node
+  for (const root of roots) {
+    stats.push(await stat(root, overlay, {
+      ...opts,
+      offline: true
+    }))
+  }
+
+  await overlay.persistAll(opts)
+
+  log('imported %d blocks', blocks)
+
+  return {
+    roots: stats,
+    blocks,
+    size
+  }
+}
+
+/**
+ * Ensure the block bytes hash to the multihash in the CID
+ */
+async function verifyBlock (cid: CID, bytes: Uint8Array): Promise<void> {
+  const hasher = hashers[cid.multihash.code]
+
+  if (hasher == null) {
+    throw new InvalidCarError(`Block ${cid.toString()} used an unsupported hash algorithm 0x${cid.multihash.code.toString(16)}`)
+  }
+
+  const digest = await hasher.digest(bytes)
+
+  if (!uint8ArrayEquals(digest.bytes, cid.multihash.bytes)) {
+    throw new InvalidCarError(`Block ${cid.toString()} did not match its hash`)
+  }
+}
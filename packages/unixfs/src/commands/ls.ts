@@ -1,8 +1,9 @@
 import { exporter, type UnixFSEntry } from 'ipfs-unixfs-exporter'
 import mergeOpts from 'merge-options'
 import { NoContentError, NotADirectoryError } from '../errors.js'
+import { detectMimeType } from './utils/mime-type.js'
 import { resolve } from './utils/resolve.js'
-import type { LsOptions } from '../index.js'
+import type { LsOptions, UnixFSListEntry } from '../index.js'
 import type { Blocks } from '@helia/interface/blocks'
 import type { CID } from 'multiformats/cid'
 
@@ -12,13 +13,13 @@ const defaultOptions: LsOptions = {
 
 }
 
-export async function * ls (cid: CID, blockstore: Blocks, options: Partial<LsOptions> = {}): AsyncIterable<UnixFSEntry> {
+export async function * ls (cid: CID, blockstore: Blocks, options: Partial<LsOptions> = {}): AsyncIterable<UnixFSListEntry> {
   const opts: LsOptions = mergeOptions(defaultOptions, options)
   const resolved = await resolve(cid, opts.path, blockstore, opts)
   const result = await exporter(resolved.cid, blockstore)
 
   if (result.type === 'file' || result.type === 'raw') {
-    yield result
+    yield await withMimeType(result, resolved.path?.split('/').filter(Boolean).pop(), opts)
     return
   }
 
@@ -30,8 +31,24 @@ export async function * ls (cid: CID, blockstore: Blocks, options: Partial<LsOpt
     throw new NotADirectoryError()
   }
 
-  yield * result.content({
+  for await (const entry of result.content({
     offset: options.offset,
     length: options.length
-  })
+  })) {
+    yield await withMimeType(entry, entry.name, opts)
+  }
+}
+
+async function withMimeType (entry: UnixFSEntry, name: string | undefined, options: LsOptions): Promise<UnixFSListEntry> {
+  if (options.detectMimeType == null || options.detectMimeType === false) {
+    return entry
+  }
+
+  const mimeType = await detectMimeType(entry, name, options.detectMimeType, options)
+
+  if (mimeType == null) {
+    return entry
+  }
+
+  return Object.assign(entry, { mimeType })
 }
@@ -0,0 +1,174 @@
+import { logger } from '@libp2p/logger'
+import { exporter } from 'ipfs-unixfs-exporter'
+import mergeOpts from 'merge-options'
+import { InvalidParametersError, MergeConflictError } from '../errors.js'
+import { cidToDirectory } from './utils/cid-to-directory.js'
+import { SHARD_SPLIT_THRESHOLD_BYTES } from './utils/constants.js'
+import { editDirectory, type DirectoryEdit } from './utils/edit-directory.js'
+import type { MergeConflict, MergeOptions, MergeResolution } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:merge')
+
+const defaultOptions: MergeOptions = {
+  onConflict: (conflict) => {
+    throw new MergeConflictError(`Both sides changed ${conflict.path === '' ? 'the root' : conflict.path}`)
+  },
+  shardSplitThresholdBytes: SHARD_SPLIT_THRESHOLD_BYTES
+}
+
+export async function merge (base: CID, ours: CID, theirs: CID, blockstore: Blocks, options: Partial<MergeOptions> = {}): Promise<CID> {
+  const opts: MergeOptions = mergeOptions(defaultOptions, options)
+
+  log('merge %c and %c with base %c', ours, theirs, base)
+
+  const result = await mergeEntry('', base, ours, theirs, blockstore, opts)
+
+  if (result.type === 'rename') {
+    throw new InvalidParametersError('Cannot rename the root of a merge')
+  }
+
+  if (result.cid == null) {
+    throw new InvalidParametersError('Cannot remove the root of a merge')
+  }
+
+  return result.cid
+}
+
+type MergeResult = { type: 'cid', cid?: CID } | { type: 'rename', theirs: CID, name: string }
+
+/**
+ * Work out what should be at `path` after merging, an undefined CID means the
+ * entry should not exist
+ */
+async function mergeEntry (path: string, base: CID | undefined, ours: CID | undefined, theirs: CID | undefined, blockstore: Blocks, options: MergeOptions): Promise<MergeResult> {
+  if (equals(ours, theirs) || equals(base, theirs)) {
+    return { type: 'cid', cid: ours }
+  }
+
+  if (equals(base, ours)) {
+    return { type: 'cid', cid: theirs }
+  }
+
+  // both sides changed the entry, if they are both directories merge them
+  if (ours != null && theirs != null) {
+    const [
+      ourEntries,
+      theirEntries
+    ] = await Promise.all([
+      listDirectory(ours, blockstore, options),
+      listDirectory(theirs, blockstore, options)
+    ])
+
+    if (ourEntries != null && theirEntries != null) {
+      // if both sides created a directory where there was none or where there
+      // was a file, merge them as if they started out empty
+      const baseEntries = base == null ? undefined : await listDirectory(base, blockstore, options)
+
+      return {
+        type: 'cid',
+        cid: await mergeDirectories(path, ours, baseEntries ?? new Map(), ourEntries, theirEntries, blockstore, options)
+      }
+    }
+  }
+
+  const conflict: MergeConflict = { path, base, ours, theirs }
+  const resolution: MergeResolution = await options.onConflict(conflict)
+
+  log('resolved conflict at %s with %s', path, resolution.type)
+
+  if (resolution.type === 'keep-ours') {
+    return { type: 'cid', cid: ours }
+  }
+
+  if (resolution.type === 'keep-theirs') {
+    return { type: 'cid', cid: theirs }
+  }
+
+  if (resolution.type === 'custom') {
+    return { type: 'cid', cid: resolution.cid }
+  }
+
+  if (resolution.type === 'rename') {
+    if (theirs == null) {
+      throw new InvalidParametersError(`Cannot rename ${path} as it was removed by theirs`)
+    }
+
+    if (resolution.name === '' || resolution.name.includes('/')) {
+      throw new InvalidParametersError('Renamed entries must have a name without a path separator')
+    }
+
+    return { type: 'rename', theirs, name: resolution.name }
+  }
+
+  throw new InvalidParametersError('Unknown conflict resolution')
+}
+
+/**
+ * Apply the changes made by both sides to our version of the directory
+ */
+async function mergeDirectories (path: string, ours: CID, baseEntries: Map<string, CID>, ourEntries: Map<string, CID>, theirEntries: Map<string, CID>, blockstore: Blocks, options: MergeOptions): Promise<CID> {
+  const names = new Set([...baseEntries.keys(), ...ourEntries.keys(), ...theirEntries.keys()])
+  const edits: DirectoryEdit[] = []
+
+  for (const name of names) {
+    const ourCid = ourEntries.get(name)
+    const result = await mergeEntry(path === '' ? name : `${path}/${name}`, baseEntries.get(name), ourCid, theirEntries.get(name), blockstore, options)
+
+    if (result.type === 'rename') {
+      // keep our version and add theirs alongside it
+      edits.push({ type: 'add', name: result.name, cid: result.theirs, allowOverwriting: false })
+      continue
+    }
+
+    if (equals(result.cid, ourCid)) {
+      continue
+    }
+
+    if (result.cid == null) {
+      edits.push({ type: 'remove', name })
+    } else {
+      edits.push({ type: 'add', name, cid: result.cid, allowOverwriting: true })
+    }
+  }
+
+  if (edits.length === 0) {
+    return ours
+  }
+
+  const directory = await editDirectory(await cidToDirectory(ours, blockstore, options), edits, blockstore, {
+    ...options,
+    cidVersion: ours.version
+  })
+
+  return directory.cid
+}
+
+/**
+ * Returns the entries of a directory or undefined if the CID is not a directory
+ */
+async function listDirectory (cid: CID, blockstore: Blocks, options: MergeOptions): Promise<Map<string, CID> | undefined> {
+  const entry = await exporter(cid, blockstore, options)
+
+  if (entry.type !== 'directory') {
+    return
+  }
+
+  const entries = new Map<string, CID>()
+
+  for await (const child of entry.content(options)) {
+    entries.set(child.name, child.cid)
+  }
+
+  return entries
+}
+
+function equals (a?: CID, b?: CID): boolean {
+  if (a == null || b == null) {
+    return a === b
+  }
+
+  return a.equals(b)
+}
@@ -5,11 +5,10 @@ import { exporter } from 'ipfs-unixfs-exporter'
 import mergeOpts from 'merge-options'
 import { CID } from 'multiformats/cid'
 import { sha256 } from 'multiformats/hashes/sha2'
-import { InvalidParametersError, NotADirectoryError } from '../errors.js'
-import { addLink } from './utils/add-link.js'
-import { cidToDirectory } from './utils/cid-to-directory.js'
-import { cidToPBLink } from './utils/cid-to-pblink.js'
+import { NotADirectoryError } from '../errors.js'
+import { addToPath, splitPath } from './utils/add-to-path.js'
 import { SHARD_SPLIT_THRESHOLD_BYTES } from './utils/constants.js'
+import { resolvePartial } from './utils/resolve.js'
 import type { MkdirOptions } from '../index.js'
 import type { Blocks } from '@helia/interface/blocks'
 
@@ -19,15 +18,15 @@ const log = logger('helia:unixfs:mkdir')
 const defaultOptions: MkdirOptions = {
   cidVersion: 1,
   force: false,
+  parents: false,
   shardSplitThresholdBytes: SHARD_SPLIT_THRESHOLD_BYTES
 }
 
 export async function mkdir (parentCid: CID, dirname: string, blockstore: Blocks, options: Partial<MkdirOptions> = {}): Promise<CID> {
   const opts: MkdirOptions = mergeOptions(defaultOptions, options)
 
-  if (dirname.includes('/')) {
-    throw new InvalidParametersError('Path must not have slashes')
-  }
+  // validate the path
+  splitPath(dirname)
 
   const entry = await exporter(parentCid, blockstore, options)
 
@@ -35,6 +34,17 @@ export async function mkdir (parentCid: CID, dirname: string, blockstore: Blocks
     throw new NotADirectoryError(`${parentCid.toString()} was not a UnixFS directory`)
   }
 
+  if (opts.parents) {
+    const existing = await resolvePartial(parentCid, dirname, blockstore, opts)
+
+    if (existing.missing.length === 0 && (await exporter(existing.cid, blockstore, options)).type === 'directory') {
+      log('%s already exists', dirname)
+
+      // like `mkdir -p`, an existing directory is not an error
+      return parentCid
+    }
+  }
+
   log('creating %s', dirname)
 
   const metadata = new UnixFS({
@@ -54,20 +64,7 @@ export async function mkdir (parentCid: CID, dirname: string, blockstore: Blocks
 
   await blockstore.put(emptyDirCid, buf)
 
-  const [
-    directory,
-    pblink
-  ] = await Promise.all([
-    cidToDirectory(parentCid, blockstore, opts),
-    cidToPBLink(emptyDirCid, dirname, blockstore, opts)
-  ])
-
   log('adding empty dir called %s to %c', dirname, parentCid)
 
-  const result = await addLink(directory, pblink, blockstore, {
-    ...opts,
-    allowOverwriting: opts.force
-  })
-
-  return result.cid
+  return addToPath(parentCid, dirname, emptyDirCid, blockstore, opts)
 }
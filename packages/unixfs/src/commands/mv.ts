@@ -0,0 +1,119 @@
+import { logger } from '@libp2p/logger'
+import mergeOpts from 'merge-options'
+import { InvalidParametersError } from '../errors.js'
+import { addLink } from './utils/add-link.js'
+import { splitPath } from './utils/add-to-path.js'
+import { cidToDirectory } from './utils/cid-to-directory.js'
+import { cidToPBLink } from './utils/cid-to-pblink.js'
+import { SHARD_SPLIT_THRESHOLD_BYTES } from './utils/constants.js'
+import { editDirectory, type DirectoryEdit } from './utils/edit-directory.js'
+import { removeLink } from './utils/remove-link.js'
+import { resolve, updatePathCids } from './utils/resolve.js'
+import type { MvOptions } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:mv')
+
+const defaultOptions: MvOptions = {
+  force: false,
+  shardSplitThresholdBytes: SHARD_SPLIT_THRESHOLD_BYTES
+}
+
+export async function mv (root: CID, from: string, to: string, blockstore: Blocks, options: Partial<MvOptions> = {}): Promise<CID> {
+  const opts: MvOptions = mergeOptions(defaultOptions, options)
+  const source = splitPath(from)
+  const target = splitPath(to)
+  const fromPath = [...source.parents, source.name].join('/')
+  const toPath = [...target.parents, target.name].join('/')
+
+  if (fromPath === toPath) {
+    return root
+  }
+
+  if (toPath.startsWith(`${fromPath}/`)) {
+    throw new InvalidParametersError('Cannot move a directory into itself')
+  }
+
+  // find the deepest directory that contains both the source and the target,
+  // everything above it only needs to be updated once
+  let depth = 0
+
+  while (depth < source.parents.length && depth < target.parents.length && source.parents[depth] === target.parents[depth]) {
+    depth++
+  }
+
+  const common = await resolve(root, source.parents.slice(0, depth).join('/'), blockstore, opts)
+  const sourceCid = (await resolve(common.cid, [...source.parents.slice(depth), source.name].join('/'), blockstore, opts)).cid
+
+  log('moving %s to %s under %c', fromPath, toPath, common.cid)
+
+  const edits: DirectoryEdit[] = []
+
+  // remove the source from its parent
+  if (source.parents.length === depth) {
+    edits.push({ type: 'remove', name: source.name })
+  } else {
+    const branch = source.parents.slice(depth)
+    const resolved = await resolve(common.cid, branch.join('/'), blockstore, opts)
+    const directory = await cidToDirectory(resolved.cid, blockstore, opts)
+    const result = await removeLink(directory, source.name, blockstore, {
+      ...opts,
+      cidVersion: root.version
+    })
+
+    edits.push({
+      type: 'add',
+      name: branch[0],
+      cid: await updatePathCids(result.cid, withoutCommonSegment(resolved), blockstore, opts),
+      allowOverwriting: true
+    })
+  }
+
+  // add the source to the target directory
+  if (target.parents.length === depth) {
+    edits.push({ type: 'add', name: target.name, cid: sourceCid, allowOverwriting: opts.force })
+  } else {
+    const branch = target.parents.slice(depth)
+    const resolved = await resolve(common.cid, branch.join('/'), blockstore, opts)
+    const [
+      directory,
+      pblink
+    ] = await Promise.all([
+      cidToDirectory(resolved.cid, blockstore, opts),
+      cidToPBLink(sourceCid, target.name, blockstore, opts)
+    ])
+    const result = await addLink(directory, pblink, blockstore, {
+      ...opts,
+      allowOverwriting: opts.force,
+      cidVersion: root.version
+    })
+
+    edits.push({
+      type: 'add',
+      name: branch[0],
+      cid: await updatePathCids(result.cid, withoutCommonSegment(resolved), blockstore, opts),
+      allowOverwriting: true
+    })
+  }
+
+  const directory = await editDirectory(await cidToDirectory(common.cid, blockstore, opts), edits, blockstore, {
+    ...opts,
+    cidVersion: root.version
+  })
+
+  return updatePathCids(directory.cid, common, blockstore, opts)
+}
+
+/**
+ * Resolve results start with the directory the path was resolved from - when
+ * updating a branch below the common directory we want to stop at the child of
+ * the common directory so it can be edited along with the other branch
+ */
+function withoutCommonSegment <T extends { segments?: unknown[] }> (resolved: T): T {
+  return {
+    ...resolved,
+    segments: resolved.segments?.slice(1)
+  }
+}
@@ -0,0 +1,143 @@
+import { logger } from '@libp2p/logger'
+import mergeOpts from 'merge-options'
+import { concat as uint8ArrayConcat } from 'uint8arrays/concat'
+import { FileClosedError, InvalidParametersError } from '../errors.js'
+import { decodeFileNode, getBlock, type FileNode } from './utils/file-node.js'
+import { resolve } from './utils/resolve.js'
+import type { OpenOptions, UnixFSFileHandle } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { AbortOptions } from '@libp2p/interface'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:open')
+
+const defaultOptions: OpenOptions = {
+
+}
+
+export async function open (cid: CID, blockstore: Blocks, options: Partial<OpenOptions> = {}): Promise<UnixFSFileHandle> {
+  const opts: OpenOptions = mergeOptions(defaultOptions, options)
+  const resolved = await resolve(cid, opts.path, blockstore, opts)
+
+  log('open %c', resolved.cid)
+
+  const root = decodeFileNode(resolved.cid, await getBlock(resolved.cid, blockstore, opts))
+
+  return new DefaultUnixFSFileHandle(resolved.cid, root, blockstore, opts)
+}
+
+class DefaultUnixFSFileHandle implements UnixFSFileHandle {
+  public readonly cid: CID
+  public readonly size: number
+  private readonly blockstore: Blocks
+  private readonly options: OpenOptions
+
+  /**
+   * Decoded internal nodes by CID, leaves are not cached so only the nodes
+   * above them are held in memory
+   */
+  private nodes?: Map<string, FileNode>
+
+  constructor (cid: CID, root: FileNode, blockstore: Blocks, options: OpenOptions) {
+    this.cid = cid
+    this.size = root.size
+    this.blockstore = blockstore
+    this.options = options
+    this.nodes = new Map()
+
+    if (root.children.length > 0) {
+      this.nodes.set(cid.toString(), root)
+    }
+  }
+
+  async read (position: number, length: number, options: AbortOptions = {}): Promise<Uint8Array> {
+    if (!Number.isSafeInteger(position) || position < 0 || !Number.isSafeInteger(length) || length < 0) {
+      throw new InvalidParametersError('Position and length must be positive integers')
+    }
+
+    const end = Math.min(position + length, this.size)
+
+    if (position >= end) {
+      this.assertOpen()
+      return new Uint8Array(0)
+    }
+
+    log.trace('read %d-%d of %c', position, end, this.cid)
+
+    const chunks = await this.readRange(this.cid, position, end, {
+      ...this.options,
+      signal: options.signal
+    })
+
+    return uint8ArrayConcat(chunks, end - position)
+  }
+
+  async close (): Promise<void> {
+    this.nodes = undefined
+  }
+
+  /**
+   * Return the bytes between `start` and `end` of the part of the file held by
+   * the DAG under `cid`. Only the children that overlap the range are loaded,
+   * and they are loaded in parallel.
+   */
+  private async readRange (cid: CID, start: number, end: number, options: OpenOptions): Promise<Uint8Array[]> {
+    const node = await this.load(cid, options)
+    const chunks: Uint8Array[] = []
+
+    if (start < node.data.byteLength) {
+      chunks.push(node.data.subarray(start, Math.min(end, node.data.byteLength)))
+    }
+
+    const reads: Array<Promise<Uint8Array[]>> = []
+    let offset = node.data.byteLength
+
+    for (const child of node.children) {
+      if (offset >= end) {
+        break
+      }
+
+      const childEnd = offset + child.size
+
+      if (childEnd > start) {
+        reads.push(this.readRange(child.cid, Math.max(start - offset, 0), Math.min(end, childEnd) - offset, options))
+      }
+
+      offset = childEnd
+    }
+
+    for (const childChunks of await Promise.all(reads)) {
+      chunks.push(...childChunks)
+    }
+
+    return chunks
+  }
+
+  private async load (cid: CID, options: AbortOptions): Promise<FileNode> {
+    const cached = this.assertOpen().get(cid.toString())
+
+    if (cached != null) {
+      return cached
+    }
+
+    const node = decodeFileNode(cid, await getBlock(cid, this.blockstore, options))
+
+    // the handle may have been closed while the block was loading
+    const nodes = this.assertOpen()
+
+    if (node.children.length > 0) {
+      nodes.set(cid.toString(), node)
+    }
+
+    return node
+  }
+
+  private assertOpen (): Map<string, FileNode> {
+    if (this.nodes == null) {
+      throw new FileClosedError()
+    }
+
+    return this.nodes
+  }
+}
@@ -0,0 +1,31 @@
+import { logger } from '@libp2p/logger'
+import { exporter } from 'ipfs-unixfs-exporter'
+import mergeOpts from 'merge-options'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
+import { NotASymlinkError } from '../errors.js'
+import { resolve } from './utils/resolve.js'
+import type { ReadlinkOptions } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:readlink')
+
+const defaultOptions: ReadlinkOptions = {
+
+}
+
+export async function readlink (cid: CID, blockstore: Blocks, options: Partial<ReadlinkOptions> = {}): Promise<string> {
+  const opts: ReadlinkOptions = mergeOptions(defaultOptions, options)
+  const resolved = await resolve(cid, opts.path, blockstore, opts)
+
+  log('readlink %c', resolved.cid)
+
+  const result = await exporter(resolved.cid, blockstore, opts)
+
+  if (result.type !== 'file' || result.unixfs.type !== 'symlink') {
+    throw new NotASymlinkError()
+  }
+
+  return uint8ArrayToString(result.unixfs.data ?? new Uint8Array())
+}
@@ -0,0 +1,66 @@
+import { logger } from '@libp2p/logger'
+import { exporter } from 'ipfs-unixfs-exporter'
+import toBuffer from 'it-to-buffer'
+import mergeOpts from 'merge-options'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
+import { DoesNotExistError, InvalidRedirectsError } from '../errors.js'
+import { matchRedirects, MAX_REDIRECTS_FILE_SIZE, parseRedirects, type Redirect } from './utils/redirects.js'
+import { resolve } from './utils/resolve.js'
+import type { RedirectOptions } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { RawNode, UnixFSFile } from 'ipfs-unixfs-exporter'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:redirect')
+
+const defaultOptions: RedirectOptions = {
+
+}
+
+export async function redirect (cid: CID, path: string, blockstore: Blocks, options: Partial<RedirectOptions> = {}): Promise<Redirect | undefined> {
+  const opts: RedirectOptions = mergeOptions(defaultOptions, options)
+  const file = await findFile(cid, '_redirects', blockstore, opts)
+
+  if (file != null) {
+    if (Number(file.size) > MAX_REDIRECTS_FILE_SIZE) {
+      throw new InvalidRedirectsError(`_redirects file was larger than ${MAX_REDIRECTS_FILE_SIZE} bytes`)
+    }
+
+    const rules = parseRedirects(uint8ArrayToString(await toBuffer(file.content(opts))))
+    const result = matchRedirects(rules, path)
+
+    if (result != null) {
+      log('%c%s matched %s %d', cid, path, result.location, result.status)
+      return result
+    }
+  }
+
+  if (await findFile(cid, '404.html', blockstore, opts) != null) {
+    log('%c%s fell back to 404.html', cid, path)
+
+    return {
+      location: '/404.html',
+      status: 404
+    }
+  }
+}
+
+/**
+ * Return a file in the root directory or undefined if it is missing or is not
+ * a file
+ */
+async function findFile (cid: CID, name: string, blockstore: Blocks, options: RedirectOptions): Promise<UnixFSFile | RawNode | undefined> {
+  try {
+    const resolved = await resolve(cid, name, blockstore, options)
+    const result = await exporter(resolved.cid, blockstore, options)
+
+    if (result.type === 'raw' || (result.type === 'file' && result.unixfs.type !== 'symlink')) {
+      return result
+    }
+  } catch (err) {
+    if (!(err instanceof DoesNotExistError)) {
+      throw err
+    }
+  }
+}
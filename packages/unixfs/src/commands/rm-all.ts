@@ -0,0 +1,171 @@
+import * as dagPB from '@ipld/dag-pb'
+import { logger } from '@libp2p/logger'
+import { UnixFS } from 'ipfs-unixfs'
+import { exporter } from 'ipfs-unixfs-exporter'
+import mergeOpts from 'merge-options'
+import { minimatch } from 'minimatch'
+import { InvalidPBNodeError, NotADirectoryError } from '../errors.js'
+import { cidToPBLink } from './utils/cid-to-pblink.js'
+import { SHARD_SPLIT_THRESHOLD_BYTES } from './utils/constants.js'
+import { createShard } from './utils/hamt-utils.js'
+import { isOverShardThreshold } from './utils/is-over-shard-threshold.js'
+import { persist } from './utils/persist.js'
+import type { RmAllMatcher, RmAllOptions } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { PBLink, PBNode } from '@ipld/dag-pb'
+import type { UnixFSEntry } from 'ipfs-unixfs-exporter'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:rm-all')
+
+const defaultOptions: RmAllOptions = {
+  shardSplitThresholdBytes: SHARD_SPLIT_THRESHOLD_BYTES
+}
+
+interface MatchFn {
+  (path: string, entry: UnixFSEntry): boolean | Promise<boolean>
+}
+
+export async function rmAll (root: CID, matcher: RmAllMatcher, blockstore: Blocks, options: Partial<RmAllOptions> = {}): Promise<CID> {
+  const opts: RmAllOptions = mergeOptions(defaultOptions, options)
+  const match = toMatchFn(matcher)
+
+  const updatedCid = await pruneDirectory(root, '', match, blockstore, opts)
+
+  return updatedCid ?? root
+}
+
+function toMatchFn (matcher: RmAllMatcher): MatchFn {
+  if (typeof matcher === 'function') {
+    return matcher
+  }
+
+  // patterns without a slash match the entry name at any depth, like .gitignore
+  return (path) => minimatch(path, matcher, {
+    dot: true,
+    matchBase: true
+  })
+}
+
+/**
+ * Remove every matching entry below the passed directory, returning the new
+ * directory CID or undefined if nothing was removed
+ */
+async function pruneDirectory (cid: CID, path: string, match: MatchFn, blockstore: Blocks, options: RmAllOptions): Promise<CID | undefined> {
+  const entry = await exporter(cid, blockstore, options)
+
+  if (entry.type !== 'directory') {
+    throw new NotADirectoryError(`${cid.toString()} was not a UnixFS directory`)
+  }
+
+  const links: Array<Required<PBLink>> = []
+  let changed = false
+
+  for await (const child of entry.content(options)) {
+    const childPath = path === '' ? child.name : `${path}/${child.name}`
+
+    if (await match(childPath, child)) {
+      log('removing %s', childPath)
+      changed = true
+      continue
+    }
+
+    if (child.type === 'directory') {
+      const updatedCid = await pruneDirectory(child.cid, childPath, match, blockstore, options)
+
+      if (updatedCid != null) {
+        links.push(await cidToPBLink(updatedCid, child.name, blockstore, options))
+        changed = true
+        continue
+      }
+    }
+
+    links.push(entryToPBLink(child))
+  }
+
+  if (!changed) {
+    return
+  }
+
+  return rebuildDirectory(entry.cid, entry.node, links, blockstore, options)
+}
+
+/**
+ * Write a new version of a directory containing only the passed links. Flat
+ * directories keep their existing link order, shards are recreated from
+ * scratch or converted to a flat directory if they are now small enough
+ */
+async function rebuildDirectory (cid: CID, node: PBNode, links: Array<Required<PBLink>>, blockstore: Blocks, options: RmAllOptions): Promise<CID> {
+  if (node.Data == null) {
+    throw new InvalidPBNodeError(`${cid.toString()} had no data`)
+  }
+
+  const unixfs = UnixFS.unmarshal(node.Data)
+
+  if (unixfs.type === 'hamt-sharded-directory') {
+    const flat: PBNode = {
+      Data: new UnixFS({ type: 'directory', mode: unixfs.mode, mtime: unixfs.mtime }).marshal(),
+      Links: links
+    }
+
+    if (await isOverShardThreshold(flat, blockstore, options.shardSplitThresholdBytes, options)) {
+      log('recreating shard %c', cid)
+
+      const result = await createShard(blockstore, links.map(link => ({
+        name: link.Name,
+        size: BigInt(link.Tsize),
+        cid: link.Hash
+      })), {
+        mode: unixfs.mode,
+        mtime: unixfs.mtime,
+        cidVersion: cid.version
+      })
+
+      return result.cid
+    }
+
+    log('converting shard to flat directory %c', cid)
+
+    return persist(dagPB.encode(dagPB.prepare(flat)), blockstore, {
+      cidVersion: cid.version,
+      signal: options.signal
+    })
+  }
+
+  // keep unchanged links as they were and replace updated links in place
+  const remaining = new Map(links.map(link => [link.Name, link]))
+  const updatedNode: PBNode = {
+    Data: node.Data,
+    Links: node.Links.flatMap(link => {
+      const update = remaining.get(link.Name ?? '')
+
+      if (update == null) {
+        return []
+      }
+
+      return update.Hash.equals(link.Hash) ? [link] : [update]
+    })
+  }
+
+  return persist(dagPB.encode(updatedNode), blockstore, {
+    cidVersion: cid.version,
+    signal: options.signal
+  })
+}
+
+function entryToPBLink (entry: UnixFSEntry): Required<PBLink> {
+  let tsize: number
+
+  if (entry.node instanceof Uint8Array) {
+    tsize = entry.node.byteLength
+  } else {
+    tsize = dagPB.encode(entry.node).byteLength + entry.node.Links.reduce((acc, curr) => acc + (curr.Tsize ?? 0), 0)
+  }
+
+  return {
+    Name: entry.name,
+    Tsize: tsize,
+    Hash: entry.cid
+  }
+}
@@ -1,9 +1,10 @@
 import { logger } from '@libp2p/logger'
 import mergeOpts from 'merge-options'
-import { InvalidParametersError } from '../errors.js'
+import { splitPath } from './utils/add-to-path.js'
 import { cidToDirectory } from './utils/cid-to-directory.js'
 import { SHARD_SPLIT_THRESHOLD_BYTES } from './utils/constants.js'
 import { removeLink } from './utils/remove-link.js'
+import { resolve, updatePathCids } from './utils/resolve.js'
 import type { RmOptions } from '../index.js'
 import type { Blocks } from '@helia/interface/blocks'
 import type { CID } from 'multiformats/cid'
@@ -15,21 +16,19 @@ const defaultOptions: RmOptions = {
   shardSplitThresholdBytes: SHARD_SPLIT_THRESHOLD_BYTES
 }
 
-export async function rm (target: CID, name: string, blockstore: Blocks, options: Partial<RmOptions> = {}): Promise<CID> {
+export async function rm (target: CID, path: string, blockstore: Blocks, options: Partial<RmOptions> = {}): Promise<CID> {
   const opts: RmOptions = mergeOptions(defaultOptions, options)
 
-  if (name.includes('/')) {
-    throw new InvalidParametersError('Name must not have slashes')
-  }
+  const { parents, name } = splitPath(path)
+  const resolved = await resolve(target, parents.join('/'), blockstore, opts)
+  const directory = await cidToDirectory(resolved.cid, blockstore, opts)
 
-  const directory = await cidToDirectory(target, blockstore, opts)
-
-  log('Removing %s from %c', name, target)
+  log('Removing %s from %c', name, resolved.cid)
 
   const result = await removeLink(directory, name, blockstore, {
     ...opts,
     cidVersion: target.version
   })
 
-  return result.cid
+  return updatePathCids(result.cid, resolved, blockstore, opts)
 }
@@ -5,6 +5,7 @@ import { exporter } from 'ipfs-unixfs-exporter'
 import mergeOpts from 'merge-options'
 import * as raw from 'multiformats/codecs/raw'
 import { InvalidPBNodeError, NotUnixFSError, UnknownError } from '../errors.js'
+import { detectMimeType } from './utils/mime-type.js'
 import { resolve } from './utils/resolve.js'
 import type { StatOptions, UnixFSStats } from '../index.js'
 import type { Blocks } from '@helia/interface/blocks'
@@ -38,8 +39,9 @@ export async function stat (cid: CID, blockstore: Blocks, options: Partial<StatO
   let blocks: number = 0
   let mode: number | undefined
   let mtime: Mtime | undefined
-  const type = result.type
+  let type: UnixFSStats['type'] = result.type
   let unixfs: UnixFS | undefined
+  let mimeType: string | undefined
 
   if (result.type === 'raw') {
     fileSize = BigInt(result.node.byteLength)
@@ -71,6 +73,14 @@ export async function stat (cid: CID, blockstore: Blocks, options: Partial<StatO
     mode = result.unixfs.mode
     mtime = result.unixfs.mtime
     unixfs = result.unixfs
+
+    if (result.unixfs.type === 'symlink') {
+      type = 'symlink'
+    }
+  }
+
+  if (opts.detectMimeType != null && opts.detectMimeType !== false) {
+    mimeType = await detectMimeType(result, resolved.path?.split('/').filter(Boolean).pop(), opts.detectMimeType, opts)
   }
 
   return {
@@ -83,7 +93,8 @@ export async function stat (cid: CID, blockstore: Blocks, options: Partial<StatO
     localDagSize,
     blocks,
     type,
-    unixfs
+    unixfs,
+    mimeType
   }
 }
 
@@ -0,0 +1,31 @@
+import { logger } from '@libp2p/logger'
+import mergeOpts from 'merge-options'
+import { addToPath, splitPath } from './utils/add-to-path.js'
+import { SHARD_SPLIT_THRESHOLD_BYTES } from './utils/constants.js'
+import { createSymlink } from './utils/create-symlink.js'
+import type { SymlinkOptions } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:symlink')
+
+const defaultOptions: SymlinkOptions = {
+  cidVersion: 1,
+  force: false,
+  parents: false,
+  shardSplitThresholdBytes: SHARD_SPLIT_THRESHOLD_BYTES
+}
+
+export async function symlink (parentCid: CID, name: string, target: string, blockstore: Blocks, options: Partial<SymlinkOptions> = {}): Promise<CID> {
+  const opts: SymlinkOptions = mergeOptions(defaultOptions, options)
+
+  // validate the path
+  splitPath(name)
+
+  const { cid } = await createSymlink(target, blockstore, opts)
+
+  log('adding symlink %s to %s in %c', name, target, parentCid)
+
+  return addToPath(parentCid, name, cid, blockstore, opts)
+}
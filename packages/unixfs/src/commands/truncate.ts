@@ -0,0 +1,59 @@
+import { logger } from '@libp2p/logger'
+import { exporter } from 'ipfs-unixfs-exporter'
+import mergeOpts from 'merge-options'
+import { InvalidParametersError, NotAFileError } from '../errors.js'
+import { loadBalancedFile } from './utils/balanced-file.js'
+import { CHUNK_SIZE, MAX_CHILDREN_PER_NODE, SHARD_SPLIT_THRESHOLD_BYTES } from './utils/constants.js'
+import { resolve, updatePathCids } from './utils/resolve.js'
+import type { TruncateOptions } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:truncate')
+
+const defaultOptions: TruncateOptions = {
+  chunkSize: CHUNK_SIZE,
+  maxChildrenPerNode: MAX_CHILDREN_PER_NODE,
+  rawLeaves: true,
+  shardSplitThresholdBytes: SHARD_SPLIT_THRESHOLD_BYTES
+}
+
+export async function truncate (cid: CID, size: number, blockstore: Blocks, options: Partial<TruncateOptions> = {}): Promise<CID> {
+  const opts: TruncateOptions = mergeOptions(defaultOptions, options)
+
+  if (size < 0 || !Number.isSafeInteger(size)) {
+    throw new InvalidParametersError('Size must be a non-negative integer')
+  }
+
+  const resolved = await resolve(cid, opts.path, blockstore, opts)
+  const entry = await exporter(resolved.cid, blockstore, opts)
+
+  if (entry.type !== 'file' && entry.type !== 'raw') {
+    throw new NotAFileError()
+  }
+
+  const fileSize = entry.type === 'raw' ? BigInt(entry.node.byteLength) : entry.unixfs.fileSize()
+  const targetSize = BigInt(size)
+
+  if (targetSize === fileSize) {
+    return cid
+  }
+
+  log('truncate %c from %d to %d bytes', resolved.cid, fileSize, targetSize)
+
+  let updatedCid: CID
+
+  if (targetSize < fileSize) {
+    // drop everything after the new end of the file
+    const builder = await loadBalancedFile(resolved.cid, targetSize, blockstore, opts)
+    updatedCid = await builder.finish()
+  } else {
+    // extend the file with zeros
+    const builder = await loadBalancedFile(resolved.cid, fileSize, blockstore, opts)
+    await builder.appendZeros(targetSize - fileSize)
+    updatedCid = await builder.finish()
+  }
+
+  return updatePathCids(updatedCid, resolved, blockstore, opts)
+}
@@ -0,0 +1,101 @@
+import * as dagPB from '@ipld/dag-pb'
+import { logger } from '@libp2p/logger'
+import { UnixFS } from 'ipfs-unixfs'
+import { DoesNotExistError, InvalidParametersError } from '../../errors.js'
+import { addLink } from './add-link.js'
+import { cidToDirectory } from './cid-to-directory.js'
+import { cidToPBLink } from './cid-to-pblink.js'
+import { persist } from './persist.js'
+import { resolvePartial, updatePathCids } from './resolve.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { AbortOptions } from '@libp2p/interface'
+import type { CID, Version } from 'multiformats/cid'
+
+const log = logger('helia:unixfs:components:utils:add-to-path')
+
+export interface AddToPathOptions extends AbortOptions {
+  /**
+   * If true, create any missing parent directories
+   */
+  parents: boolean
+
+  /**
+   * If true, replace any existing entry at the path
+   */
+  force: boolean
+
+  shardSplitThresholdBytes: number
+  cidVersion: Version
+}
+
+/**
+ * Split a path into the names of its parent directories and the final entry
+ */
+export function splitPath (path: string): { parents: string[], name: string } {
+  const parents = path.split('/').filter(Boolean)
+  const name = parents.pop()
+
+  if (name == null) {
+    throw new InvalidParametersError('Path must not be empty')
+  }
+
+  return { parents, name }
+}
+
+/**
+ * Link `child` into the DAG under `root` at `path`, optionally creating any
+ * missing parent directories, then update every directory above it so there
+ * is a single new root
+ */
+export async function addToPath (root: CID, path: string, child: CID, blockstore: Blocks, options: AddToPathOptions): Promise<CID> {
+  const { parents, name } = splitPath(path)
+  const resolved = await resolvePartial(root, parents.join('/'), blockstore, options)
+
+  if (resolved.missing.length > 0 && !options.parents) {
+    throw new DoesNotExistError(`Parent directory ${resolved.missing[0]} did not exist`)
+  }
+
+  let linkName = name
+  let linkCid = child
+
+  // create any missing directories from the bottom up
+  for (const dirname of [...resolved.missing].reverse()) {
+    log('creating missing directory %s', dirname)
+
+    linkCid = await createDirectory(linkCid, linkName, blockstore, {
+      ...options,
+      cidVersion: root.version
+    })
+    linkName = dirname
+  }
+
+  const [
+    directory,
+    pblink
+  ] = await Promise.all([
+    cidToDirectory(resolved.cid, blockstore, options),
+    cidToPBLink(linkCid, linkName, blockstore, options)
+  ])
+
+  log('adding %c as "%s" to %c', linkCid, linkName, resolved.cid)
+
+  const result = await addLink(directory, pblink, blockstore, {
+    ...options,
+    allowOverwriting: options.force
+  })
+
+  return updatePathCids(result.cid, resolved, blockstore, options)
+}
+
+async function createDirectory (child: CID, name: string, blockstore: Blocks, options: AbortOptions & { cidVersion: Version }): Promise<CID> {
+  const pblink = await cidToPBLink(child, name, blockstore, options)
+  const buf = dagPB.encode(dagPB.prepare({
+    Data: new UnixFS({ type: 'directory' }).marshal(),
+    Links: [pblink]
+  }))
+
+  return persist(buf, blockstore, {
+    cidVersion: options.cidVersion,
+    signal: options.signal
+  })
+}
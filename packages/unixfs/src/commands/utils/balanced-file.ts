@@ -0,0 +1,388 @@
+import * as dagPB from '@ipld/dag-pb'
+import { logger } from '@libp2p/logger'
+import { UnixFS } from 'ipfs-unixfs'
+import * as raw from 'multiformats/codecs/raw'
+import { concat as uint8ArrayConcat } from 'uint8arrays/concat'
+import { InvalidPBNodeError, NotAFileError, UnknownError } from '../../errors.js'
+import { persist } from './persist.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { PBLink } from '@ipld/dag-pb'
+import type { AbortOptions } from '@libp2p/interface'
+import type { Mtime } from 'ipfs-unixfs'
+import type { CID, Version } from 'multiformats/cid'
+
+const log = logger('helia:unixfs:commands:utils:balanced-file')
+
+// ipfs-unixfs reports this mode for files that do not have one set
+const DEFAULT_FILE_MODE = 0o644
+
+export interface BalancedFileOptions extends AbortOptions {
+  /**
+   * The size of the leaves the file was chunked into
+   */
+  chunkSize: number
+
+  /**
+   * The maximum number of links each intermediate node may have
+   */
+  maxChildrenPerNode: number
+
+  /**
+   * If true, new leaves are stored as raw blocks, otherwise they are wrapped
+   * in UnixFS dag-pb nodes
+   */
+  rawLeaves: boolean
+}
+
+interface FileChild {
+  cid: CID
+
+  /**
+   * The cumulative size of the child DAG, used as the link Tsize
+   */
+  size: number
+
+  /**
+   * How many bytes of the file the child DAG holds
+   */
+  fileSize: bigint
+}
+
+/**
+ * Rebuilds the tail end of a file DAG created by the `balanced` layout of
+ * `ipfs-unixfs-importer` so that it is identical to the DAG that would have
+ * been created by importing the changed content from scratch.
+ *
+ * Only the path from the root to the leaf holding `position` is loaded.
+ * Everything before it is reused, everything after it is discarded. Bytes
+ * passed to `append` are written from `position` onwards, new leaves are
+ * created as they fill up and `finish` rebuilds the nodes on the right-most
+ * spine of the DAG.
+ */
+export class BalancedFileBuilder {
+  private readonly blockstore: Blocks
+  private readonly options: BalancedFileOptions
+  private readonly cidVersion: Version
+  private readonly mode?: number
+  private readonly mtime?: Mtime
+  private readonly existing: Set<string>
+  private readonly levels: FileChild[][]
+  private buffer: Uint8Array[]
+  private length: number
+
+  constructor (root: CID, levels: FileChild[][], tail: Uint8Array, existing: Set<string>, metadata: { mode?: number, mtime?: Mtime }, blockstore: Blocks, options: BalancedFileOptions) {
+    this.blockstore = blockstore
+    this.options = options
+    this.cidVersion = root.version
+    this.mode = metadata.mode
+    this.mtime = metadata.mtime
+    this.existing = existing
+    this.levels = levels
+    this.buffer = [tail]
+    this.length = tail.byteLength
+  }
+
+  /**
+   * Add bytes to the end of the file, any complete leaves are written to the
+   * blockstore immediately
+   */
+  async append (bytes: Uint8Array): Promise<void> {
+    this.buffer.push(bytes)
+    this.length += bytes.byteLength
+
+    if (this.length < this.options.chunkSize) {
+      return
+    }
+
+    const buf = uint8ArrayConcat(this.buffer, this.length)
+    let offset = 0
+
+    while (buf.byteLength - offset >= this.options.chunkSize) {
+      await this.addLeaf(buf.slice(offset, offset + this.options.chunkSize))
+      offset += this.options.chunkSize
+    }
+
+    this.buffer = [buf.subarray(offset)]
+    this.length = buf.byteLength - offset
+  }
+
+  /**
+   * Add `length` zero bytes to the end of the file. Every full leaf of zeros
+   * has the same CID so it is only created and written once.
+   */
+  async appendZeros (length: bigint): Promise<void> {
+    const chunkSize = BigInt(this.options.chunkSize)
+    const fill = (chunkSize - BigInt(this.length)) % chunkSize
+    const head = fill < length ? fill : length
+
+    await this.append(new Uint8Array(Number(head)))
+    length -= head
+
+    if (length >= chunkSize) {
+      const leaf = await this.createLeaf(new Uint8Array(this.options.chunkSize))
+
+      for (; length >= chunkSize; length -= chunkSize) {
+        await this.push(0, leaf)
+      }
+    }
+
+    await this.append(new Uint8Array(Number(length)))
+  }
+
+  /**
+   * Write any remaining bytes to a final leaf and rebuild the intermediate
+   * nodes up to the root, returning the CID of the new root
+   */
+  async finish (): Promise<CID> {
+    if (this.length > 0 || this.levels.every(level => level.length === 0)) {
+      await this.addLeaf(uint8ArrayConcat(this.buffer, this.length))
+      this.buffer = []
+      this.length = 0
+    }
+
+    for (let depth = 0; ; depth++) {
+      const children = this.levels[depth] ?? []
+      const hasParents = this.levels.slice(depth + 1).some(level => level.length > 0)
+
+      if (!hasParents && children.length === 1) {
+        if (depth === 0) {
+          return this.reduceSingleLeaf(children[0])
+        }
+
+        return children[0].cid
+      }
+
+      if (children.length > 0) {
+        this.levels[depth] = []
+        await this.push(depth + 1, await this.reduce(children))
+      }
+    }
+  }
+
+  private async addLeaf (bytes: Uint8Array): Promise<void> {
+    await this.push(0, await this.createLeaf(bytes))
+  }
+
+  private async createLeaf (bytes: Uint8Array): Promise<FileChild> {
+    let block = bytes
+
+    if (!this.options.rawLeaves) {
+      block = dagPB.encode({
+        Data: new UnixFS({ type: 'file', data: bytes }).marshal(),
+        Links: []
+      })
+    }
+
+    const cid = await this.persist(block, this.options.rawLeaves ? raw : dagPB, this.options.rawLeaves ? 1 : this.cidVersion)
+
+    return {
+      cid,
+      size: block.byteLength,
+      fileSize: BigInt(bytes.byteLength)
+    }
+  }
+
+  /**
+   * Add an existing child DAG at the passed depth, zero being the leaves
+   */
+  async push (depth: number, child: FileChild): Promise<void> {
+    if (this.levels[depth] == null) {
+      this.levels[depth] = []
+    }
+
+    this.levels[depth].push(child)
+
+    if (this.levels[depth].length === this.options.maxChildrenPerNode) {
+      const children = this.levels[depth]
+      this.levels[depth] = []
+
+      await this.push(depth + 1, await this.reduce(children))
+    }
+  }
+
+  private async reduce (children: FileChild[]): Promise<FileChild> {
+    const unixfs = new UnixFS({
+      type: 'file',
+      mode: this.mode,
+      mtime: this.mtime
+    })
+
+    const links: PBLink[] = children.map(child => {
+      unixfs.addBlockSize(child.fileSize)
+
+      return {
+        Name: '',
+        Tsize: child.size,
+        Hash: child.cid
+      }
+    })
+
+    const block = dagPB.encode(dagPB.prepare({
+      Data: unixfs.marshal(),
+      Links: links
+    }))
+    const cid = await this.persist(block, dagPB, this.cidVersion)
+
+    return {
+      cid,
+      size: links.reduce((acc, curr) => acc + (curr.Tsize ?? 0), block.byteLength),
+      fileSize: unixfs.fileSize()
+    }
+  }
+
+  /**
+   * A file with only one leaf is stored as that leaf, unless there is
+   * metadata, in which case the leaf needs to become a UnixFS node
+   */
+  private async reduceSingleLeaf (leaf: FileChild): Promise<CID> {
+    if (this.mode == null && this.mtime == null) {
+      return leaf.cid
+    }
+
+    let data = await this.blockstore.get(leaf.cid, this.options)
+
+    if (leaf.cid.code === dagPB.code) {
+      data = UnixFS.unmarshal(dagPB.decode(data).Data ?? new Uint8Array(0)).data ?? new Uint8Array(0)
+    }
+
+    const block = dagPB.encode(dagPB.prepare({
+      Data: new UnixFS({
+        type: 'file',
+        mode: this.mode,
+        mtime: this.mtime,
+        data
+      }).marshal(),
+      Links: []
+    }))
+
+    return this.persist(block, dagPB, this.cidVersion)
+  }
+
+  private async persist (block: Uint8Array, codec: typeof raw | typeof dagPB, cidVersion: Version): Promise<CID> {
+    return persist(block, {
+      put: async (cid, block, options) => {
+        // unchanged nodes on the spine and duplicate blocks are already in
+        // the blockstore
+        if (this.existing.has(cid.toString())) {
+          return cid
+        }
+
+        this.existing.add(cid.toString())
+
+        return this.blockstore.put(cid, block, options)
+      }
+    }, {
+      codec,
+      cidVersion,
+      signal: this.options.signal
+    })
+  }
+}
+
+/**
+ * Load the path from the root of a balanced file DAG to the leaf that holds
+ * the byte at `position` and return a builder that will rewrite the file from
+ * that position onwards
+ */
+export async function loadBalancedFile (cid: CID, position: bigint, blockstore: Blocks, options: BalancedFileOptions): Promise<BalancedFileBuilder> {
+  const spine: FileChild[][] = []
+  const existing = new Set<string>()
+  const metadata: { mode?: number, mtime?: Mtime } = {}
+  let current = cid
+  let isRoot = true
+  let leaf: Uint8Array
+
+  log('loading path to byte %d of %c', position, cid)
+
+  while (true) {
+    const block = await blockstore.get(current, options)
+    existing.add(current.toString())
+
+    if (current.code === raw.code) {
+      leaf = block
+      break
+    }
+
+    if (current.code !== dagPB.code) {
+      throw new UnknownError(`${current.toString()} was neither DAG_PB nor RAW`)
+    }
+
+    const node = dagPB.decode(block)
+
+    if (node.Data == null) {
+      throw new InvalidPBNodeError(`${current.toString()} had no data`)
+    }
+
+    const unixfs = UnixFS.unmarshal(node.Data)
+
+    if (unixfs.type !== 'file' && unixfs.type !== 'raw') {
+      throw new NotAFileError()
+    }
+
+    if (isRoot) {
+      metadata.mode = unixfs.mode === DEFAULT_FILE_MODE ? undefined : unixfs.mode
+      metadata.mtime = unixfs.mtime
+      isRoot = false
+    }
+
+    if (node.Links.length === 0) {
+      leaf = unixfs.data ?? new Uint8Array(0)
+      break
+    }
+
+    if (unixfs.data != null && unixfs.data.byteLength > 0) {
+      throw new InvalidPBNodeError(`${current.toString()} was not created by the balanced layout`)
+    }
+
+    const siblings: FileChild[] = []
+    let start = 0n
+
+    for (let i = 0; i < node.Links.length; i++) {
+      const link = node.Links[i]
+      const fileSize = unixfs.blockSizes[i]
+
+      if (fileSize == null) {
+        throw new InvalidPBNodeError(`${current.toString()} had fewer blockSizes than links`)
+      }
+
+      if (start + fileSize > position || i === node.Links.length - 1) {
+        current = link.Hash
+        position -= start
+        break
+      }
+
+      siblings.push({
+        cid: link.Hash,
+        size: link.Tsize ?? 0,
+        fileSize
+      })
+      start += fileSize
+    }
+
+    spine.push(siblings)
+  }
+
+  const levels = spine.reverse()
+  const singleLeaf = levels.length === 0
+  const tail = leaf.subarray(0, Number(position))
+
+  if (singleLeaf) {
+    levels.push([])
+  }
+
+  if (!singleLeaf && tail.byteLength === options.chunkSize) {
+    // the leaf is full so can be reused as-is
+    const block = await blockstore.get(current, options)
+    const builder = new BalancedFileBuilder(cid, levels, new Uint8Array(0), existing, metadata, blockstore, options)
+
+    await builder.push(0, {
+      cid: current,
+      size: block.byteLength,
+      fileSize: BigInt(tail.byteLength)
+    })
+
+    return builder
+  }
+
+  return new BalancedFileBuilder(cid, levels, tail, existing, metadata, blockstore, options)
+}
@@ -1 +1,5 @@
 export const SHARD_SPLIT_THRESHOLD_BYTES = 262144
+
+export const CHUNK_SIZE = 1048576
+
+export const MAX_CHILDREN_PER_NODE = 1024
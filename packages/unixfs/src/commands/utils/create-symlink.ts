@@ -0,0 +1,46 @@
+import * as dagPB from '@ipld/dag-pb'
+import { UnixFS } from 'ipfs-unixfs'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { InvalidParametersError } from '../../errors.js'
+import { persist } from './persist.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { Mtime } from 'ipfs-unixfs'
+import type { SingleBlockImportResult } from 'ipfs-unixfs-importer'
+import type { Version } from 'multiformats/cid'
+
+export interface CreateSymlinkOptions {
+  mode?: number
+  mtime?: Mtime
+  cidVersion: Version
+  signal?: AbortSignal
+}
+
+/**
+ * Store a UnixFS symlink node that points to `target`
+ */
+export async function createSymlink (target: string, blockstore: Pick<Blocks, 'put'>, options: CreateSymlinkOptions): Promise<Omit<SingleBlockImportResult, 'single'>> {
+  if (target === '') {
+    throw new InvalidParametersError('Symlink target must not be empty')
+  }
+
+  const unixfs = new UnixFS({
+    type: 'symlink',
+    data: uint8ArrayFromString(target),
+    mode: options.mode,
+    mtime: options.mtime
+  })
+  const block = dagPB.encode(dagPB.prepare({
+    Data: unixfs.marshal()
+  }))
+  const cid = await persist(block, blockstore, {
+    cidVersion: options.cidVersion,
+    signal: options.signal
+  })
+
+  return {
+    cid,
+    unixfs,
+    size: BigInt(block.byteLength),
+    block
+  }
+}
@@ -0,0 +1,50 @@
+import { UnixFS } from 'ipfs-unixfs'
+import { InvalidPBNodeError } from '../../errors.js'
+import { addLink } from './add-link.js'
+import { cidToPBLink } from './cid-to-pblink.js'
+import { removeLink } from './remove-link.js'
+import type { Directory } from './cid-to-directory.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { AbortOptions } from '@libp2p/interface'
+import type { CID, Version } from 'multiformats/cid'
+
+export type DirectoryEdit = { type: 'remove', name: string } | { type: 'add', name: string, cid: CID, allowOverwriting: boolean }
+
+export interface EditDirectoryOptions extends AbortOptions {
+  shardSplitThresholdBytes: number
+  cidVersion: Version
+}
+
+/**
+ * Apply several link additions and removals to a directory
+ */
+export async function editDirectory (directory: Directory, edits: DirectoryEdit[], blockstore: Blocks, options: EditDirectoryOptions): Promise<Directory> {
+  // a removal can only turn a shard into a flat directory and an addition can
+  // only turn a flat directory into a shard so order the edits to ensure the
+  // directory is converted at most once
+  const first = isSharded(directory) ? 'add' : 'remove'
+  const ordered = [...edits].sort((a, b) => Number(b.type === first) - Number(a.type === first))
+
+  for (const edit of ordered) {
+    if (edit.type === 'remove') {
+      directory = await removeLink(directory, edit.name, blockstore, options)
+    } else {
+      const pblink = await cidToPBLink(edit.cid, edit.name, blockstore, options)
+
+      directory = await addLink(directory, pblink, blockstore, {
+        ...options,
+        allowOverwriting: edit.allowOverwriting
+      })
+    }
+  }
+
+  return directory
+}
+
+function isSharded (directory: Directory): boolean {
+  if (directory.node.Data == null) {
+    throw new InvalidPBNodeError(`${directory.cid.toString()} had no data`)
+  }
+
+  return UnixFS.unmarshal(directory.node.Data).type === 'hamt-sharded-directory'
+}
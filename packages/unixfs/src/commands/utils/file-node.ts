@@ -0,0 +1,93 @@
+import * as dagPB from '@ipld/dag-pb'
+import { UnixFS } from 'ipfs-unixfs'
+import * as raw from 'multiformats/codecs/raw'
+import { identity } from 'multiformats/hashes/identity'
+import { InvalidPBNodeError, NotAFileError, NotUnixFSError } from '../../errors.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { AbortOptions } from '@libp2p/interface'
+import type { CID } from 'multiformats/cid'
+
+/**
+ * A decoded node of a file DAG
+ */
+export interface FileNode {
+  /**
+   * The bytes of the file held in the node itself, these come before the
+   * bytes held by the children
+   */
+  data: Uint8Array
+
+  children: FileChild[]
+
+  /**
+   * How many bytes of the file the node and its children hold
+   */
+  size: number
+}
+
+export interface FileChild {
+  cid: CID
+
+  /**
+   * How many bytes of the file the child DAG holds, from the `blockSizes` of
+   * the parent
+   */
+  size: number
+}
+
+/**
+ * Load a block, identity CIDs hold their block in the CID itself
+ */
+export async function getBlock (cid: CID, blockstore: Blocks, options: AbortOptions): Promise<Uint8Array> {
+  if (cid.multihash.code === identity.code) {
+    return cid.multihash.digest
+  }
+
+  return blockstore.get(cid, options)
+}
+
+/**
+ * Decode a node of a file DAG, throwing if it is not part of a file
+ */
+export function decodeFileNode (cid: CID, block: Uint8Array): FileNode {
+  if (cid.code === raw.code) {
+    return {
+      data: block,
+      children: [],
+      size: block.byteLength
+    }
+  }
+
+  if (cid.code !== dagPB.code) {
+    throw new NotUnixFSError(`${cid.toString()} was neither DAG_PB nor RAW`)
+  }
+
+  const node = dagPB.decode(block)
+
+  if (node.Data == null) {
+    throw new InvalidPBNodeError(`${cid.toString()} had no data`)
+  }
+
+  const unixfs = UnixFS.unmarshal(node.Data)
+
+  if (unixfs.type === 'symlink') {
+    throw new NotAFileError('Cannot read the contents of a symlink')
+  }
+
+  if (unixfs.type !== 'file' && unixfs.type !== 'raw') {
+    throw new NotAFileError()
+  }
+
+  if (unixfs.blockSizes.length !== node.Links.length) {
+    throw new InvalidPBNodeError(`${cid.toString()} had ${unixfs.blockSizes.length} blockSizes but ${node.Links.length} links`)
+  }
+
+  return {
+    data: unixfs.data ?? new Uint8Array(0),
+    children: node.Links.map((link, i) => ({
+      cid: link.Hash,
+      size: Number(unixfs.blockSizes[i])
+    })),
+    size: Number(unixfs.fileSize())
+  }
+}
@@ -0,0 +1,133 @@
+import toBuffer from 'it-to-buffer'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
+import type { MimeTypeDetector } from '../../index.js'
+import type { ExporterOptions, UnixFSEntry } from 'ipfs-unixfs-exporter'
+
+/**
+ * How many bytes from the start of a file are passed to detectors
+ */
+const SNIFF_LENGTH = 512
+
+const EXTENSIONS: Record<string, string> = {
+  avif: 'image/avif',
+  css: 'text/css; charset=utf-8',
+  gif: 'image/gif',
+  gz: 'application/gzip',
+  htm: 'text/html; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  ico: 'image/x-icon',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  js: 'text/javascript; charset=utf-8',
+  json: 'application/json',
+  md: 'text/markdown; charset=utf-8',
+  mjs: 'text/javascript; charset=utf-8',
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4',
+  ogg: 'audio/ogg',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  tar: 'application/x-tar',
+  txt: 'text/plain; charset=utf-8',
+  wasm: 'application/wasm',
+  webm: 'video/webm',
+  webp: 'image/webp',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  xml: 'application/xml',
+  zip: 'application/zip'
+}
+
+interface MagicBytes {
+  /**
+   * Where the signature starts in the file
+   */
+  offset: number
+  bytes: number[]
+  mimeType: string
+}
+
+const MAGIC_BYTES: MagicBytes[] = [
+  { offset: 0, bytes: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A], mimeType: 'image/png' },
+  { offset: 0, bytes: [0xFF, 0xD8, 0xFF], mimeType: 'image/jpeg' },
+  { offset: 0, bytes: [0x47, 0x49, 0x46, 0x38], mimeType: 'image/gif' },
+  { offset: 8, bytes: [0x57, 0x45, 0x42, 0x50], mimeType: 'image/webp' },
+  { offset: 4, bytes: [0x66, 0x74, 0x79, 0x70, 0x61, 0x76, 0x69, 0x66], mimeType: 'image/avif' },
+  { offset: 4, bytes: [0x66, 0x74, 0x79, 0x70], mimeType: 'video/mp4' },
+  { offset: 0, bytes: [0x00, 0x00, 0x01, 0x00], mimeType: 'image/x-icon' },
+  { offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2D], mimeType: 'application/pdf' },
+  { offset: 0, bytes: [0x50, 0x4B, 0x03, 0x04], mimeType: 'application/zip' },
+  { offset: 0, bytes: [0x1F, 0x8B, 0x08], mimeType: 'application/gzip' },
+  { offset: 257, bytes: [0x75, 0x73, 0x74, 0x61, 0x72], mimeType: 'application/x-tar' },
+  { offset: 0, bytes: [0x00, 0x61, 0x73, 0x6D], mimeType: 'application/wasm' },
+  { offset: 0, bytes: [0x1A, 0x45, 0xDF, 0xA3], mimeType: 'video/webm' },
+  { offset: 0, bytes: [0x49, 0x44, 0x33], mimeType: 'audio/mpeg' },
+  { offset: 0, bytes: [0x4F, 0x67, 0x67, 0x53], mimeType: 'audio/ogg' },
+  { offset: 0, bytes: [0x77, 0x4F, 0x46, 0x46], mimeType: 'font/woff' },
+  { offset: 0, bytes: [0x77, 0x4F, 0x46, 0x32], mimeType: 'font/woff2' }
+]
+
+/**
+ * Detect the MIME type of a file from the extension of its name, falling back
+ * to the signature at the start of its first leaf. A custom detector is tried
+ * before either. Directories and symlinks have no MIME type.
+ */
+export async function detectMimeType (entry: UnixFSEntry, name: string | undefined, detector: boolean | MimeTypeDetector | undefined, options: ExporterOptions): Promise<string | undefined> {
+  if (entry.type !== 'raw' && (entry.type !== 'file' || entry.unixfs.type === 'symlink')) {
+    return
+  }
+
+  let header: Uint8Array | undefined
+
+  // only the first leaf is needed for the first bytes of the file
+  const readHeader = async (): Promise<Uint8Array> => {
+    header ??= await toBuffer(entry.content({
+      ...options,
+      offset: 0,
+      length: SNIFF_LENGTH
+    }))
+
+    return header
+  }
+
+  if (typeof detector === 'function') {
+    const mimeType = await detector(name, await readHeader())
+
+    if (mimeType != null) {
+      return mimeType
+    }
+  }
+
+  return mimeTypeFromExtension(name) ?? mimeTypeFromBytes(await readHeader())
+}
+
+function mimeTypeFromExtension (name?: string): string | undefined {
+  if (name?.includes('.') !== true) {
+    return
+  }
+
+  return EXTENSIONS[name.split('.').pop()?.toLowerCase() ?? '']
+}
+
+function mimeTypeFromBytes (bytes: Uint8Array): string | undefined {
+  for (const magic of MAGIC_BYTES) {
+    if (magic.bytes.every((byte, i) => bytes[magic.offset + i] === byte)) {
+      return magic.mimeType
+    }
+  }
+
+  const start = uint8ArrayToString(bytes.subarray(0, 64)).trimStart().toLowerCase()
+
+  if (start.startsWith('<!doctype html') || start.startsWith('<html')) {
+    return 'text/html; charset=utf-8'
+  }
+
+  if (start.startsWith('<svg')) {
+    return 'image/svg+xml'
+  }
+
+  if (start.startsWith('<?xml')) {
+    return 'application/xml'
+  }
+}
@@ -0,0 +1,104 @@
+import * as dagPB from '@ipld/dag-pb'
+import type { Blocks, Pair } from '@helia/interface/blocks'
+import type { AbortOptions } from '@libp2p/interface'
+import type { CID } from 'multiformats/cid'
+
+/**
+ * A blockstore that holds new blocks in memory and reads everything else from
+ * another blockstore. Commands run against it write their intermediate blocks
+ * to memory, then only the blocks that are still needed are copied to the
+ * other blockstore with `persist`.
+ */
+export class OverlayBlockstore implements Blocks {
+  private readonly blockstore: Blocks
+  private readonly blocks: Map<string, Pair>
+
+  constructor (blockstore: Blocks) {
+    this.blockstore = blockstore
+    this.blocks = new Map()
+  }
+
+  async has (cid: CID, options: AbortOptions = {}): Promise<boolean> {
+    return this.blocks.has(cid.toString()) || this.blockstore.has(cid, options)
+  }
+
+  async get (cid: CID, options: AbortOptions = {}): Promise<Uint8Array> {
+    return this.blocks.get(cid.toString())?.block ?? this.blockstore.get(cid, options)
+  }
+
+  async * getMany (source: AsyncIterable<CID> | Iterable<CID>, options: AbortOptions = {}): AsyncGenerator<Pair> {
+    for await (const cid of source) {
+      yield {
+        cid,
+        block: await this.get(cid, options)
+      }
+    }
+  }
+
+  async * getAll (options: AbortOptions = {}): AsyncGenerator<Pair, void, undefined> {
+    yield * this.blocks.values()
+    yield * this.blockstore.getAll(options)
+  }
+
+  async put (cid: CID, block: Uint8Array): Promise<CID> {
+    this.blocks.set(cid.toString(), { cid, block })
+
+    return cid
+  }
+
+  async * putMany (source: AsyncIterable<Pair> | Iterable<Pair>): AsyncGenerator<CID> {
+    for await (const { cid, block } of source) {
+      yield this.put(cid, block)
+    }
+  }
+
+  async delete (cid: CID, options: AbortOptions = {}): Promise<void> {
+    if (!this.blocks.delete(cid.toString())) {
+      await this.blockstore.delete(cid, options)
+    }
+  }
+
+  async * deleteMany (source: AsyncIterable<CID> | Iterable<CID>, options: AbortOptions = {}): AsyncGenerator<CID> {
+    for await (const cid of source) {
+      await this.delete(cid, options)
+      yield cid
+    }
+  }
+
+  /**
+   * Copy the blocks of the DAG under `cid` that are only held in memory to the
+   * other blockstore. Blocks below one that is already there are not visited.
+   */
+  async persist (cid: CID, options: AbortOptions = {}): Promise<void> {
+    const pair = this.blocks.get(cid.toString())
+
+    if (pair == null) {
+      return
+    }
+
+    if (cid.code === dagPB.code) {
+      for (const link of dagPB.decode(pair.block).Links) {
+        await this.persist(link.Hash, options)
+      }
+    }
+
+    await this.blockstore.put(cid, pair.block, options)
+  }
+
+  /**
+   * Copy every block held in memory to the other blockstore in the order they
+   * were added
+   */
+  async persistAll (options: AbortOptions = {}): Promise<void> {
+    for (const { cid, block } of this.blocks.values()) {
+      await this.blockstore.put(cid, block, options)
+    }
+  }
+
+  /**
+   * Forget every block held in memory
+   */
+  clear (): void {
+    this.blocks.clear()
+  }
+}
@@ -0,0 +1,194 @@
+import { logger } from '@libp2p/logger'
+import { anySignal } from 'any-signal'
+import { CustomProgressEvent } from 'progress-events'
+import { InvalidParametersError } from '../../errors.js'
+import { decodeFileNode, getBlock, type FileNode } from './file-node.js'
+import type { CatOptions, CatProgress } from '../../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { CID } from 'multiformats/cid'
+
+const log = logger('helia:unixfs:components:utils:read-ahead')
+
+/**
+ * The part of a child DAG that overlaps the range being read
+ */
+interface Slice {
+  cid: CID
+
+  /**
+   * The first byte of the child to deliver
+   */
+  start: number
+
+  /**
+   * The byte after the last byte of the child to deliver
+   */
+  end: number
+
+  /**
+   * How many bytes the child holds, counted against the read-ahead window
+   * while it is loaded but not yet delivered
+   */
+  size: number
+
+  node?: Promise<FileNode>
+
+  /**
+   * True once the node has been loaded
+   */
+  loaded?: boolean
+}
+
+/**
+ * Yield the bytes of a file in order while loading the blocks that follow the
+ * current position in parallel.
+ *
+ * Blocks are loaded in file order while fewer than `concurrency` are loading
+ * and the blocks that are not yet delivered hold no more than `readAhead`
+ * bytes, though the next block is always loaded even if it is larger than the
+ * window. Internal nodes are only loaded once every block before them has
+ * been delivered because the bytes they hold would otherwise fill the window,
+ * then their children are read the same way.
+ */
+export async function * readAhead (cid: CID, blockstore: Blocks, options: CatOptions): AsyncGenerator<Uint8Array, void, undefined> {
+  const readAhead = options.readAhead ?? 0
+  const concurrency = options.concurrency ?? 8
+  const offset = options.offset ?? 0
+
+  if (offset < 0 || (options.length != null && options.length < 0)) {
+    throw new InvalidParametersError('Offset and length must be positive')
+  }
+
+  const controller = new AbortController()
+  const signal = anySignal([controller.signal, options.signal])
+  const opts = { ...options, signal }
+  const progress: CatProgress = {
+    cid,
+    bytesDelivered: 0,
+    blocksPrefetched: 0
+  }
+
+  const load = async (cid: CID): Promise<FileNode> => {
+    const node = decodeFileNode(cid, await getBlock(cid, blockstore, opts))
+
+    progress.blocksPrefetched++
+    options.onProgress?.(new CustomProgressEvent<CatProgress>('unixfs:cat:progress', { ...progress }))
+
+    return node
+  }
+
+  try {
+    const root = await load(cid)
+
+    if (offset > root.size) {
+      throw new InvalidParametersError('Offset must not be greater than the file size')
+    }
+
+    const end = options.length == null ? root.size : Math.min(offset + options.length, root.size)
+    const queue: Slice[] = [{
+      cid,
+      start: offset,
+      end,
+      size: 0,
+      node: Promise.resolve(root)
+    }]
+
+    log('read %c from %d to %d with a %d byte window', cid, offset, end, readAhead)
+
+    while (queue.length > 0) {
+      schedule(queue, load, readAhead, concurrency)
+
+      const slice = queue[0]
+      const node = await (slice.node ?? load(slice.cid))
+      queue.shift()
+
+      // replace an internal node with its children so they are read next
+      const children: Slice[] = []
+
+      for (const chunk of expand(node, slice.start, slice.end, children)) {
+        progress.bytesDelivered += chunk.byteLength
+        options.onProgress?.(new CustomProgressEvent<CatProgress>('unixfs:cat:progress', { ...progress }))
+        yield chunk
+      }
+
+      queue.unshift(...children)
+    }
+  } finally {
+    // stop any blocks still being loaded if the consumer stopped early
+    controller.abort()
+    signal.clear()
+  }
+}
+
+/**
+ * Start loading the slices at the front of the queue that fit in the window.
+ * The front slice is always loaded so the read can progress.
+ */
+function schedule (queue: Slice[], load: (cid: CID) => Promise<FileNode>, readAhead: number, concurrency: number): void {
+  let loading = 0
+  let bytes = 0
+
+  for (const slice of queue) {
+    if (slice.node != null) {
+      bytes += slice.size
+      loading += slice.loaded === true ? 0 : 1
+    }
+  }
+
+  for (let i = 0; i < queue.length; i++) {
+    const slice = queue[i]
+
+    if (slice.node != null) {
+      continue
+    }
+
+    if (i > 0 && (loading >= concurrency || bytes + slice.size > readAhead)) {
+      return
+    }
+
+    slice.node = load(slice.cid).then(node => {
+      slice.loaded = true
+      return node
+    })
+    // failures are thrown when the slice reaches the front of the queue
+    slice.node.catch(() => {})
+
+    loading++
+    bytes += slice.size
+  }
+}
+
+/**
+ * Return the bytes between `start` and `end` that a node holds itself and add
+ * the children that overlap the range to `children`
+ */
+function expand (node: FileNode, start: number, end: number, children: Slice[]): Uint8Array[] {
+  const chunks: Uint8Array[] = []
+
+  if (start < node.data.byteLength) {
+    chunks.push(node.data.subarray(start, Math.min(end, node.data.byteLength)))
+  }
+
+  let offset = node.data.byteLength
+
+  for (const child of node.children) {
+    if (offset >= end) {
+      break
+    }
+
+    const childEnd = offset + child.size
+
+    if (childEnd > start) {
+      children.push({
+        cid: child.cid,
+        start: Math.max(start - offset, 0),
+        end: Math.min(end, childEnd) - offset,
+        size: child.size
+      })
+    }
+
+    offset = childEnd
+  }
+
+  return chunks
+}
@@ -0,0 +1,143 @@
+import { InvalidRedirectsError } from '../../errors.js'
+
+/**
+ * The largest `_redirects` file that will be parsed
+ */
+export const MAX_REDIRECTS_FILE_SIZE = 64 * 1024
+
+export type RedirectStatus = 200 | 301 | 302 | 303 | 307 | 308 | 404 | 410 | 451
+
+const STATUSES = new Set<number>([200, 301, 302, 303, 307, 308, 404, 410, 451])
+
+export interface RedirectRule {
+  /**
+   * The path to match, may contain `:placeholder` segments and end with a `*`
+   * splat that matches the rest of the path
+   */
+  from: string
+
+  /**
+   * The path or URL to redirect to, may contain `:placeholder` and `:splat`
+   * values from the matched path
+   */
+  to: string
+
+  /**
+   * 200 rewrites the request to `to`, 404, 410 and 451 serve `to` with that
+   * status and anything else is a redirect (default: 301)
+   */
+  status: RedirectStatus
+}
+
+export interface Redirect {
+  /**
+   * The path or URL to redirect to or serve, with placeholders replaced
+   */
+  location: string
+  status: RedirectStatus
+}
+
+/**
+ * Parse the contents of a `_redirects` file, see
+ * https://specs.ipfs.tech/http-gateways/web-redirects-file/
+ */
+export function parseRedirects (contents: string): RedirectRule[] {
+  if (contents.length > MAX_REDIRECTS_FILE_SIZE) {
+    throw new InvalidRedirectsError(`_redirects file was larger than ${MAX_REDIRECTS_FILE_SIZE} bytes`)
+  }
+
+  const rules: RedirectRule[] = []
+  const lines = contents.split(/\r?\n/)
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+
+    if (line === '' || line.startsWith('#')) {
+      continue
+    }
+
+    const [from, to, status, ...rest] = line.split(/\s+/)
+
+    if (to == null || rest.length > 0) {
+      throw new InvalidRedirectsError(`Line ${i + 1} must have a from path, a to path and an optional status`)
+    }
+
+    if (!from.startsWith('/')) {
+      throw new InvalidRedirectsError(`Line ${i + 1} from path must start with /`)
+    }
+
+    if (!to.startsWith('/') && !/^https?:\/\//.test(to)) {
+      throw new InvalidRedirectsError(`Line ${i + 1} to path must start with / or be an absolute URL`)
+    }
+
+    const code = status == null ? 301 : Number(status)
+
+    if (!STATUSES.has(code)) {
+      throw new InvalidRedirectsError(`Line ${i + 1} has unsupported status ${status}`)
+    }
+
+    rules.push({
+      from,
+      to,
+      status: code as RedirectStatus
+    })
+  }
+
+  return rules
+}
+
+/**
+ * Return the first rule that matches the path with its placeholders replaced
+ */
+export function matchRedirects (rules: RedirectRule[], path: string): Redirect | undefined {
+  const segments = toSegments(path)
+
+  for (const rule of rules) {
+    const values = match(toSegments(rule.from), segments)
+
+    if (values == null) {
+      continue
+    }
+
+    return {
+      location: rule.to.replace(/:([a-zA-Z_][a-zA-Z0-9_]*)/g, (placeholder, name: string) => values[name] ?? placeholder),
+      status: rule.status
+    }
+  }
+}
+
+/**
+ * Match path segments against the segments of a rule, returning the values of
+ * any placeholders
+ */
+function match (pattern: string[], segments: string[]): Record<string, string> | undefined {
+  const values: Record<string, string> = {}
+
+  for (let i = 0; i < pattern.length; i++) {
+    const part = pattern[i]
+
+    if (part === '*' && i === pattern.length - 1) {
+      values.splat = segments.slice(i).join('/')
+      return values
+    }
+
+    if (i >= segments.length) {
+      return
+    }
+
+    if (part.startsWith(':')) {
+      values[part.substring(1)] = segments[i]
+    } else if (part !== segments[i]) {
+      return
+    }
+  }
+
+  return pattern.length === segments.length ? values : undefined
+}
+
+/**
+ * Trailing slashes do not change which rule matches
+ */
+function toSegments (path: string): string[] {
+  return path.split('/').filter(Boolean)
+}
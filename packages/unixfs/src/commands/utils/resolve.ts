@@ -1,6 +1,7 @@
 import { logger } from '@libp2p/logger'
-import { exporter } from 'ipfs-unixfs-exporter'
-import { DoesNotExistError, InvalidParametersError } from '../../errors.js'
+import { exporter, type UnixFSEntry } from 'ipfs-unixfs-exporter'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
+import { DoesNotExistError, InvalidParametersError, NotADirectoryError, SymlinkLoopError } from '../../errors.js'
 import { addLink } from './add-link.js'
 import { cidToDirectory } from './cid-to-directory.js'
 import { cidToPBLink } from './cid-to-pblink.js'
@@ -32,19 +33,35 @@ export interface ResolveResult {
   segments?: Segment[]
 }
 
-export async function resolve (cid: CID, path: string | undefined, blockstore: Blocks, options: AbortOptions): Promise<ResolveResult> {
+export interface ResolveOptions extends AbortOptions {
+  /**
+   * If true, follow any symlinks encountered while resolving the path,
+   * including one at the end of the path (default: false)
+   */
+  followSymlinks?: boolean
+}
+
+/**
+ * The maximum number of symlinks that will be followed while resolving a
+ * single path before it is assumed to contain a loop
+ */
+const MAX_SYMLINK_HOPS = 40
+
+export async function resolve (cid: CID, path: string | undefined, blockstore: Blocks, options: ResolveOptions): Promise<ResolveResult> {
   if (path == null || path === '') {
     return { cid }
   }
 
   log('resolve "%s" under %c', path, cid)
 
-  const parts = path.split('/').filter(Boolean)
-  const segments: Segment[] = [{
+  const root = cid
+  let parts = path.split('/').filter(Boolean)
+  let segments: Segment[] = [{
     name: '',
     cid,
     size: 0n
   }]
+  let hops = 0
 
   for (let i = 0; i < parts.length; i++) {
     const part = parts[i]
@@ -59,20 +76,45 @@ export async function resolve (cid: CID, path: string | undefined, blockstore: B
 
       cid = result.cid
     } else if (result.type === 'directory') {
-      let dirCid: CID | undefined
+      let entry: UnixFSEntry | undefined
 
-      for await (const entry of result.content()) {
-        if (entry.name === part) {
-          dirCid = entry.cid
+      for await (const child of result.content()) {
+        if (child.name === part) {
+          entry = child
           break
         }
       }
 
-      if (dirCid == null) {
+      if (entry == null) {
         throw new DoesNotExistError('Could not find path in directory')
       }
 
-      cid = dirCid
+      if (options.followSymlinks === true && entry.type === 'file' && entry.unixfs.type === 'symlink') {
+        hops++
+
+        if (hops > MAX_SYMLINK_HOPS) {
+          throw new SymlinkLoopError(`Too many symlinks encountered while resolving ${path}`)
+        }
+
+        const target = uint8ArrayToString(entry.unixfs.data ?? new Uint8Array())
+
+        log('following symlink %s to %s', parts.slice(0, i + 1).join('/'), target)
+
+        // absolute targets are resolved from the root, relative ones from the
+        // directory containing the symlink, then start again from the root
+        parts = normalizePath([
+          ...(target.startsWith('/') ? [] : parts.slice(0, i)),
+          ...target.split('/'),
+          ...parts.slice(i + 1)
+        ])
+        cid = root
+        segments = segments.slice(0, 1)
+        i = -1
+
+        continue
+      }
+
+      cid = entry.cid
 
       segments.push({
         name: part,
@@ -88,11 +130,102 @@ export async function resolve (cid: CID, path: string | undefined, blockstore: B
 
   return {
     cid,
-    path,
+    path: hops > 0 ? parts.join('/') : path,
     segments
   }
 }
 
+/**
+ * Remove empty, `.` and `..` path components, refusing to go above the root
+ */
+function normalizePath (parts: string[]): string[] {
+  const output: string[] = []
+
+  for (const part of parts) {
+    if (part === '' || part === '.') {
+      continue
+    }
+
+    if (part === '..') {
+      if (output.pop() == null) {
+        throw new InvalidParametersError('Symlink target was outside of the root')
+      }
+
+      continue
+    }
+
+    output.push(part)
+  }
+
+  return output
+}
+
+export interface PartialResolveResult extends ResolveResult {
+  /**
+   * The path segments below the resolved CID that do not exist yet
+   */
+  missing: string[]
+}
+
+/**
+ * Resolve as much of a path of directories as exists, returning the deepest
+ * directory that was found and the names of any directories missing below it
+ */
+export async function resolvePartial (cid: CID, path: string, blockstore: Blocks, options: AbortOptions): Promise<PartialResolveResult> {
+  log('partially resolve "%s" under %c', path, cid)
+
+  const parts = path.split('/').filter(Boolean)
+  const segments: Segment[] = [{
+    name: '',
+    cid,
+    size: 0n
+  }]
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i]
+    const result = await exporter(cid, blockstore, options)
+
+    if (result.type !== 'directory') {
+      throw new NotADirectoryError(`${cid.toString()} was not a UnixFS directory`)
+    }
+
+    let dirCid: CID | undefined
+
+    for await (const entry of result.content()) {
+      if (entry.name === part) {
+        dirCid = entry.cid
+        break
+      }
+    }
+
+    if (dirCid == null) {
+      log('resolved %s as far as %s', path, parts.slice(0, i).join('/'))
+
+      return {
+        cid,
+        path,
+        segments,
+        missing: parts.slice(i)
+      }
+    }
+
+    cid = dirCid
+
+    segments.push({
+      name: part,
+      cid,
+      size: result.size
+    })
+  }
+
+  return {
+    cid,
+    path,
+    segments,
+    missing: []
+  }
+}
+
 export interface UpdatePathCidsOptions extends AbortOptions {
   shardSplitThresholdBytes: number
 }
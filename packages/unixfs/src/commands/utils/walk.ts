@@ -0,0 +1,37 @@
+import type { ExporterOptions, UnixFSEntry } from 'ipfs-unixfs-exporter'
+
+export interface WalkResult {
+  /**
+   * The path of the node relative to where the walk started
+   */
+  path: string
+  entry: UnixFSEntry
+}
+
+/**
+ * Yield a UnixFS node followed by every node below it in depth-first order,
+ * directories are yielded before their contents
+ */
+export async function * walk (entry: UnixFSEntry, path: string, options: ExporterOptions): AsyncGenerator<WalkResult> {
+  yield { path, entry }
+
+  if (entry.type !== 'directory') {
+    return
+  }
+
+  for await (const child of entry.content(options)) {
+    yield * walk(child, path === '' ? child.name : `${path}/${child.name}`, options)
+  }
+}
+
+/**
+ * The contents of a directory are placed at the top level of an archive while
+ * a single file is named after the end of the path or its CID
+ */
+export function archiveRootPath (entry: UnixFSEntry, path?: string): string {
+  if (entry.type === 'directory') {
+    return ''
+  }
+
+  return path?.split('/').filter(Boolean).pop() ?? entry.cid.toString()
+}
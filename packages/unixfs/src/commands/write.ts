@@ -0,0 +1,165 @@
+import * as dagPB from '@ipld/dag-pb'
+import { logger } from '@libp2p/logger'
+import { UnixFS } from 'ipfs-unixfs'
+import { exporter } from 'ipfs-unixfs-exporter'
+import mergeOpts from 'merge-options'
+import * as raw from 'multiformats/codecs/raw'
+import { InvalidParametersError, InvalidPBNodeError, NotAFileError, UnknownError } from '../errors.js'
+import { SHARD_SPLIT_THRESHOLD_BYTES } from './utils/constants.js'
+import { persist } from './utils/persist.js'
+import { resolve, updatePathCids } from './utils/resolve.js'
+import type { WriteOptions } from '../index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { PBLink } from '@ipld/dag-pb'
+import type { AbortOptions } from '@libp2p/interface'
+import type { CID } from 'multiformats/cid'
+
+const mergeOptions = mergeOpts.bind({ ignoreUndefined: true })
+const log = logger('helia:unixfs:write')
+
+const defaultOptions: WriteOptions = {
+  offset: 0,
+  shardSplitThresholdBytes: SHARD_SPLIT_THRESHOLD_BYTES
+}
+
+export async function write (cid: CID, bytes: Uint8Array, blockstore: Blocks, options: Partial<WriteOptions> = {}): Promise<CID> {
+  const opts: WriteOptions = mergeOptions(defaultOptions, options)
+
+  if (opts.offset < 0 || !Number.isSafeInteger(opts.offset)) {
+    throw new InvalidParametersError('Offset must be a non-negative integer')
+  }
+
+  const resolved = await resolve(cid, opts.path, blockstore, opts)
+  const entry = await exporter(resolved.cid, blockstore, opts)
+
+  if (entry.type !== 'file' && entry.type !== 'raw') {
+    throw new NotAFileError()
+  }
+
+  const offset = BigInt(opts.offset)
+  const fileSize = entry.type === 'raw' ? BigInt(entry.node.byteLength) : entry.unixfs.fileSize()
+
+  if (offset + BigInt(bytes.byteLength) > fileSize) {
+    throw new InvalidParametersError('Write would extend past the end of the file')
+  }
+
+  if (bytes.byteLength === 0) {
+    return cid
+  }
+
+  log('write %d bytes to %c at offset %d', bytes.byteLength, resolved.cid, offset)
+
+  const result = await writeNode(resolved.cid, bytes, offset, blockstore, opts)
+
+  return updatePathCids(result.cid, resolved, blockstore, opts)
+}
+
+interface WriteNodeResult {
+  cid: CID
+  size: number
+}
+
+/**
+ * Overwrite the bytes of the file DAG rooted at `cid` starting at `offset`,
+ * only descending into (and rewriting) children whose ranges overlap the
+ * written bytes. Untouched siblings keep their existing CIDs.
+ */
+async function writeNode (cid: CID, bytes: Uint8Array, offset: bigint, blockstore: Blocks, options: AbortOptions): Promise<WriteNodeResult> {
+  const block = await blockstore.get(cid, options)
+
+  if (cid.code === raw.code) {
+    const data = patch(block, bytes, offset)
+    const updatedCid = await persist(data, blockstore, {
+      codec: raw,
+      cidVersion: cid.version,
+      signal: options.signal
+    })
+
+    return {
+      cid: updatedCid,
+      size: data.byteLength
+    }
+  }
+
+  if (cid.code !== dagPB.code) {
+    throw new UnknownError(`${cid.toString()} was neither DAG_PB nor RAW`)
+  }
+
+  const node = dagPB.decode(block)
+
+  if (node.Data == null) {
+    throw new InvalidPBNodeError(`${cid.toString()} had no data`)
+  }
+
+  const unixfs = UnixFS.unmarshal(node.Data)
+  let start = 0n
+
+  if (unixfs.data != null) {
+    unixfs.data = patch(unixfs.data, bytes, offset)
+    start = BigInt(unixfs.data.byteLength)
+  }
+
+  const end = offset + BigInt(bytes.byteLength)
+  const links: PBLink[] = []
+
+  for (let i = 0; i < node.Links.length; i++) {
+    const link = node.Links[i]
+    const blockSize = unixfs.blockSizes[i]
+
+    if (blockSize == null) {
+      throw new InvalidPBNodeError(`${cid.toString()} had fewer blockSizes than links`)
+    }
+
+    const childStart = start
+    const childEnd = start + blockSize
+    start = childEnd
+
+    if (childEnd <= offset || childStart >= end) {
+      // this child is not affected by the write
+      links.push(link)
+      continue
+    }
+
+    const from = childStart > offset ? Number(childStart - offset) : 0
+    const to = childEnd < end ? Number(childEnd - offset) : bytes.byteLength
+    const childOffset = offset > childStart ? offset - childStart : 0n
+    const updated = await writeNode(link.Hash, bytes.subarray(from, to), childOffset, blockstore, options)
+
+    links.push({
+      Name: link.Name,
+      Hash: updated.cid,
+      Tsize: updated.size
+    })
+  }
+
+  const buf = dagPB.encode({
+    Data: unixfs.marshal(),
+    Links: links
+  })
+  const updatedCid = await persist(buf, blockstore, {
+    cidVersion: cid.version,
+    signal: options.signal
+  })
+
+  return {
+    cid: updatedCid,
+    size: links.reduce((acc, curr) => acc + (curr.Tsize ?? 0), buf.byteLength)
+  }
+}
+
+/**
+ * Return a copy of `data` with `bytes` written at `offset`, ignoring any
+ * bytes that fall outside of `data`
+ */
+function patch (data: Uint8Array, bytes: Uint8Array, offset: bigint): Uint8Array {
+  const output = Uint8Array.from(data)
+
+  if (offset >= BigInt(data.byteLength)) {
+    return output
+  }
+
+  const start = Number(offset)
+  output.set(bytes.subarray(0, data.byteLength - start), start)
+
+  return output
+}
@@ -63,3 +63,73 @@ export class InvalidParametersError extends UnixFSError {
     super(message, 'InvalidParametersError', 'ERR_INVALID_PARAMETERS')
   }
 }
+
+export class NotASymlinkError extends UnixFSError {
+  constructor (message = 'not a symlink') {
+    super(message, 'NotASymlinkError', 'ERR_NOT_A_SYMLINK')
+  }
+}
+
+export class SymlinkLoopError extends UnixFSError {
+  constructor (message = 'too many levels of symbolic links') {
+    super(message, 'SymlinkLoopError', 'ERR_SYMLINK_LOOP')
+  }
+}
+
+export class MergeConflictError extends UnixFSError {
+  constructor (message = 'merge conflict') {
+    super(message, 'MergeConflictError', 'ERR_MERGE_CONFLICT')
+  }
+}
+
+export class RootChangedError extends UnixFSError {
+  constructor (message = 'root changed') {
+    super(message, 'RootChangedError', 'ERR_ROOT_CHANGED')
+  }
+}
+
+export class InvalidCarError extends UnixFSError {
+  constructor (message = 'invalid CAR file') {
+    super(message, 'InvalidCarError', 'ERR_INVALID_CAR')
+  }
+}
+
+export class ReadOnlyError extends UnixFSError {
+  constructor (message = 'read only') {
+    super(message, 'ReadOnlyError', 'ERR_READ_ONLY')
+  }
+}
+
+export class InvalidZipError extends UnixFSError {
+  constructor (message = 'invalid zip file') {
+    super(message, 'InvalidZipError', 'ERR_INVALID_ZIP')
+  }
+}
+
+export class RequestFailedError extends UnixFSError {
+  public readonly status?: number
+
+  constructor (message = 'request failed', status?: number) {
+    super(message, 'RequestFailedError', 'ERR_REQUEST_FAILED')
+
+    this.status = status
+  }
+}
+
+export class ContentChangedError extends UnixFSError {
+  constructor (message = 'content changed') {
+    super(message, 'ContentChangedError', 'ERR_CONTENT_CHANGED')
+  }
+}
+
+export class FileClosedError extends UnixFSError {
+  constructor (message = 'file closed') {
+    super(message, 'FileClosedError', 'ERR_FILE_CLOSED')
+  }
+}
+
+export class InvalidRedirectsError extends UnixFSError {
+  constructor (message = 'invalid _redirects file') {
+    super(message, 'InvalidRedirectsError', 'ERR_INVALID_REDIRECTS')
+  }
+}
@@ -0,0 +1,479 @@
+import { logger } from '@libp2p/logger'
+import { CID } from 'multiformats/cid'
+import { DoesNotExistError, UnixFSError } from './errors.js'
+import { toReadableStream } from './utils/web-streams.js'
+import type { Redirect } from './commands/utils/redirects.js'
+import type { MimeTypeDetector, UnixFS, UnixFSStats } from './index.js'
+import type { UnixFSEntry } from 'ipfs-unixfs-exporter'
+
+const log = logger('helia:unixfs:gateway')
+
+/**
+ * Turns a request for `/ipfs/<cid>/<path>` into a response
+ */
+export interface GatewayHandler {
+  (request: Request): Promise<Response>
+}
+
+export interface GatewayHandlerInit {
+  /**
+   * If true, do not perform any network operations and respond with an error
+   * if blocks are missing from the local store. (default: false)
+   */
+  offline?: boolean
+
+  /**
+   * If true, paths that do not exist are resolved against the `_redirects`
+   * file and `404.html` in the root directory. Rules match paths relative to
+   * the root CID and redirects to other paths in the site are sent under
+   * `/ipfs/<cid>`, so sites work when served from this path gateway.
+   * (default: false)
+   */
+  redirects?: boolean
+
+  /**
+   * A custom detector to try before the built-in MIME type detection when
+   * setting the `Content-Type` of files
+   */
+  detectMimeType?: MimeTypeDetector
+}
+
+/**
+ * Content is addressed by its CID so never changes
+ */
+const CACHE_CONTROL = 'public, max-age=29030400, immutable'
+
+/**
+ * A request for a CID and an optional path under it
+ */
+interface GatewayRequest {
+  cid: CID
+
+  /**
+   * The decoded path segments after the CID
+   */
+  path: string[]
+
+  /**
+   * True if the URL path ended with a slash
+   */
+  trailingSlash: boolean
+}
+
+interface ByteRange {
+  start: number
+
+  /**
+   * Exclusive
+   */
+  end: number
+}
+
+class HttpError extends UnixFSError {
+  public readonly status: number
+
+  constructor (message: string, status: number) {
+    super(message, 'HttpError', 'ERR_HTTP')
+
+    this.status = status
+  }
+}
+
+/**
+ * Create a function that responds to WHATWG `Request`s for UnixFS content the
+ * way an HTTP gateway does. It only uses the Fetch API so works in a service
+ * worker, or in Node.js by converting to and from `http` messages.
+ *
+ * Files are served with `ETag`, `Cache-Control` and `Content-Type` headers and
+ * support single `Range` requests. Directories are redirected to a URL with a
+ * trailing slash, then serve their `index.html` if they have one, otherwise a
+ * listing that is HTML or JSON depending on the `Accept` header. With the
+ * `redirects` option, missing paths are resolved against the `_redirects` file
+ * of the root directory.
+ */
+export function createGatewayHandler (fs: UnixFS, init: GatewayHandlerInit = {}): GatewayHandler {
+  return async (request: Request): Promise<Response> => {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return new Response(null, {
+        status: 405,
+        headers: {
+          allow: 'GET, HEAD'
+        }
+      })
+    }
+
+    try {
+      return await handle(fs, request, parseRequest(new URL(request.url)), init)
+    } catch (err) {
+      return errorResponse(request, err)
+    }
+  }
+}
+
+async function handle (fs: UnixFS, request: Request, req: GatewayRequest, init: GatewayHandlerInit): Promise<Response> {
+  const options = {
+    signal: request.signal,
+    offline: init.offline,
+    followSymlinks: true
+  }
+  const path = req.path.join('/')
+
+  log('%s %c/%s', request.method, req.cid, path)
+
+  let stats: UnixFSStats
+
+  try {
+    stats = await fs.stat(req.cid, {
+      ...options,
+      path,
+      detectMimeType: init.detectMimeType ?? true
+    })
+  } catch (err) {
+    if (init.redirects !== true || !(err instanceof DoesNotExistError)) {
+      throw err
+    }
+
+    const redirect = await fs.redirect(req.cid, `/${path}`, options)
+
+    if (redirect == null) {
+      throw err
+    }
+
+    return redirectResponse(fs, request, req, redirect, init, options)
+  }
+
+  if (stats.type !== 'directory') {
+    return fileResponse(fs, request, stats, options)
+  }
+
+  // relative links in the index or listing only work with a trailing slash
+  if (!req.trailingSlash) {
+    const location = new URL(request.url)
+    location.pathname += '/'
+
+    return new Response(null, {
+      status: 301,
+      headers: {
+        location: `${location.pathname}${location.search}`
+      }
+    })
+  }
+
+  let index: UnixFSStats | undefined
+
+  try {
+    index = await fs.stat(stats.cid, {
+      ...options,
+      path: 'index.html',
+      detectMimeType: init.detectMimeType ?? true
+    })
+  } catch (err) {
+    // only a missing index means the directory should be listed
+    if (!(err instanceof DoesNotExistError)) {
+      throw err
+    }
+  }
+
+  if (index != null && index.type !== 'directory') {
+    return fileResponse(fs, request, index, options)
+  }
+
+  return listingResponse(fs, request, req, stats, options)
+}
+
+/**
+ * Redirect to the location of a `_redirects` rule, or serve it in place of the
+ * requested path with the status of the rule
+ */
+async function redirectResponse (fs: UnixFS, request: Request, req: GatewayRequest, redirect: Redirect, init: GatewayHandlerInit, options: { signal: AbortSignal, offline?: boolean }): Promise<Response> {
+  if (redirect.status >= 300 && redirect.status < 400) {
+    // locations are relative to the root of the site which is under the CID
+    const location = /^https?:\/\//.test(redirect.location) ? redirect.location : `/ipfs/${req.cid.toString()}${redirect.location}`
+
+    return new Response(null, {
+      status: redirect.status,
+      headers: {
+        location
+      }
+    })
+  }
+
+  const [pathname] = redirect.location.split(/[?#]/)
+  let path: string
+
+  try {
+    path = pathname.split('/').filter(Boolean).map(segment => decodeURIComponent(segment)).join('/')
+  } catch {
+    throw new HttpError(`Invalid redirect location ${redirect.location}`, 400)
+  }
+
+  let stats = await fs.stat(req.cid, {
+    ...options,
+    path,
+    detectMimeType: init.detectMimeType ?? true
+  })
+
+  if (stats.type === 'directory') {
+    stats = await fs.stat(stats.cid, {
+      ...options,
+      path: 'index.html',
+      detectMimeType: init.detectMimeType ?? true
+    })
+  }
+
+  if (stats.type === 'directory') {
+    throw new HttpError(`${redirect.location} is not a file`, 500)
+  }
+
+  return fileResponse(fs, request, stats, options, redirect.status)
+}
+
+/**
+ * Responses with a status other than 200 send the whole file and ignore
+ * conditional and range headers
+ */
+async function fileResponse (fs: UnixFS, request: Request, stats: UnixFSStats, options: { signal: AbortSignal, offline?: boolean }, status = 200): Promise<Response> {
+  const etag = `"${stats.cid.toString()}"`
+  const size = Number(stats.fileSize)
+  const headers = new Headers({
+    etag,
+    'cache-control': CACHE_CONTROL,
+    'accept-ranges': 'bytes',
+    'content-type': stats.mimeType ?? 'application/octet-stream',
+    'x-ipfs-path': new URL(request.url).pathname
+  })
+
+  if (stats.mtime != null) {
+    headers.set('last-modified', new Date(Number(stats.mtime.secs) * 1000).toUTCString())
+  }
+
+  if (status === 200 && isNotModified(request, etag)) {
+    return new Response(null, { status: 304, headers })
+  }
+
+  let range: ByteRange | null | undefined
+  const rangeHeader = request.headers.get('range')
+  const ifRange = request.headers.get('if-range')
+
+  // the range only applies to the version of the file the client already has
+  if (status === 200 && rangeHeader != null && (ifRange == null || ifRange === etag)) {
+    range = parseRange(rangeHeader, size)
+
+    if (range === null) {
+      headers.set('content-range', `bytes */${size}`)
+
+      return new Response(null, { status: 416, headers })
+    }
+  }
+
+  const start = range?.start ?? 0
+  const end = range?.end ?? size
+
+  headers.set('content-length', `${end - start}`)
+
+  if (range != null) {
+    headers.set('content-range', `bytes ${start}-${end - 1}/${size}`)
+  }
+
+  return new Response(request.method === 'HEAD' ? null : toReadableStream(fs.cat(stats.cid, { ...options, offset: start, length: end - start })), {
+    status: range == null ? status : 206,
+    headers
+  })
+}
+
+async function listingResponse (fs: UnixFS, request: Request, req: GatewayRequest, stats: UnixFSStats, options: { signal: AbortSignal, offline?: boolean }): Promise<Response> {
+  const json = prefersJson(request)
+  const etag = `"DirIndex-${json ? 'json' : 'html'}-${stats.cid.toString()}"`
+  const headers = new Headers({
+    etag,
+    'cache-control': CACHE_CONTROL,
+    'content-type': json ? 'application/json' : 'text/html; charset=utf-8',
+    'x-ipfs-path': new URL(request.url).pathname,
+    vary: 'Accept'
+  })
+
+  if (isNotModified(request, etag)) {
+    return new Response(null, { status: 304, headers })
+  }
+
+  if (request.method === 'HEAD') {
+    return new Response(null, { headers })
+  }
+
+  const entries: UnixFSEntry[] = []
+
+  for await (const entry of fs.ls(stats.cid, options)) {
+    entries.push(entry)
+  }
+
+  const body = json ? jsonListing(req, stats, entries) : htmlListing(request, req, entries)
+
+  return new Response(body, { headers })
+}
+
+function jsonListing (req: GatewayRequest, stats: UnixFSStats, entries: UnixFSEntry[]): string {
+  return JSON.stringify({
+    cid: stats.cid.toString(),
+    path: `/ipfs/${[req.cid.toString(), ...req.path].join('/')}`,
+    entries: entries.map(entry => ({
+      name: entry.name,
+      cid: entry.cid.toString(),
+      type: entry.type === 'directory' ? 'directory' : 'file',
+      size: Number(entry.size)
+    }))
+  })
+}
+
+function htmlListing (request: Request, req: GatewayRequest, entries: UnixFSEntry[]): string {
+  const path = new URL(request.url).pathname
+  const rows = entries.map(entry => {
+    const name = entry.type === 'directory' ? `${entry.name}/` : entry.name
+
+    return `<tr><td><a href="./${escapeHtml(encodeURIComponent(entry.name))}${entry.type === 'directory' ? '/' : ''}">${escapeHtml(name)}</a></td><td>${entry.type === 'directory' ? '' : entry.size.toString()}</td><td>${escapeHtml(entry.cid.toString())}</td></tr>`
+  })
+
+  if (req.path.length > 0) {
+    rows.unshift('<tr><td><a href="../">..</a></td><td></td><td></td></tr>')
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(path)}</title>
+</head>
+<body>
+<h1>Index of ${escapeHtml(path)}</h1>
+<table>
+<thead><tr><th>Name</th><th>Size</th><th>CID</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`
+}
+
+function parseRequest (url: URL): GatewayRequest {
+  const [empty, namespace, cid, ...rest] = url.pathname.split('/')
+
+  if (empty !== '' || namespace !== 'ipfs' || cid == null || cid === '') {
+    throw new HttpError('Path must start with /ipfs/<cid>', 400)
+  }
+
+  let parsed: CID
+  let path: string[]
+
+  try {
+    parsed = CID.parse(cid)
+  } catch {
+    throw new HttpError(`Invalid CID ${cid}`, 400)
+  }
+
+  try {
+    path = rest.filter(Boolean).map(segment => decodeURIComponent(segment))
+  } catch {
+    throw new HttpError('Invalid path', 400)
+  }
+
+  if (path.some(segment => segment === '.' || segment === '..' || segment.includes('/'))) {
+    throw new HttpError('Invalid path', 400)
+  }
+
+  return {
+    cid: parsed,
+    path,
+    trailingSlash: url.pathname.endsWith('/')
+  }
+}
+
+/**
+ * Parse a single range from a `Range` header, return `undefined` if the header
+ * should be ignored and `null` if the range cannot be satisfied
+ */
+function parseRange (header: string, size: number): ByteRange | null | undefined {
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/)
+
+  // multiple ranges are not supported so the whole file is sent instead
+  if (match == null || (match[1] === '' && match[2] === '')) {
+    return
+  }
+
+  if (match[1] === '') {
+    // the last n bytes
+    const length = parseInt(match[2], 10)
+
+    if (length === 0 || size === 0) {
+      return null
+    }
+
+    return { start: Math.max(size - length, 0), end: size }
+  }
+
+  const start = parseInt(match[1], 10)
+  const end = match[2] === '' ? size : Math.min(parseInt(match[2], 10) + 1, size)
+
+  if (start >= size || end <= start) {
+    return null
+  }
+
+  return { start, end }
+}
+
+function isNotModified (request: Request, etag: string): boolean {
+  const header = request.headers.get('if-none-match')
+
+  if (header == null) {
+    return false
+  }
+
+  // If-None-Match uses the weak comparison
+  return header.split(',').some(value => {
+    value = value.trim()
+
+    return value === '*' || value.replace(/^W\//, '') === etag
+  })
+}
+
+function prefersJson (request: Request): boolean {
+  const accept = request.headers.get('accept') ?? ''
+
+  return accept.includes('application/json') && !accept.includes('text/html')
+}
+
+function errorResponse (request: Request, err: unknown): Response {
+  const error: Error & { code?: string } = err instanceof Error ? err : new Error(String(err))
+  let status = 500
+
+  if (error instanceof HttpError) {
+    status = error.status
+  } else if (error.name === 'AbortError') {
+    // the client went away
+    status = 499
+  } else if (error.code === 'ERR_DOES_NOT_EXIST' || error.code === 'ERR_NOT_FOUND' || error.code === 'ERR_NOT_A_DIRECTORY') {
+    status = 404
+  } else if (error.code === 'ERR_INVALID_PARAMETERS' || error.code === 'ERR_SYMLINK_LOOP') {
+    status = 400
+  } else if (error.code === 'ERR_NOT_UNIXFS') {
+    status = 501
+  }
+
+  log.error('%s %s failed with %d - %e', request.method, request.url, status, error)
+
+  return new Response(`${status} ${error.message === '' ? 'Internal Server Error' : error.message}\n`, {
+    status,
+    headers: {
+      'content-type': 'text/plain; charset=utf-8'
+    }
+  })
+}
+
+function escapeHtml (str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
@@ -41,24 +41,278 @@
  *   console.info(entry)
  * }
  * ```
+ *
+ * To skip dependencies, build output and anything else listed in ignore files
+ * the way `git` does:
+ *
+ * ```typescript
+ * import { globSource } from '@helia/unixfs'
+ *
+ * const source = globSource('path/to/project', '**', {
+ *   ignore: ['node_modules', '.git'],
+ *   ignoreFiles: ['.gitignore', '.ipfsignore'],
+ *   maxFileSize: 1024 * 1024 * 100
+ * })
+ *
+ * for await (const entry of fs.addAll(source)) {
+ *   console.info(entry)
+ * }
+ * ```
+ *
+ * @example Adding files in a browser
+ *
+ * Files picked with an `<input type="file">` element keep their relative paths
+ * and last modified times:
+ *
+ * ```typescript
+ * import { fileSource } from '@helia/unixfs'
+ *
+ * const input = document.querySelector('input[type=file][webkitdirectory]')
+ *
+ * for await (const entry of fs.addAll(fileSource(input.files))) {
+ *   console.info(entry)
+ * }
+ * ```
+ *
+ * `dataTransferSource` and `directoryHandleSource` do the same for files that
+ * are dragged and dropped onto a page and for directory handles.
+ *
+ * @example Adding a file from a URL
+ *
+ * Interrupted downloads are resumed with range requests and large files can be
+ * fetched in several ranges at once:
+ *
+ * ```typescript
+ * import { urlSource } from '@helia/unixfs'
+ *
+ * const cid = await fs.addFile(urlSource(new URL('https://example.com/large-file.iso'), {
+ *   parallel: 4,
+ *   onProgress: (evt) => {
+ *     console.info(evt.type, evt.detail)
+ *   }
+ * }))
+ * ```
+ *
+ * `fetchUrlSource` makes the first request before returning so the file name
+ * and mtime can be taken from the `Content-Disposition` and `Last-Modified`
+ * response headers:
+ *
+ * ```typescript
+ * import { fetchUrlSource } from '@helia/unixfs'
+ *
+ * const cid = await fs.addFile(await fetchUrlSource(new URL('https://example.com/download?id=123')))
+ * ```
+ *
+ * @example Writing a directory to disk
+ *
+ * Node.js-compatibly environments only:
+ *
+ * ```typescript
+ * import { exportToDisk } from '@helia/unixfs'
+ *
+ * await exportToDisk(fs, cid, 'path/to/output/dir', {
+ *   preserveMode: true,
+ *   preserveMtime: true
+ * })
+ * ```
+ *
+ * @example Importing a tar archive
+ *
+ * Tarballs, gzipped or not, can be imported with their directories, symlinks,
+ * mode and mtime intact. Importing one file at a time streams each file from
+ * the archive instead of holding it in memory:
+ *
+ * ```typescript
+ * import { createReadStream } from 'node:fs'
+ * import { tarSource } from '@helia/unixfs'
+ *
+ * for await (const entry of fs.addAll(tarSource(createReadStream('./artifacts.tar.gz')), {
+ *   fileImportConcurrency: 1
+ * })) {
+ *   console.info(entry)
+ * }
+ * ```
+ *
+ * @example Importing a zip file
+ *
+ * Zip files are read from a `Blob` such as a `File` picked in a browser, only
+ * the central directory and the content being imported are held in memory:
+ *
+ * ```typescript
+ * import { zipSource } from '@helia/unixfs'
+ *
+ * const input = document.querySelector('input[type=file]')
+ *
+ * for await (const entry of fs.addAll(zipSource(input.files[0]))) {
+ *   console.info(entry)
+ * }
+ * ```
+ *
+ * @example Using a mutable filesystem
+ *
+ * Keep track of a root directory across changes using absolute paths, like
+ * `ipfs files`. The root CID is stored in the Helia datastore.
+ *
+ * ```typescript
+ * import { mfs } from '@helia/unixfs'
+ *
+ * const files = mfs(helia)
+ *
+ * await files.mkdir('/photos/2026', {
+ *   parents: true
+ * })
+ * await files.cp(fileCid, '/photos/2026/a.jpg')
+ *
+ * console.info(await files.root())
+ * ```
+ *
+ * @example Serving content over HTTP
+ *
+ * The gateway handler only uses the Fetch API so it can respond to requests in a
+ * service worker:
+ *
+ * ```typescript
+ * import { createGatewayHandler } from '@helia/unixfs'
+ *
+ * const handler = createGatewayHandler(fs)
+ *
+ * self.addEventListener('fetch', (event) => {
+ *   if (new URL(event.request.url).pathname.startsWith('/ipfs/')) {
+ *     event.respondWith(handler(event.request))
+ *   }
+ * })
+ * ```
+ *
+ * Or in Node.js by converting to and from `http` messages:
+ *
+ * ```typescript
+ * import { createServer } from 'node:http'
+ * import { Readable } from 'node:stream'
+ * import { createGatewayHandler } from '@helia/unixfs'
+ *
+ * const handler = createGatewayHandler(fs)
+ *
+ * createServer(async (req, res) => {
+ *   const response = await handler(new Request(`http://${req.headers.host}${req.url}`, {
+ *     method: req.method,
+ *     headers: req.headers
+ *   }))
+ *
+ *   res.writeHead(response.status, Object.fromEntries(response.headers))
+ *
+ *   if (response.body == null) {
+ *     res.end()
+ *   } else {
+ *     Readable.fromWeb(response.body).pipe(res)
+ *   }
+ * }).listen(8080)
+ * ```
+ *
+ * @example Redirects and single page apps
+ *
+ * Websites can include a `_redirects` file in their root directory with one
+ * rule per line. Rules can capture path segments with `:placeholder`s and the
+ * rest of the path with a trailing `*`, and are checked in order when a path does
+ * not exist:
+ *
+ * ```
+ * /blog/:year/:slug /posts/:year/:slug.html 301
+ * /docs/* https://docs.example.com/:splat 302
+ * /app/* /index.html 200
+ * ```
+ *
+ * `redirect` resolves a path against these rules so an app router can use them,
+ * and the gateway handler can apply them itself. If no rule matches and the site
+ * has a `404.html` it is served with a 404 status:
+ *
+ * ```typescript
+ * import { createGatewayHandler } from '@helia/unixfs'
+ *
+ * console.info(await fs.redirect(siteCid, '/app/settings'))
+ * // { location: '/index.html', status: 200 }
+ *
+ * // a 301 from /blog/2024/hello to /posts/2024/hello.html is sent with the
+ * // location /ipfs/<siteCid>/posts/2024/hello.html
+ * const handler = createGatewayHandler(fs, {
+ *   redirects: true
+ * })
+ * ```
+ *
+ * @example Detecting MIME types
+ *
+ * `stat` and `ls` can detect the MIME type of files from their extension, or
+ * from the first bytes of the file when the extension is not recognised. Pass a
+ * function to try a custom detector first:
+ *
+ * ```typescript
+ * const stats = await fs.stat(directoryCid, {
+ *   path: 'photo',
+ *   detectMimeType: true
+ * })
+ *
+ * console.info(stats.mimeType) // 'image/jpeg'
+ *
+ * for await (const entry of fs.ls(directoryCid, {
+ *   detectMimeType: (name, bytes) => name?.endsWith('.car') === true ? 'application/vnd.ipld.car' : undefined
+ * })) {
+ *   console.info(entry.name, entry.mimeType)
+ * }
+ * ```
+ *
+ * @example Reading files over a slow network
+ *
+ * When blocks are fetched from the network, `cat` can load the blocks that
+ * follow the current position in parallel. `readAhead` limits how many bytes are
+ * held in memory while they wait to be read:
+ *
+ * ```typescript
+ * for await (const buf of fs.cat(fileCid, {
+ *   readAhead: 8 * 1024 * 1024,
+ *   concurrency: 16,
+ *   onProgress: (evt) => {
+ *     if (evt.type === 'unixfs:cat:progress') {
+ *       console.info(evt.detail.bytesDelivered, evt.detail.blocksPrefetched)
+ *     }
+ *   }
+ * })) {
+ *   console.info(buf)
+ * }
+ * ```
  */
 
 import { addAll, addBytes, addByteStream, addDirectory, addFile } from './commands/add.js'
+import { append } from './commands/append.js'
+import { batch } from './commands/batch.js'
 import { cat } from './commands/cat.js'
 import { chmod } from './commands/chmod.js'
 import { cp } from './commands/cp.js'
+import { diff } from './commands/diff.js'
+import { exportCar } from './commands/export-car.js'
+import { exportTar } from './commands/export-tar.js'
+import { exportZip } from './commands/export-zip.js'
+import { importCar } from './commands/import-car.js'
 import { ls } from './commands/ls.js'
+import { merge } from './commands/merge.js'
 import { mkdir } from './commands/mkdir.js'
+import { mv } from './commands/mv.js'
+import { open } from './commands/open.js'
+import { readlink } from './commands/readlink.js'
+import { redirect } from './commands/redirect.js'
+import { rmAll } from './commands/rm-all.js'
 import { rm } from './commands/rm.js'
 import { stat } from './commands/stat.js'
+import { symlink } from './commands/symlink.js'
 import { touch } from './commands/touch.js'
+import { truncate } from './commands/truncate.js'
+import { write } from './commands/write.js'
+import type { Redirect } from './commands/utils/redirects.js'
 import type { Blocks, GetBlockProgressEvents, PutBlockProgressEvents } from '@helia/interface/blocks'
 import type { AbortOptions } from '@libp2p/interface'
 import type { Mtime, UnixFS as IPFSUnixFS } from 'ipfs-unixfs'
 import type { ExporterProgressEvents, UnixFSEntry } from 'ipfs-unixfs-exporter'
-import type { ByteStream, DirectoryCandidate, FileCandidate, ImportCandidateStream, ImporterOptions, ImporterProgressEvents, ImportResult } from 'ipfs-unixfs-importer'
+import type { ByteStream, DirectoryCandidate, FileCandidate, ImporterOptions, ImporterProgressEvents, ImportResult } from 'ipfs-unixfs-importer'
 import type { CID, Version } from 'multiformats/cid'
-import type { ProgressOptions } from 'progress-events'
+import type { ProgressEvent, ProgressOptions } from 'progress-events'
 
 export interface UnixFSComponents {
   blockstore: Blocks
@@ -67,31 +321,440 @@ export interface UnixFSComponents {
 export type AddEvents = PutBlockProgressEvents
 | ImporterProgressEvents
 
-export interface AddOptions extends AbortOptions, Omit<ImporterOptions, 'onProgress'>, ProgressOptions<AddEvents> {
+export interface AddOptions extends AbortOptions, Omit<ImporterOptions, 'onProgress'>, ProgressOptions<AddEvents> {
+
+}
+
+/**
+ * A symlink to be imported as a UnixFS symlink node alongside files and
+ * directories
+ */
+export interface SymlinkCandidate {
+  path: string
+  target: string
+  mtime?: Mtime
+  mode?: number
+}
+
+export type AddCandidate = FileCandidate | DirectoryCandidate | SymlinkCandidate
+
+export type AddCandidateStream = AsyncIterable<AddCandidate> | Iterable<AddCandidate>
+
+export interface CatProgress {
+  /**
+   * The file being read
+   */
+  cid: CID
+
+  /**
+   * How many bytes of the file have been yielded so far
+   */
+  bytesDelivered: number
+
+  /**
+   * How many blocks of the file have been loaded so far, including ones that
+   * are waiting to be delivered
+   */
+  blocksPrefetched: number
+}
+
+export type CatProgressEvents =
+  ProgressEvent<'unixfs:cat:progress', CatProgress>
+
+export type GetEvents = GetBlockProgressEvents
+| ExporterProgressEvents
+| CatProgressEvents
+
+/**
+ * Options to pass to the append command
+ */
+export interface AppendOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+  /**
+   * An optional path to allow appending to files inside directories
+   */
+  path?: string
+
+  /**
+   * The chunk size the file was imported with, new leaves will be this size
+   * (default: 1MiB)
+   */
+  chunkSize: number
+
+  /**
+   * The maximum number of children per node the file was imported with
+   * (default: 1024)
+   */
+  maxChildrenPerNode: number
+
+  /**
+   * If true, new leaves will be stored as raw blocks (default: true)
+   */
+  rawLeaves: boolean
+
+  /**
+   * DAGs with a root block larger than this value will be sharded. Blocks
+   * smaller than this value will be regular UnixFS directories.
+   */
+  shardSplitThresholdBytes: number
+
+  /**
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
+   */
+  offline?: boolean
+}
+
+/**
+ * Options to pass to the batch command
+ */
+export interface BatchOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+  /**
+   * DAGs with a root block larger than this value will be sharded. Blocks
+   * smaller than this value will be regular UnixFS directories.
+   */
+  shardSplitThresholdBytes: number
+
+  /**
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
+   */
+  offline?: boolean
+}
+
+/**
+ * A set of changes to a DAG that are held in memory. Directories are only
+ * written to the blockstore when `commit` is called, and each changed
+ * directory is written once no matter how many operations touched it.
+ *
+ * Paths are relative to the root the batch was created with.
+ */
+export interface UnixFSBatch {
+  /**
+   * Add a file or directory at the passed path
+   */
+  cp(source: CID, path: string, options?: Partial<Pick<CpOptions, 'force' | 'parents' | 'signal'>>): Promise<void>
+
+  /**
+   * Create an empty directory at the passed path
+   */
+  mkdir(path: string, options?: Partial<Pick<MkdirOptions, 'cidVersion' | 'force' | 'parents' | 'mode' | 'mtime' | 'signal'>>): Promise<void>
+
+  /**
+   * Remove the file or directory at the passed path
+   */
+  rm(path: string, options?: AbortOptions): Promise<void>
+
+  /**
+   * Overwrite part of the file at the passed path
+   */
+  write(path: string, bytes: Uint8Array, options?: Partial<Pick<WriteOptions, 'offset' | 'signal'>>): Promise<void>
+
+  /**
+   * Change the permissions of the file or directory at the passed path, an
+   * empty path changes the root directory
+   */
+  chmod(path: string, mode: number, options?: AbortOptions): Promise<void>
+
+  /**
+   * Change the mtime of the file or directory at the passed path, an empty
+   * path changes the root directory
+   */
+  touch(path: string, options?: Partial<Pick<TouchOptions, 'mtime' | 'signal'>>): Promise<void>
+
+  /**
+   * Write every changed directory to the blockstore and return the new root
+   * CID. The batch can continue to be used after it has been committed.
+   */
+  commit(options?: AbortOptions): Promise<CID>
+}
+
+/**
+ * Options to pass to the cat command
+ */
+export interface CatOptions extends AbortOptions, ProgressOptions<GetEvents> {
+  /**
+   * Start reading the file at this offset
+   */
+  offset?: number
+
+  /**
+   * Stop reading the file after this many bytes
+   */
+  length?: number
+
+  /**
+   * If set, load the blocks that follow the current position in parallel
+   * until this many bytes are waiting to be read. This hides the latency of
+   * fetching each block from the network but holds up to this many bytes in
+   * memory. Progress is reported with `unixfs:cat:progress` events.
+   * (default: 0)
+   */
+  readAhead?: number
+
+  /**
+   * When `readAhead` is set, the most blocks to load ahead of the current
+   * position at once (default: 8)
+   */
+  concurrency?: number
+
+  /**
+   * An optional path to allow reading files inside directories
+   */
+  path?: string
+
+  /**
+   * If true, follow any symlinks encountered while resolving the path
+   * (default: false)
+   */
+  followSymlinks?: boolean
+
+  /**
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
+   */
+  offline?: boolean
+}
+
+/**
+ * Options to pass to the chmod command
+ */
+export interface ChmodOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+  /**
+   * If the target of the operation is a directory and this is true,
+   * apply the new mode to all directory contents
+   */
+  recursive: boolean
+
+  /**
+   * Optional path to set the mode on directory contents
+   */
+  path?: string
+
+  /**
+   * DAGs with a root block larger than this value will be sharded. Blocks
+   * smaller than this value will be regular UnixFS directories.
+   */
+  shardSplitThresholdBytes: number
+
+  /**
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
+   */
+  offline?: boolean
+}
+
+/**
+ * Options to pass to the cp command
+ */
+export interface CpOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+  /**
+   * If true, allow overwriting existing directory entries (default: false)
+   */
+  force: boolean
+
+  /**
+   * If true, create any missing parent directories in the target path
+   * (default: false)
+   */
+  parents: boolean
+
+  /**
+   * DAGs with a root block larger than this value will be sharded. Blocks
+   * smaller than this value will be regular UnixFS directories.
+   */
+  shardSplitThresholdBytes: number
+
+  /**
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
+   */
+  offline?: boolean
+}
+
+/**
+ * Options to pass to the diff command
+ */
+export interface DiffOptions extends AbortOptions, ProgressOptions<GetEvents> {
+  /**
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
+   */
+  offline?: boolean
+}
+
+/**
+ * A change between two versions of a DAG
+ */
+export interface DiffEntry {
+  /**
+   * The path of the changed entry relative to the root of the DAG
+   */
+  path: string
+
+  /**
+   * Whether the entry was added, removed or has different content
+   */
+  type: 'added' | 'removed' | 'modified'
+
+  /**
+   * The CID of the entry in the old DAG, if present
+   */
+  oldCid?: CID
+
+  /**
+   * The CID of the entry in the new DAG, if present
+   */
+  newCid?: CID
+}
+
+/**
+ * Options to pass to the exportCar command
+ */
+export interface ExportCarOptions extends AbortOptions, ProgressOptions<GetEvents> {
+  /**
+   * An optional path to export a file or directory inside a directory, the
+   * blocks needed to resolve the path are included in the CAR file
+   */
+  path?: string
+
+  /**
+   * Only include the blocks of the file needed to read from this offset
+   */
+  offset?: number
+
+  /**
+   * Only include the blocks of the file needed to read this many bytes
+   */
+  length?: number
+
+  /**
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
+   */
+  offline?: boolean
+}
+
+/**
+ * Options to pass to the exportTar command
+ */
+export interface ExportTarOptions extends AbortOptions, ProgressOptions<GetEvents> {
+  /**
+   * An optional path to export a file or directory inside a directory
+   */
+  path?: string
+
+  /**
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
+   */
+  offline?: boolean
+}
+
+/**
+ * Options to pass to the exportZip command
+ */
+export interface ExportZipOptions extends AbortOptions, ProgressOptions<GetEvents> {
+  /**
+   * An optional path to export a file or directory inside a directory
+   */
+  path?: string
+
+  /**
+   * How to store file content in the zip file, 'store' writes it uncompressed
+   * (default: 'deflate')
+   */
+  compression: 'store' | 'deflate'
+
+  /**
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
+   */
+  offline?: boolean
+}
+
+/**
+ * Options to pass to the importCar command
+ */
+export interface ImportCarOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+  /**
+   * If true, import blocks that are not linked to from a root or any other
+   * block in the CAR file, otherwise the CAR file is rejected (default: false)
+   */
+  allowUnreferencedBlocks: boolean
+}
+
+/**
+ * The result of importing a CAR file
+ */
+export interface ImportCarResult {
+  /**
+   * Stats for each root of the CAR file
+   */
+  roots: UnixFSStats[]
+
+  /**
+   * How many blocks were read from the CAR file
+   */
+  blocks: number
+
+  /**
+   * The total size of the blocks read from the CAR file in bytes
+   */
+  size: bigint
+}
 
+/**
+ * Returns the MIME type of a file from its name and the bytes at the start of
+ * the file, or undefined to fall back to the built-in detection. The name is
+ * undefined when the file was not reached via a path.
+ */
+export interface MimeTypeDetector {
+  (name: string | undefined, bytes: Uint8Array): string | undefined | Promise<string | undefined>
 }
 
-export type GetEvents = GetBlockProgressEvents
-| ExporterProgressEvents
+/**
+ * An entry in a directory listing
+ */
+export type UnixFSListEntry = UnixFSEntry & {
+  /**
+   * The MIME type of the file, only present when `detectMimeType` is passed and
+   * the type could be detected
+   */
+  mimeType?: string
+}
 
 /**
- * Options to pass to the cat command
+ * Options to pass to the ls command
  */
-export interface CatOptions extends AbortOptions, ProgressOptions<GetEvents> {
+export interface LsOptions extends AbortOptions, ProgressOptions<GetEvents> {
   /**
-   * Start reading the file at this offset
+   * Optional path to list subdirectory contents if the target CID resolves to
+   * a directory
+   */
+  path?: string
+
+  /**
+   * If true, follow any symlinks encountered while resolving the path
+   * (default: false)
+   */
+  followSymlinks?: boolean
+
+  /**
+   * Start reading the directory entries at this offset
    */
   offset?: number
 
   /**
-   * Stop reading the file after this many bytes
+   * Stop reading the directory contents after this many directory entries
    */
   length?: number
 
   /**
-   * An optional path to allow reading files inside directories
+   * If true, detect the MIME type of files from the extension of their name,
+   * falling back to the signature at the start of the first leaf. Pass a
+   * function to try a custom detector first. (default: false)
    */
-  path?: string
+  detectMimeType?: boolean | MimeTypeDetector
 
   /**
    * If true, do not perform any network operations and throw if blocks are
@@ -101,19 +764,45 @@ export interface CatOptions extends AbortOptions, ProgressOptions<GetEvents> {
 }
 
 /**
- * Options to pass to the chmod command
+ * An entry that was changed by both sides of a merge
  */
-export interface ChmodOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+export interface MergeConflict {
   /**
-   * If the target of the operation is a directory and this is true,
-   * apply the new mode to all directory contents
+   * The path of the entry relative to the root of the DAG
    */
-  recursive: boolean
+  path: string
 
   /**
-   * Optional path to set the mode on directory contents
+   * The CID of the entry in the base DAG, if present
    */
-  path?: string
+  base?: CID
+
+  /**
+   * The CID of the entry in our DAG, if present
+   */
+  ours?: CID
+
+  /**
+   * The CID of the entry in their DAG, if present
+   */
+  theirs?: CID
+}
+
+/**
+ * How to resolve a merge conflict - keep one side, keep ours and add theirs
+ * alongside it under a different name, or replace the entry with a new CID
+ */
+export type MergeResolution = { type: 'keep-ours' } | { type: 'keep-theirs' } | { type: 'rename', name: string } | { type: 'custom', cid: CID }
+
+/**
+ * Options to pass to the merge command
+ */
+export interface MergeOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+  /**
+   * Called for every path changed by both sides in a way that cannot be
+   * merged automatically (default: throw a `MergeConflictError`)
+   */
+  onConflict(conflict: MergeConflict): MergeResolution | Promise<MergeResolution>
 
   /**
    * DAGs with a root block larger than this value will be sharded. Blocks
@@ -129,14 +818,36 @@ export interface ChmodOptions extends AbortOptions, ProgressOptions<GetEvents |
 }
 
 /**
- * Options to pass to the cp command
+ * Options to pass to the mkdir command
  */
-export interface CpOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+export interface MkdirOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+  /**
+   * The CID version to create the new directory with - defaults to the same
+   * version as the containing directory
+   */
+  cidVersion: Version
+
   /**
    * If true, allow overwriting existing directory entries (default: false)
    */
   force: boolean
 
+  /**
+   * If true, create any missing parent directories and do not fail if the
+   * directory already exists, like `mkdir -p` (default: false)
+   */
+  parents: boolean
+
+  /**
+   * An optional mode to set on the new directory
+   */
+  mode?: number
+
+  /**
+   * An optional mtime to set on the new directory
+   */
+  mtime?: Mtime
+
   /**
    * DAGs with a root block larger than this value will be sharded. Blocks
    * smaller than this value will be regular UnixFS directories.
@@ -151,24 +862,41 @@ export interface CpOptions extends AbortOptions, ProgressOptions<GetEvents | Put
 }
 
 /**
- * Options to pass to the ls command
+ * Options to pass to the mv command
  */
-export interface LsOptions extends AbortOptions, ProgressOptions<GetEvents> {
+export interface MvOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
   /**
-   * Optional path to list subdirectory contents if the target CID resolves to
-   * a directory
+   * If true, allow overwriting existing directory entries (default: false)
    */
-  path?: string
+  force: boolean
 
   /**
-   * Start reading the directory entries at this offset
+   * DAGs with a root block larger than this value will be sharded. Blocks
+   * smaller than this value will be regular UnixFS directories.
    */
-  offset?: number
+  shardSplitThresholdBytes: number
 
   /**
-   * Stop reading the directory contents after this many directory entries
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
    */
-  length?: number
+  offline?: boolean
+}
+
+/**
+ * Options to pass to the open command
+ */
+export interface OpenOptions extends AbortOptions, ProgressOptions<GetEvents> {
+  /**
+   * An optional path to allow opening files inside directories
+   */
+  path?: string
+
+  /**
+   * If true, follow any symlinks encountered while resolving the path
+   * (default: false)
+   */
+  followSymlinks?: boolean
 
   /**
    * If true, do not perform any network operations and throw if blocks are
@@ -178,30 +906,64 @@ export interface LsOptions extends AbortOptions, ProgressOptions<GetEvents> {
 }
 
 /**
- * Options to pass to the mkdir command
+ * A file that has been opened for reading at arbitrary positions. The
+ * intermediate nodes of the file DAG are cached once they have been read so
+ * each read only loads the leaves that hold the requested bytes.
  */
-export interface MkdirOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+export interface UnixFSFileHandle {
   /**
-   * The CID version to create the new directory with - defaults to the same
-   * version as the containing directory
+   * The CID of the file
    */
-  cidVersion: Version
+  readonly cid: CID
 
   /**
-   * If true, allow overwriting existing directory entries (default: false)
+   * The size of the file in bytes
    */
-  force: boolean
+  readonly size: number
 
   /**
-   * An optional mode to set on the new directory
+   * Read up to `length` bytes starting at `position`. Fewer bytes are returned
+   * if the end of the file is reached.
    */
-  mode?: number
+  read(position: number, length: number, options?: AbortOptions): Promise<Uint8Array>
 
   /**
-   * An optional mtime to set on the new directory
+   * Release the cached nodes, any further reads will throw
    */
-  mtime?: Mtime
+  close(): Promise<void>
+}
+
+/**
+ * Options to pass to the readlink command
+ */
+export interface ReadlinkOptions extends AbortOptions, ProgressOptions<GetEvents> {
+  /**
+   * An optional path to allow reading symlinks inside directories
+   */
+  path?: string
+
+  /**
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
+   */
+  offline?: boolean
+}
+
+/**
+ * Options to pass to the redirect command
+ */
+export interface RedirectOptions extends AbortOptions, ProgressOptions<GetEvents> {
+  /**
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
+   */
+  offline?: boolean
+}
 
+/**
+ * Options to pass to the rm command
+ */
+export interface RmOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
   /**
    * DAGs with a root block larger than this value will be sharded. Blocks
    * smaller than this value will be regular UnixFS directories.
@@ -216,9 +978,16 @@ export interface MkdirOptions extends AbortOptions, ProgressOptions<GetEvents |
 }
 
 /**
- * Options to pass to the rm command
+ * Either a glob pattern or a function that returns true for entries that
+ * should be removed. Paths are relative to the root directory and glob
+ * patterns without a slash are matched against the entry name at any depth.
  */
-export interface RmOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+export type RmAllMatcher = string | ((path: string, entry: UnixFSEntry) => boolean | Promise<boolean>)
+
+/**
+ * Options to pass to the rmAll command
+ */
+export interface RmAllOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
   /**
    * DAGs with a root block larger than this value will be sharded. Blocks
    * smaller than this value will be regular UnixFS directories.
@@ -241,6 +1010,19 @@ export interface StatOptions extends AbortOptions, ProgressOptions<GetEvents> {
    */
   path?: string
 
+  /**
+   * If true, follow any symlinks encountered while resolving the path
+   * (default: false)
+   */
+  followSymlinks?: boolean
+
+  /**
+   * If true, detect the MIME type of files from the extension of their name,
+   * falling back to the signature at the start of the first leaf. Pass a
+   * function to try a custom detector first. (default: false)
+   */
+  detectMimeType?: boolean | MimeTypeDetector
+
   /**
    * If true, do not perform any network operations and throw if blocks are
    * missing from the local store. (default: false)
@@ -260,70 +1042,184 @@ export interface UnixFSStats {
   /**
    * The file or directory mode
    */
-  mode?: number
+  mode?: number
+
+  /**
+   * The file or directory mtime
+   */
+  mtime?: Mtime
+
+  /**
+   * The size of the file in bytes
+   */
+  fileSize: bigint
+
+  /**
+   * The size of the DAG that holds the file in bytes
+   */
+  dagSize: bigint
+
+  /**
+   * How much of the file is in the local block store
+   */
+  localFileSize: bigint
+
+  /**
+   * How much of the DAG that holds the file is in the local blockstore
+   */
+  localDagSize: bigint
+
+  /**
+   * How many blocks make up the DAG - nb. this will only be accurate
+   * if all blocks are present in the local blockstore
+   */
+  blocks: number
+
+  /**
+   * The type of file
+   */
+  type: 'file' | 'directory' | 'raw' | 'symlink'
+
+  /**
+   * UnixFS metadata about this file or directory. Will not be present
+   * if the node is a `raw` type.
+   */
+  unixfs?: IPFSUnixFS
+
+  /**
+   * The MIME type of the file, only present when `detectMimeType` is passed and
+   * the type could be detected
+   */
+  mimeType?: string
+}
+
+/**
+ * Options to pass to the symlink command
+ */
+export interface SymlinkOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+  /**
+   * The CID version to create the symlink with (default: 1)
+   */
+  cidVersion: Version
+
+  /**
+   * If true, allow overwriting existing directory entries (default: false)
+   */
+  force: boolean
+
+  /**
+   * If true, create any missing parent directories (default: false)
+   */
+  parents: boolean
+
+  /**
+   * An optional mode to set on the symlink
+   */
+  mode?: number
+
+  /**
+   * An optional mtime to set on the symlink
+   */
+  mtime?: Mtime
+
+  /**
+   * DAGs with a root block larger than this value will be sharded. Blocks
+   * smaller than this value will be regular UnixFS directories.
+   */
+  shardSplitThresholdBytes: number
+
+  /**
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
+   */
+  offline?: boolean
+}
+
+/**
+ * Options to pass to the touch command
+ */
+export interface TouchOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+  /**
+   * Optional mtime to set on the DAG root, defaults to the current time
+   */
+  mtime?: Mtime
+
+  /**
+   * Optional path to set mtime on directory contents
+   */
+  path?: string
+
+  /**
+   * If the DAG is a directory and this is true, update the mtime on all contents
+   */
+  recursive: boolean
 
   /**
-   * The file or directory mtime
+   * DAGs with a root block larger than this value will be sharded. Blocks
+   * smaller than this value will be regular UnixFS directories.
    */
-  mtime?: Mtime
+  shardSplitThresholdBytes: number
 
   /**
-   * The size of the file in bytes
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
    */
-  fileSize: bigint
+  offline?: boolean
+}
 
+/**
+ * Options to pass to the truncate command
+ */
+export interface TruncateOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
   /**
-   * The size of the DAG that holds the file in bytes
+   * An optional path to allow truncating files inside directories
    */
-  dagSize: bigint
+  path?: string
 
   /**
-   * How much of the file is in the local block store
+   * The chunk size the file was imported with, new leaves will be this size
+   * (default: 1MiB)
    */
-  localFileSize: bigint
+  chunkSize: number
 
   /**
-   * How much of the DAG that holds the file is in the local blockstore
+   * The maximum number of children per node the file was imported with
+   * (default: 1024)
    */
-  localDagSize: bigint
+  maxChildrenPerNode: number
 
   /**
-   * How many blocks make up the DAG - nb. this will only be accurate
-   * if all blocks are present in the local blockstore
+   * If true, new leaves will be stored as raw blocks (default: true)
    */
-  blocks: number
+  rawLeaves: boolean
 
   /**
-   * The type of file
+   * DAGs with a root block larger than this value will be sharded. Blocks
+   * smaller than this value will be regular UnixFS directories.
    */
-  type: 'file' | 'directory' | 'raw'
+  shardSplitThresholdBytes: number
 
   /**
-   * UnixFS metadata about this file or directory. Will not be present
-   * if the node is a `raw` type.
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
    */
-  unixfs?: IPFSUnixFS
+  offline?: boolean
 }
 
 /**
- * Options to pass to the touch command
+ * Options to pass to the write command
  */
-export interface TouchOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
+export interface WriteOptions extends AbortOptions, ProgressOptions<GetEvents | PutBlockProgressEvents> {
   /**
-   * Optional mtime to set on the DAG root, defaults to the current time
+   * Start writing the bytes at this offset within the file (default: 0)
    */
-  mtime?: Mtime
+  offset: number
 
   /**
-   * Optional path to set mtime on directory contents
+   * An optional path to allow writing to files inside directories
    */
   path?: string
 
-  /**
-   * If the DAG is a directory and this is true, update the mtime on all contents
-   */
-  recursive: boolean
-
   /**
    * DAGs with a root block larger than this value will be sharded. Blocks
    * smaller than this value will be regular UnixFS directories.
@@ -363,7 +1259,7 @@ export interface UnixFS {
    * }
    * ```
    */
-  addAll(source: ImportCandidateStream, options?: Partial<AddOptions>): AsyncIterable<ImportResult>
+  addAll(source: AddCandidateStream, options?: Partial<AddOptions>): AsyncIterable<ImportResult>
 
   /**
    * Add a single `Uint8Array` to your Helia node as a file.
@@ -379,7 +1275,8 @@ export interface UnixFS {
   addBytes(bytes: Uint8Array, options?: Partial<AddOptions>): Promise<CID>
 
   /**
-   * Add a stream of `Uint8Array` to your Helia node as a file.
+   * Add a stream of `Uint8Array` to your Helia node as a file. The stream can
+   * also be a WHATWG `ReadableStream` such as the body of a `fetch` response.
    *
    * @example
    *
@@ -392,7 +1289,7 @@ export interface UnixFS {
    * console.info(cid)
    * ```
    */
-  addByteStream(bytes: ByteStream, options?: Partial<AddOptions>): Promise<CID>
+  addByteStream(bytes: ByteStream | ReadableStream<Uint8Array>, options?: Partial<AddOptions>): Promise<CID>
 
   /**
    * Add a file to your Helia node with optional metadata.
@@ -428,6 +1325,52 @@ export interface UnixFS {
    */
   addDirectory(dir?: Partial<DirectoryCandidate>, options?: Partial<AddOptions>): Promise<CID>
 
+  /**
+   * Append a stream of `Uint8Array`s to an existing file. Only the final leaf
+   * and the right-most edge of the DAG are rewritten so the cost is
+   * proportional to the amount of data appended, not the size of the file.
+   *
+   * The file must have been created with the `balanced` layout and the same
+   * `chunkSize`, `maxChildrenPerNode` and `rawLeaves` settings, in which case
+   * the resulting CID will be the same as if the combined content had been
+   * imported in one go.
+   *
+   * @example
+   *
+   * ```typescript
+   * const beforeCid = await fs.addBytes(Uint8Array.from([0, 1, 2, 3]))
+   *
+   * const afterCid = await fs.append(beforeCid, [Uint8Array.from([4, 5, 6, 7])])
+   *
+   * console.info(afterCid) // same as fs.addBytes(Uint8Array.from([0, 1, 2, 3, 4, 5, 6, 7]))
+   * ```
+   */
+  append(cid: CID, source: ByteStream, options?: Partial<AppendOptions>): Promise<CID>
+
+  /**
+   * Start a batch of changes to a directory. Operations on the batch are held
+   * in memory and only the final version of each changed directory is written
+   * when the batch is committed, which makes it practical to build very large
+   * directories.
+   *
+   * @example
+   *
+   * ```typescript
+   * const batch = fs.batch(directoryCid)
+   *
+   * for (let i = 0; i < 50000; i++) {
+   *   await batch.cp(fileCid, `files/file-${i}.txt`, {
+   *     parents: true
+   *   })
+   * }
+   *
+   * await batch.rm('old-file.txt')
+   *
+   * const updatedCid = await batch.commit()
+   * ```
+   */
+  batch(root: CID, options?: Partial<BatchOptions>): UnixFSBatch
+
   /**
    * Retrieve the contents of a file from your Helia node.
    *
@@ -460,7 +1403,8 @@ export interface UnixFS {
   chmod(cid: CID, mode: number, options?: Partial<ChmodOptions>): Promise<CID>
 
   /**
-   * Add a file or directory to a target directory.
+   * Add a file or directory to a target directory. The name can be a path
+   * to add the file or directory to a subdirectory of the target.
    *
    * @example
    *
@@ -471,10 +1415,106 @@ export interface UnixFS {
    * const updatedCid = await fs.cp(fileCid, directoryCid, 'foo.txt')
    *
    * console.info(updatedCid)
+   *
+   * // create any missing directories on the way
+   * const nestedCid = await fs.cp(fileCid, directoryCid, 'bar/baz/foo.txt', {
+   *   parents: true
+   * })
    * ```
    */
   cp(source: CID, target: CID, name: string, options?: Partial<CpOptions>): Promise<CID>
 
+  /**
+   * Compare two versions of a DAG, yielding an entry for every file or
+   * directory that was added, removed or modified. Subtrees with the same CID
+   * on both sides are skipped and sharded directories are compared bucket by
+   * bucket. Added or removed directories are reported as a single entry.
+   *
+   * @example
+   *
+   * ```typescript
+   * for await (const entry of fs.diff(oldCid, newCid)) {
+   *   console.info(entry.type, entry.path)
+   * }
+   * ```
+   */
+  diff(oldCid: CID, newCid: CID, options?: Partial<DiffOptions>): AsyncIterable<DiffEntry>
+
+  /**
+   * Export a DAG as a CARv1 file with the passed CID as the root. Only the
+   * blocks needed to resolve the path and the DAG at the end of it are
+   * included, or if an offset or length is passed, only the blocks needed to
+   * read that part of a file. Blocks are written in depth-first order so the
+   * output can be verified as it is streamed.
+   *
+   * @example
+   *
+   * ```typescript
+   * for await (const buf of fs.exportCar(cid, {
+   *   path: 'photos/a.jpg',
+   *   offset: 1024,
+   *   length: 1024
+   * })) {
+   *   console.info(buf)
+   * }
+   * ```
+   */
+  exportCar(cid: CID, options?: Partial<ExportCarOptions>): AsyncIterable<Uint8Array>
+
+  /**
+   * Export a file or directory tree as a POSIX tar archive. The contents of a
+   * directory are written at the top level of the archive and the mode, mtime
+   * and symlinks of each entry are restored from the UnixFS metadata.
+   *
+   * @example
+   *
+   * ```typescript
+   * import { createWriteStream } from 'node:fs'
+   * import { pipeline } from 'node:stream/promises'
+   *
+   * await pipeline(fs.exportTar(cid), createWriteStream('./dir.tar'))
+   * ```
+   */
+  exportTar(cid: CID, options?: Partial<ExportTarOptions>): AsyncIterable<Uint8Array>
+
+  /**
+   * Export a file or directory tree as a zip file. The contents of a directory
+   * are written at the top level of the archive and the mode, mtime and
+   * symlinks of each entry are restored from the UnixFS metadata.
+   *
+   * @example
+   *
+   * ```typescript
+   * import { createWriteStream } from 'node:fs'
+   * import { pipeline } from 'node:stream/promises'
+   *
+   * await pipeline(fs.exportZip(cid, {
+   *   compression: 'store'
+   * }), createWriteStream('./dir.zip'))
+   * ```
+   */
+  exportZip(cid: CID, options?: Partial<ExportZipOptions>): AsyncIterable<Uint8Array>
+
+  /**
+   * Import the blocks from a CARv1 file. Every block is checked against its
+   * CID as it is read and each root must be a UnixFS node. Blocks are held in
+   * memory until the whole CAR file has been checked, so nothing is written to
+   * the blockstore if it is rejected.
+   *
+   * @example
+   *
+   * ```typescript
+   * import { createReadStream } from 'node:fs'
+   *
+   * const result = await fs.importCar(createReadStream('./file.car'))
+   *
+   * for (const root of result.roots) {
+   *   console.info(root.cid, root.type)
+   * }
+   * ```
+   */
+  importCar(source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>, options?: Partial<ImportCarOptions>): Promise<ImportCarResult>
+
   /**
    * List directory contents.
    *
@@ -486,10 +1526,31 @@ export interface UnixFS {
    * }
    * ```
    */
-  ls(cid: CID, options?: Partial<LsOptions>): AsyncIterable<UnixFSEntry>
+  ls(cid: CID, options?: Partial<LsOptions>): AsyncIterable<UnixFSListEntry>
+
+  /**
+   * Merge the changes made to a base DAG by two writers. Changes made by only
+   * one side are applied automatically and directories changed by both sides
+   * are merged recursively. Any other entry changed by both sides is passed to
+   * the `onConflict` option to resolve.
+   *
+   * @example
+   *
+   * ```typescript
+   * const mergedCid = await fs.merge(baseCid, ourCid, theirCid, {
+   *   onConflict: (conflict) => {
+   *     return { type: 'rename', name: `${conflict.path.split('/').pop()}.theirs` }
+   *   }
+   * })
+   *
+   * console.info(mergedCid)
+   * ```
+   */
+  merge(base: CID, ours: CID, theirs: CID, options?: Partial<MergeOptions>): Promise<CID>
 
   /**
-   * Make a new directory under an existing directory.
+   * Make a new directory under an existing directory. The directory name can
+   * be a path to create the new directory in a subdirectory.
    *
    * @example
    *
@@ -499,12 +1560,97 @@ export interface UnixFS {
    * const updatedCid = await fs.mkdir(directoryCid, 'new-dir')
    *
    * console.info(updatedCid)
+   *
+   * // create any missing directories on the way
+   * const nestedCid = await fs.mkdir(directoryCid, 'foo/bar/baz', {
+   *   parents: true
+   * })
    * ```
    */
   mkdir(cid: CID, dirname: string, options?: Partial<MkdirOptions>): Promise<CID>
 
   /**
-   * Remove a file or directory from an existing directory.
+   * Move or rename a file or directory under a root directory. Both paths are
+   * relative to the root and the destination may be in a different
+   * subdirectory to the source. Only directories between the root and the
+   * changed entries are rewritten.
+   *
+   * @example
+   *
+   * ```typescript
+   * const fileCid = await fs.addBytes(Uint8Array.from([0, 1, 2, 3]))
+   * const directoryCid = await fs.addDirectory()
+   * const withFileCid = await fs.cp(fileCid, directoryCid, 'foo.txt')
+   *
+   * const updatedCid = await fs.mv(withFileCid, 'foo.txt', 'bar.txt')
+   *
+   * console.info(updatedCid)
+   * ```
+   */
+  mv(root: CID, from: string, to: string, options?: Partial<MvOptions>): Promise<CID>
+
+  /**
+   * Open a file to read bytes from any position without walking the file DAG
+   * from the root each time. The path can point to a file in a subdirectory.
+   *
+   * @example
+   *
+   * ```typescript
+   * const handle = await fs.open(cid, {
+   *   path: 'video.mp4'
+   * })
+   *
+   * try {
+   *   const bytes = await handle.read(handle.size - 1024, 1024)
+   *
+   *   console.info(bytes)
+   * } finally {
+   *   await handle.close()
+   * }
+   * ```
+   */
+  open(cid: CID, options?: Partial<OpenOptions>): Promise<UnixFSFileHandle>
+
+  /**
+   * Return the target of a symlink. The path can point to a symlink in a
+   * subdirectory.
+   *
+   * @example
+   *
+   * ```typescript
+   * const directoryCid = await fs.addDirectory()
+   * const updatedCid = await fs.symlink(directoryCid, 'link', 'target.txt')
+   *
+   * console.info(await fs.readlink(updatedCid, {
+   *   path: 'link'
+   * })) // 'target.txt'
+   * ```
+   */
+  readlink(cid: CID, options?: Partial<ReadlinkOptions>): Promise<string>
+
+  /**
+   * Resolve a path that does not exist in a website DAG against the
+   * `_redirects` file in its root directory. Returns the first matching rule
+   * with any placeholders replaced, falling back to a 404 that serves
+   * `/404.html` if the root has one, otherwise `undefined`.
+   *
+   * @example
+   *
+   * ```typescript
+   * import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+   *
+   * const rules = await fs.addBytes(uint8ArrayFromString('/blog/:year/* /posts/:year/:splat 301'))
+   * const siteCid = await fs.cp(rules, await fs.addDirectory(), '_redirects')
+   *
+   * console.info(await fs.redirect(siteCid, '/blog/2024/hello.html'))
+   * // { location: '/posts/2024/hello.html', status: 301 }
+   * ```
+   */
+  redirect(cid: CID, path: string, options?: Partial<RedirectOptions>): Promise<Redirect | undefined>
+
+  /**
+   * Remove a file or directory from an existing directory. The path can
+   * point to an entry in a subdirectory.
    *
    * @example
    *
@@ -519,6 +1665,24 @@ export interface UnixFS {
    */
   rm(cid: CID, path: string, options?: Partial<RmOptions>): Promise<CID>
 
+  /**
+   * Remove every file or directory below a root directory that matches a glob
+   * pattern or filter function. Matching directories are removed along with
+   * their contents and each affected directory is only rewritten once.
+   *
+   * @example
+   *
+   * ```typescript
+   * const finalCid = await fs.rmAll(siteCid, '*.map')
+   *
+   * // or use a filter function
+   * const prunedCid = await fs.rmAll(siteCid, (path, entry) => {
+   *   return entry.type === 'directory' && entry.name === 'node_modules'
+   * })
+   * ```
+   */
+  rmAll(root: CID, matcher: RmAllMatcher, options?: Partial<RmAllOptions>): Promise<CID>
+
   /**
    * Return statistics about a UnixFS DAG.
    *
@@ -534,6 +1698,23 @@ export interface UnixFS {
    */
   stat(cid: CID, options?: Partial<StatOptions>): Promise<UnixFSStats>
 
+  /**
+   * Create a symlink under an existing directory that points to `target`.
+   * The name can be a path to create the symlink in a subdirectory. Relative
+   * targets are resolved from the directory containing the symlink.
+   *
+   * @example
+   *
+   * ```typescript
+   * const directoryCid = await fs.addDirectory()
+   *
+   * const updatedCid = await fs.symlink(directoryCid, 'link', 'target.txt')
+   *
+   * console.info(updatedCid)
+   * ```
+   */
+  symlink(cid: CID, name: string, target: string, options?: Partial<SymlinkOptions>): Promise<CID>
+
   /**
    * Update the mtime of a UnixFS DAG
    *
@@ -551,6 +1732,48 @@ export interface UnixFS {
    * ```
    */
   touch(cid: CID, options?: Partial<TouchOptions>): Promise<CID>
+
+  /**
+   * Shrink or extend a file to exactly `size` bytes, like POSIX `truncate`.
+   *
+   * Shrinking drops any leaves after the new end of the file and trims the
+   * final leaf, extending it adds leaves full of zeros. The mode and mtime of
+   * the file are preserved.
+   *
+   * As with `append`, the file must have been created with the `balanced`
+   * layout and the same `chunkSize`, `maxChildrenPerNode` and `rawLeaves`
+   * settings.
+   *
+   * @example
+   *
+   * ```typescript
+   * const beforeCid = await fs.addBytes(Uint8Array.from([0, 1, 2, 3]))
+   *
+   * const afterCid = await fs.truncate(beforeCid, 2)
+   *
+   * console.info(afterCid) // contents are now [0, 1]
+   * ```
+   */
+  truncate(cid: CID, size: number, options?: Partial<TruncateOptions>): Promise<CID>
+
+  /**
+   * Overwrite part of an existing file. Only the leaves and intermediate
+   * nodes that hold the overwritten bytes are replaced, the rest of the DAG
+   * is reused as-is.
+   *
+   * @example
+   *
+   * ```typescript
+   * const beforeCid = await fs.addBytes(Uint8Array.from([0, 1, 2, 3]))
+   *
+   * const afterCid = await fs.write(beforeCid, Uint8Array.from([4, 5]), {
+   *   offset: 1
+   * })
+   *
+   * console.info(afterCid) // contents are now [0, 4, 5, 3]
+   * ```
+   */
+  write(cid: CID, bytes: Uint8Array, options?: Partial<WriteOptions>): Promise<CID>
 }
 
 class DefaultUnixFS implements UnixFS {
@@ -560,7 +1783,7 @@ class DefaultUnixFS implements UnixFS {
     this.components = components
   }
 
-  async * addAll (source: ImportCandidateStream, options: Partial<AddOptions> = {}): AsyncIterable<ImportResult> {
+  async * addAll (source: AddCandidateStream, options: Partial<AddOptions> = {}): AsyncIterable<ImportResult> {
     yield * addAll(source, this.components.blockstore, options)
   }
 
@@ -568,7 +1791,7 @@ class DefaultUnixFS implements UnixFS {
     return addBytes(bytes, this.components.blockstore, options)
   }
 
-  async addByteStream (bytes: ByteStream, options: Partial<AddOptions> = {}): Promise<CID> {
+  async addByteStream (bytes: ByteStream | ReadableStream<Uint8Array>, options: Partial<AddOptions> = {}): Promise<CID> {
     return addByteStream(bytes, this.components.blockstore, options)
   }
 
@@ -580,6 +1803,14 @@ class DefaultUnixFS implements UnixFS {
     return addDirectory(dir, this.components.blockstore, options)
   }
 
+  async append (cid: CID, source: ByteStream, options: Partial<AppendOptions> = {}): Promise<CID> {
+    return append(cid, source, this.components.blockstore, options)
+  }
+
+  batch (root: CID, options: Partial<BatchOptions> = {}): UnixFSBatch {
+    return batch(root, this.components.blockstore, options)
+  }
+
   async * cat (cid: CID, options: Partial<CatOptions> = {}): AsyncIterable<Uint8Array> {
     yield * cat(cid, this.components.blockstore, options)
   }
@@ -592,25 +1823,81 @@ class DefaultUnixFS implements UnixFS {
     return cp(source, target, name, this.components.blockstore, options)
   }
 
-  async * ls (cid: CID, options: Partial<LsOptions> = {}): AsyncIterable<UnixFSEntry> {
+  async * diff (oldCid: CID, newCid: CID, options: Partial<DiffOptions> = {}): AsyncIterable<DiffEntry> {
+    yield * diff(oldCid, newCid, this.components.blockstore, options)
+  }
+
+  async * exportCar (cid: CID, options: Partial<ExportCarOptions> = {}): AsyncIterable<Uint8Array> {
+    yield * exportCar(cid, this.components.blockstore, options)
+  }
+
+  async * exportTar (cid: CID, options: Partial<ExportTarOptions> = {}): AsyncIterable<Uint8Array> {
+    yield * exportTar(cid, this.components.blockstore, options)
+  }
+
+  async * exportZip (cid: CID, options: Partial<ExportZipOptions> = {}): AsyncIterable<Uint8Array> {
+    yield * exportZip(cid, this.components.blockstore, options)
+  }
+
+  async importCar (source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>, options: Partial<ImportCarOptions> = {}): Promise<ImportCarResult> {
+    return importCar(source, this.components.blockstore, options)
+  }
+
+  async * ls (cid: CID, options: Partial<LsOptions> = {}): AsyncIterable<UnixFSListEntry> {
     yield * ls(cid, this.components.blockstore, options)
   }
 
+  async merge (base: CID, ours: CID, theirs: CID, options: Partial<MergeOptions> = {}): Promise<CID> {
+    return merge(base, ours, theirs, this.components.blockstore, options)
+  }
+
   async mkdir (cid: CID, dirname: string, options: Partial<MkdirOptions> = {}): Promise<CID> {
     return mkdir(cid, dirname, this.components.blockstore, options)
   }
 
+  async mv (root: CID, from: string, to: string, options: Partial<MvOptions> = {}): Promise<CID> {
+    return mv(root, from, to, this.components.blockstore, options)
+  }
+
+  async open (cid: CID, options: Partial<OpenOptions> = {}): Promise<UnixFSFileHandle> {
+    return open(cid, this.components.blockstore, options)
+  }
+
+  async readlink (cid: CID, options: Partial<ReadlinkOptions> = {}): Promise<string> {
+    return readlink(cid, this.components.blockstore, options)
+  }
+
+  async redirect (cid: CID, path: string, options: Partial<RedirectOptions> = {}): Promise<Redirect | undefined> {
+    return redirect(cid, path, this.components.blockstore, options)
+  }
+
   async rm (cid: CID, path: string, options: Partial<RmOptions> = {}): Promise<CID> {
     return rm(cid, path, this.components.blockstore, options)
   }
 
+  async rmAll (root: CID, matcher: RmAllMatcher, options: Partial<RmAllOptions> = {}): Promise<CID> {
+    return rmAll(root, matcher, this.components.blockstore, options)
+  }
+
   async stat (cid: CID, options: Partial<StatOptions> = {}): Promise<UnixFSStats> {
     return stat(cid, this.components.blockstore, options)
   }
 
+  async symlink (cid: CID, name: string, target: string, options: Partial<SymlinkOptions> = {}): Promise<CID> {
+    return symlink(cid, name, target, this.components.blockstore, options)
+  }
+
   async touch (cid: CID, options: Partial<TouchOptions> = {}): Promise<CID> {
     return touch(cid, this.components.blockstore, options)
   }
+
+  async truncate (cid: CID, size: number, options: Partial<TruncateOptions> = {}): Promise<CID> {
+    return truncate(cid, size, this.components.blockstore, options)
+  }
+
+  async write (cid: CID, bytes: Uint8Array, options: Partial<WriteOptions> = {}): Promise<CID> {
+    return write(cid, bytes, this.components.blockstore, options)
+  }
 }
 
 /**
@@ -620,5 +1907,21 @@ export function unixfs (helia: { blockstore: Blocks }): UnixFS {
   return new DefaultUnixFS(helia)
 }
 
+export { matchRedirects, parseRedirects } from './commands/utils/redirects.js'
+export type { Redirect, RedirectRule, RedirectStatus } from './commands/utils/redirects.js'
+export { createGatewayHandler } from './gateway.js'
+export type { GatewayHandler, GatewayHandlerInit } from './gateway.js'
+export { mfs } from './mfs.js'
+export type { MFS, MFSComponents, MFSInit, MFSMutationOptions } from './mfs.js'
+export { carBlockstore } from './utils/car-blockstore.js'
+export type { CarBlockstore } from './utils/car-blockstore.js'
+export { dataTransferSource } from './utils/data-transfer-source.js'
+export { directoryHandleSource } from './utils/directory-handle-source.js'
+export { exportToDisk } from './utils/export-to-disk.js'
+export type { ExportToDiskOptions } from './utils/export-to-disk.js'
+export { fileSource } from './utils/file-source.js'
 export { globSource } from './utils/glob-source.js'
-export { urlSource } from './utils/url-source.js'
+export { tarSource } from './utils/tar-source.js'
+export { fetchUrlSource, urlSource } from './utils/url-source.js'
+export type { UrlSourceOptions, UrlSourceProgress, UrlSourceProgressEvents, UrlSourceRetry } from './utils/url-source.js'
+export { zipSource } from './utils/zip-source.js'
@@ -0,0 +1,327 @@
+import { logger } from '@libp2p/logger'
+import { Key } from 'interface-datastore'
+import { CID } from 'multiformats/cid'
+import { addDirectory } from './commands/add.js'
+import { cat } from './commands/cat.js'
+import { chmod } from './commands/chmod.js'
+import { cp } from './commands/cp.js'
+import { ls } from './commands/ls.js'
+import { mkdir } from './commands/mkdir.js'
+import { mv } from './commands/mv.js'
+import { rm } from './commands/rm.js'
+import { stat } from './commands/stat.js'
+import { touch } from './commands/touch.js'
+import { InvalidParametersError, RootChangedError } from './errors.js'
+import type { CatOptions, ChmodOptions, CpOptions, LsOptions, MkdirOptions, MvOptions, RmOptions, StatOptions, TouchOptions, UnixFSListEntry, UnixFSStats } from './index.js'
+import type { Blocks } from '@helia/interface/blocks'
+import type { AbortOptions } from '@libp2p/interface'
+import type { Datastore } from 'interface-datastore'
+
+const log = logger('helia:unixfs:mfs')
+
+const DEFAULT_ROOT_KEY = '/locals/filesroot'
+
+export interface MFSComponents {
+  blockstore: Blocks
+  datastore: Datastore
+}
+
+export interface MFSInit {
+  /**
+   * The datastore key the CID of the root directory is stored under
+   * (default: '/locals/filesroot')
+   */
+  key?: string
+}
+
+export interface MFSMutationOptions {
+  /**
+   * If set, the change is only made if the current root is this CID, otherwise
+   * a RootChangedError is thrown. Use this to avoid overwriting changes made
+   * since the root was last read.
+   */
+  expectedRoot?: CID
+}
+
+/**
+ * A mutable filesystem that operates on absolute paths, like `ipfs files`.
+ *
+ * The CID of the root directory is stored in the datastore and replaced after
+ * every change. Changes are applied one at a time so concurrent calls do not
+ * overwrite each other.
+ */
+export interface MFS {
+  /**
+   * Return the CID of the current root directory, creating an empty root
+   * directory if one does not exist yet
+   *
+   * @example
+   *
+   * ```typescript
+   * const root = await fs.root()
+   * ```
+   */
+  root(options?: AbortOptions): Promise<CID>
+
+  /**
+   * Retrieve the contents of the file at the passed path
+   *
+   * @example
+   *
+   * ```typescript
+   * for await (const buf of fs.cat('/photos/2026/a.jpg')) {
+   *   console.info(buf)
+   * }
+   * ```
+   */
+  cat(path: string, options?: Partial<Omit<CatOptions, 'path'>>): AsyncIterable<Uint8Array>
+
+  /**
+   * Change the permissions of the file or directory at the passed path,
+   * returning the new root CID
+   *
+   * @example
+   *
+   * ```typescript
+   * await fs.chmod('/photos', 0o755)
+   * ```
+   */
+  chmod(path: string, mode: number, options?: Partial<Omit<ChmodOptions, 'path'>> & MFSMutationOptions): Promise<CID>
+
+  /**
+   * Add a file or directory at the passed path, returning the new root CID
+   *
+   * @example
+   *
+   * ```typescript
+   * const fileCid = await unixfs(helia).addBytes(Uint8Array.from([0, 1, 2, 3]))
+   *
+   * await fs.cp(fileCid, '/photos/2026/a.jpg', {
+   *   parents: true
+   * })
+   * ```
+   */
+  cp(source: CID, path: string, options?: Partial<CpOptions> & MFSMutationOptions): Promise<CID>
+
+  /**
+   * List the contents of the directory at the passed path
+   *
+   * @example
+   *
+   * ```typescript
+   * for await (const entry of fs.ls('/photos')) {
+   *   console.info(entry)
+   * }
+   * ```
+   */
+  ls(path: string, options?: Partial<Omit<LsOptions, 'path'>>): AsyncIterable<UnixFSListEntry>
+
+  /**
+   * Create a directory at the passed path, returning the new root CID
+   *
+   * @example
+   *
+   * ```typescript
+   * await fs.mkdir('/photos/2026', {
+   *   parents: true
+   * })
+   * ```
+   */
+  mkdir(path: string, options?: Partial<MkdirOptions> & MFSMutationOptions): Promise<CID>
+
+  /**
+   * Move or rename a file or directory, returning the new root CID
+   *
+   * @example
+   *
+   * ```typescript
+   * await fs.mv('/photos/2026/a.jpg', '/photos/2026/b.jpg')
+   * ```
+   */
+  mv(from: string, to: string, options?: Partial<MvOptions> & MFSMutationOptions): Promise<CID>
+
+  /**
+   * Remove the file or directory at the passed path, returning the new root
+   * CID
+   *
+   * @example
+   *
+   * ```typescript
+   * await fs.rm('/photos/2026/a.jpg')
+   * ```
+   */
+  rm(path: string, options?: Partial<RmOptions> & MFSMutationOptions): Promise<CID>
+
+  /**
+   * Return statistics about the file or directory at the passed path
+   *
+   * @example
+   *
+   * ```typescript
+   * const stats = await fs.stat('/photos/2026/a.jpg')
+   * ```
+   */
+  stat(path: string, options?: Partial<Omit<StatOptions, 'path'>>): Promise<UnixFSStats>
+
+  /**
+   * Update the mtime of the file or directory at the passed path, returning
+   * the new root CID
+   *
+   * @example
+   *
+   * ```typescript
+   * await fs.touch('/photos/2026/a.jpg')
+   * ```
+   */
+  touch(path: string, options?: Partial<Omit<TouchOptions, 'path'>> & MFSMutationOptions): Promise<CID>
+}
+
+class DefaultMFS implements MFS {
+  private readonly components: MFSComponents
+  private readonly key: Key
+  private queue: Promise<unknown>
+
+  constructor (components: MFSComponents, init: MFSInit = {}) {
+    this.components = components
+    this.key = new Key(init.key ?? DEFAULT_ROOT_KEY)
+    this.queue = Promise.resolve()
+  }
+
+  async root (options: AbortOptions = {}): Promise<CID> {
+    // wait for any pending changes
+    return this.enqueue(async () => this.loadRoot(options))
+  }
+
+  async * cat (path: string, options: Partial<Omit<CatOptions, 'path'>> = {}): AsyncIterable<Uint8Array> {
+    yield * cat(await this.root(options), this.components.blockstore, {
+      ...options,
+      path: toRelativePath(path)
+    })
+  }
+
+  async chmod (path: string, mode: number, options: Partial<Omit<ChmodOptions, 'path'>> & MFSMutationOptions = {}): Promise<CID> {
+    const relativePath = toRelativePath(path)
+
+    return this.mutate(async (root) => chmod(root, mode, this.components.blockstore, {
+      ...options,
+      path: relativePath
+    }), options)
+  }
+
+  async cp (source: CID, path: string, options: Partial<CpOptions> & MFSMutationOptions = {}): Promise<CID> {
+    const relativePath = toRelativePath(path)
+
+    return this.mutate(async (root) => cp(source, root, relativePath, this.components.blockstore, options), options)
+  }
+
+  async * ls (path: string, options: Partial<Omit<LsOptions, 'path'>> = {}): AsyncIterable<UnixFSListEntry> {
+    yield * ls(await this.root(options), this.components.blockstore, {
+      ...options,
+      path: toRelativePath(path)
+    })
+  }
+
+  async mkdir (path: string, options: Partial<MkdirOptions> & MFSMutationOptions = {}): Promise<CID> {
+    const relativePath = toRelativePath(path)
+
+    return this.mutate(async (root) => mkdir(root, relativePath, this.components.blockstore, options), options)
+  }
+
+  async mv (from: string, to: string, options: Partial<MvOptions> & MFSMutationOptions = {}): Promise<CID> {
+    const relativeFrom = toRelativePath(from)
+    const relativeTo = toRelativePath(to)
+
+    return this.mutate(async (root) => mv(root, relativeFrom, relativeTo, this.components.blockstore, options), options)
+  }
+
+  async rm (path: string, options: Partial<RmOptions> & MFSMutationOptions = {}): Promise<CID> {
+    const relativePath = toRelativePath(path)
+
+    return this.mutate(async (root) => rm(root, relativePath, this.components.blockstore, options), options)
+  }
+
+  async stat (path: string, options: Partial<Omit<StatOptions, 'path'>> = {}): Promise<UnixFSStats> {
+    return stat(await this.root(options), this.components.blockstore, {
+      ...options,
+      path: toRelativePath(path)
+    })
+  }
+
+  async touch (path: string, options: Partial<Omit<TouchOptions, 'path'>> & MFSMutationOptions = {}): Promise<CID> {
+    const relativePath = toRelativePath(path)
+
+    return this.mutate(async (root) => touch(root, this.components.blockstore, {
+      ...options,
+      path: relativePath
+    }), options)
+  }
+
+  /**
+   * Changes are applied one at a time so each one starts from the root written
+   * by the previous one
+   */
+  private async enqueue <T> (fn: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(fn)
+
+    this.queue = result.catch(() => {})
+
+    return result
+  }
+
+  private async mutate (fn: (root: CID) => Promise<CID>, options: AbortOptions & MFSMutationOptions): Promise<CID> {
+    return this.enqueue(async () => {
+      const root = await this.loadRoot(options)
+
+      if (options.expectedRoot != null && !options.expectedRoot.equals(root)) {
+        throw new RootChangedError(`The root was not ${options.expectedRoot.toString()}`)
+      }
+
+      const updated = await fn(root)
+
+      if (!updated.equals(root)) {
+        log('updating root from %c to %c', root, updated)
+
+        await this.components.datastore.put(this.key, updated.bytes, options)
+      }
+
+      return updated
+    })
+  }
+
+  /**
+   * Read the root CID from the datastore, creating an empty directory as the
+   * root if there is not one yet
+   */
+  private async loadRoot (options: AbortOptions): Promise<CID> {
+    if (await this.components.datastore.has(this.key, options)) {
+      return CID.decode(await this.components.datastore.get(this.key, options))
+    }
+
+    const root = await addDirectory({}, this.components.blockstore)
+
+    log('created root %c', root)
+
+    await this.components.datastore.put(this.key, root.bytes, options)
+
+    return root
+  }
+}
+
+/**
+ * MFS paths are absolute, the UnixFS commands expect paths relative to the
+ * root directory
+ */
+function toRelativePath (path: string): string {
+  if (!path.startsWith('/')) {
+    throw new InvalidParametersError('MFS paths must start with /')
+  }
+
+  return path.split('/').filter(Boolean).join('/')
+}
+
+/**
+ * Create a {@link MFS} instance for use with {@link https://github.com/ipfs/helia Helia}
+ */
+export function mfs (helia: { blockstore: Blocks, datastore: Datastore }, init: MFSInit = {}): MFS {
+  return new DefaultMFS(helia, init)
+}
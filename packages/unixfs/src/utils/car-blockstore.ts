@@ -0,0 +1,195 @@
+import fs from 'fs'
+import fsp from 'fs/promises'
+import { CarIndexer } from '@ipld/car'
+import { logger } from '@libp2p/logger'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
+import { DoesNotExistError, ReadOnlyError } from '../errors.js'
+import type { Blocks, Pair } from '@helia/interface/blocks'
+import type { AbortOptions } from '@libp2p/interface'
+import type { CID } from 'multiformats/cid'
+
+const log = logger('helia:unixfs:car-blockstore')
+
+/**
+ * A read-only blockstore that loads blocks from a CAR file on disk
+ */
+export interface CarBlockstore extends Blocks {
+  /**
+   * The roots listed in the header of the CAR file
+   */
+  roots(): Promise<CID[]>
+
+  /**
+   * Close the CAR file
+   */
+  close(): Promise<void>
+}
+
+interface BlockLocation {
+  cid: CID
+  offset: number
+  length: number
+}
+
+interface CarIndex {
+  roots: CID[]
+  blocks: Map<string, BlockLocation>
+}
+
+class DefaultCarBlockstore implements CarBlockstore {
+  private readonly path: string
+  private index?: Promise<CarIndex>
+  private file?: Promise<fsp.FileHandle>
+
+  constructor (path: string) {
+    this.path = path
+  }
+
+  async roots (): Promise<CID[]> {
+    const index = await this.getIndex()
+
+    return index.roots
+  }
+
+  async close (): Promise<void> {
+    const file = this.file
+    this.file = undefined
+
+    if (file != null) {
+      await (await file).close()
+    }
+  }
+
+  async has (cid: CID): Promise<boolean> {
+    const index = await this.getIndex()
+
+    return index.blocks.has(toKey(cid))
+  }
+
+  async get (cid: CID, options: AbortOptions = {}): Promise<Uint8Array> {
+    const index = await this.getIndex()
+    const location = index.blocks.get(toKey(cid))
+
+    if (location == null) {
+      throw new DoesNotExistError(`Block ${cid.toString()} was not in the CAR file`)
+    }
+
+    options.signal?.throwIfAborted()
+
+    return this.read(location)
+  }
+
+  async * getMany (source: AsyncIterable<CID> | Iterable<CID>, options: AbortOptions = {}): AsyncGenerator<Pair> {
+    for await (const cid of source) {
+      yield {
+        cid,
+        block: await this.get(cid, options)
+      }
+    }
+  }
+
+  async * getAll (options: AbortOptions = {}): AsyncGenerator<Pair> {
+    const index = await this.getIndex()
+
+    for (const location of index.blocks.values()) {
+      options.signal?.throwIfAborted()
+
+      yield {
+        cid: location.cid,
+        block: await this.read(location)
+      }
+    }
+  }
+
+  async put (cid: CID, block: Uint8Array): Promise<CID> {
+    throw new ReadOnlyError(`Cannot write block ${cid.toString()} to a read-only CAR file blockstore`)
+  }
+
+  async * putMany (source: AsyncIterable<Pair> | Iterable<Pair>): AsyncGenerator<CID> {
+    for await (const { cid, block } of source) {
+      yield this.put(cid, block)
+    }
+  }
+
+  async delete (cid: CID): Promise<void> {
+    throw new ReadOnlyError(`Cannot delete block ${cid.toString()} from a read-only CAR file blockstore`)
+  }
+
+  async * deleteMany (source: AsyncIterable<CID> | Iterable<CID>): AsyncGenerator<CID> {
+    for await (const cid of source) {
+      await this.delete(cid)
+      yield cid
+    }
+  }
+
+  /**
+   * Read the CAR file once to find where each block is, later reads use the
+   * cached index to load blocks directly from the file
+   */
+  private async getIndex (): Promise<CarIndex> {
+    if (this.index == null) {
+      this.index = createIndex(this.path)
+
+      // allow trying again if the file could not be read
+      this.index.catch(() => {
+        this.index = undefined
+      })
+    }
+
+    return this.index
+  }
+
+  private async read (location: BlockLocation): Promise<Uint8Array> {
+    this.file ??= fsp.open(this.path, 'r')
+
+    const file = await this.file
+    const block = new Uint8Array(location.length)
+    const { bytesRead } = await file.read(block, 0, location.length, location.offset)
+
+    if (bytesRead !== location.length) {
+      throw new DoesNotExistError(`Block ${location.cid.toString()} was truncated in the CAR file`)
+    }
+
+    return block
+  }
+}
+
+async function createIndex (path: string): Promise<CarIndex> {
+  log('indexing %s', path)
+
+  const indexer = await CarIndexer.fromIterable(fs.createReadStream(path))
+  const blocks = new Map<string, BlockLocation>()
+
+  for await (const { cid, blockOffset, blockLength } of indexer) {
+    blocks.set(toKey(cid), {
+      cid,
+      offset: blockOffset,
+      length: blockLength
+    })
+  }
+
+  log('indexed %d blocks in %s', blocks.size, path)
+
+  return {
+    roots: await indexer.getRoots(),
+    blocks
+  }
+}
+
+/**
+ * Blocks are stored by multihash so a block can be loaded with either CID
+ * version
+ */
+function toKey (cid: CID): string {
+  return uint8ArrayToString(cid.multihash.bytes, 'base32')
+}
+
+/**
+ * Create a read-only blockstore backed by a CAR file on disk for use with
+ * {@link unixfs}. The file is indexed the first time a block is requested and
+ * blocks are read directly from the file instead of being copied into another
+ * blockstore.
+ */
+export function carBlockstore (path: string): CarBlockstore {
+  return new DefaultCarBlockstore(path)
+}
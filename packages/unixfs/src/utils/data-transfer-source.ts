@@ -0,0 +1,94 @@
+import { fileCandidate } from './file-source.js'
+import type { AddCandidateStream } from '../index.js'
+
+/**
+ * Create an async iterator that yields the files and directories dropped onto
+ * a page, directories are walked recursively.
+ *
+ * This must be called while the `drop` event is being dispatched since the
+ * items are emptied once it has finished.
+ *
+ * @example
+ *
+ * ```typescript
+ * element.addEventListener('drop', (event) => {
+ *   event.preventDefault()
+ *
+ *   const source = dataTransferSource(event.dataTransfer.items)
+ *
+ *   void (async () => {
+ *     for await (const entry of fs.addAll(source)) {
+ *       console.info(entry)
+ *     }
+ *   })()
+ * })
+ * ```
+ */
+export function dataTransferSource (items: DataTransferItemList | Iterable<DataTransferItem>): AddCandidateStream {
+  const entries: FileSystemEntry[] = []
+
+  for (const item of Array.from(items)) {
+    if (item.kind !== 'file') {
+      continue
+    }
+
+    const entry = item.webkitGetAsEntry()
+
+    if (entry != null) {
+      entries.push(entry)
+    }
+  }
+
+  return (async function * () {
+    for (const entry of entries) {
+      yield * walkEntry(entry)
+    }
+  })()
+}
+
+async function * walkEntry (entry: FileSystemEntry): AddCandidateStream {
+  // the full path is relative to the root of the dropped items
+  const path = entry.fullPath.replace(/^\/+/, '')
+
+  if (isFileEntry(entry)) {
+    const file = await new Promise<File>((resolve, reject) => {
+      entry.file(resolve, reject)
+    })
+
+    yield fileCandidate(file, path)
+    return
+  }
+
+  if (!isDirectoryEntry(entry)) {
+    return
+  }
+
+  yield {
+    path
+  }
+
+  const reader = entry.createReader()
+
+  // entries are returned in batches until an empty batch is returned
+  while (true) {
+    const children = await new Promise<FileSystemEntry[]>((resolve, reject) => {
+      reader.readEntries(resolve, reject)
+    })
+
+    if (children.length === 0) {
+      break
+    }
+
+    for (const child of children) {
+      yield * walkEntry(child)
+    }
+  }
+}
+
+function isFileEntry (entry: FileSystemEntry): entry is FileSystemFileEntry {
+  return entry.isFile
+}
+
+function isDirectoryEntry (entry: FileSystemEntry): entry is FileSystemDirectoryEntry {
+  return entry.isDirectory
+}
@@ -0,0 +1,55 @@
+import { fileCandidate } from './file-source.js'
+import type { AddCandidateStream } from '../index.js'
+
+/**
+ * Directory handles are async iterable but the DOM types do not include it
+ * by default
+ */
+interface IterableDirectoryHandle extends FileSystemDirectoryHandle {
+  values(): AsyncIterable<FileSystemDirectoryHandle | FileSystemFileHandle>
+}
+
+/**
+ * Create an async iterator that yields the files and directories below a
+ * `FileSystemDirectoryHandle`, such as one returned by `showDirectoryPicker()`
+ * or the root of the origin private file system.
+ *
+ * Paths start with the name of the directory, which is empty for the root of
+ * the origin private file system.
+ *
+ * @example
+ *
+ * ```typescript
+ * const root = await navigator.storage.getDirectory()
+ *
+ * for await (const entry of fs.addAll(directoryHandleSource(root))) {
+ *   console.info(entry)
+ * }
+ * ```
+ */
+export async function * directoryHandleSource (handle: FileSystemDirectoryHandle): AddCandidateStream {
+  if (handle.name !== '') {
+    yield {
+      path: handle.name
+    }
+  }
+
+  yield * walkHandle(handle, handle.name)
+}
+
+async function * walkHandle (handle: FileSystemDirectoryHandle, path: string): AddCandidateStream {
+  for await (const child of (handle as IterableDirectoryHandle).values()) {
+    const childPath = path === '' ? child.name : `${path}/${child.name}`
+
+    if (child.kind === 'file') {
+      yield fileCandidate(await child.getFile(), childPath)
+      continue
+    }
+
+    yield {
+      path: childPath
+    }
+
+    yield * walkHandle(child, childPath)
+  }
+}
@@ -0,0 +1,210 @@
+import fsp from 'fs/promises'
+import Path from 'path'
+import { logger } from '@libp2p/logger'
+import { AlreadyExistsError, InvalidParametersError, NotUnixFSError } from '../errors.js'
+import type { UnixFS } from '../index.js'
+import type { AbortOptions } from '@libp2p/interface'
+import type { Mtime } from 'ipfs-unixfs'
+import type { UnixFSEntry } from 'ipfs-unixfs-exporter'
+import type { CID } from 'multiformats/cid'
+
+const log = logger('helia:unixfs:export-to-disk')
+
+export interface ExportToDiskOptions extends AbortOptions {
+  /**
+   * An optional path to export a file or directory inside a directory
+   */
+  path?: string
+
+  /**
+   * Set the mode of files and directories from the UnixFS metadata
+   */
+  preserveMode?: boolean
+
+  /**
+   * Set the mtime of files, directories and symlinks from the UnixFS metadata
+   */
+  preserveMtime?: boolean
+
+  /**
+   * Replace files, symlinks and directories that are in the way, otherwise
+   * throw if anything other than a directory exists where an entry will be
+   * written. Existing directories are always written into.
+   */
+  overwrite?: boolean
+
+  /**
+   * If true, do not perform any network operations and throw if blocks are
+   * missing from the local store. (default: false)
+   */
+  offline?: boolean
+}
+
+interface DiskEntry {
+  cid: CID
+  type: 'file' | 'directory' | 'symlink'
+  mode?: number
+  mtime?: Mtime
+}
+
+/**
+ * Write a UnixFS DAG to the local filesystem. The contents of a directory are
+ * written into the target directory while a single file is written into it
+ * named after the end of the path or its CID.
+ *
+ * Names that would be written outside of the target directory, such as `..`,
+ * cause an error to be thrown.
+ */
+export async function exportToDisk (unixfs: UnixFS, cid: CID, targetDir: string, options: ExportToDiskOptions = {}): Promise<void> {
+  targetDir = Path.resolve(targetDir)
+
+  const root = await unixfs.stat(cid, options)
+  const entry: DiskEntry = {
+    cid: root.cid,
+    type: root.type === 'directory' || root.type === 'symlink' ? root.type : 'file',
+    mode: root.mode,
+    mtime: root.mtime
+  }
+
+  log('export %c to %s', root.cid, targetDir)
+
+  await fsp.mkdir(targetDir, { recursive: true })
+
+  if (entry.type === 'directory') {
+    await writeDirectory(unixfs, entry, targetDir, targetDir, options)
+    await applyMetadata(targetDir, entry, options)
+    return
+  }
+
+  await writeEntry(unixfs, entry, options.path?.split('/').filter(Boolean).pop() ?? root.cid.toString(), targetDir, targetDir, options)
+}
+
+async function writeDirectory (unixfs: UnixFS, entry: DiskEntry, dir: string, targetDir: string, options: ExportToDiskOptions): Promise<void> {
+  for await (const child of unixfs.ls(entry.cid, readOptions(options))) {
+    await writeEntry(unixfs, toDiskEntry(child), child.name, dir, targetDir, options)
+  }
+}
+
+async function writeEntry (unixfs: UnixFS, entry: DiskEntry, name: string, dir: string, targetDir: string, options: ExportToDiskOptions): Promise<void> {
+  const path = toSafePath(name, dir, targetDir)
+
+  await prepare(path, entry, options)
+
+  if (entry.type === 'directory') {
+    await writeDirectory(unixfs, entry, path, targetDir, options)
+  } else if (entry.type === 'symlink') {
+    await fsp.symlink(await unixfs.readlink(entry.cid, readOptions(options)), path)
+  } else {
+    await fsp.writeFile(path, unixfs.cat(entry.cid, readOptions(options)))
+  }
+
+  // directory metadata is applied after the contents have been written so
+  // adding them does not change the mtime or fail because of the mode
+  await applyMetadata(path, entry, options)
+}
+
+/**
+ * Make sure nothing other than a directory is in the way of an entry, an
+ * existing symlink is never followed
+ */
+async function prepare (path: string, entry: DiskEntry, options: ExportToDiskOptions): Promise<void> {
+  const stats = await fsp.lstat(path).catch((err: NodeJS.ErrnoException) => {
+    if (err.code === 'ENOENT') {
+      return undefined
+    }
+
+    throw err
+  })
+
+  if (stats != null) {
+    if (entry.type === 'directory' && stats.isDirectory()) {
+      return
+    }
+
+    if (options.overwrite !== true) {
+      throw new AlreadyExistsError(`${path} already exists`)
+    }
+
+    await fsp.rm(path, { recursive: true, force: true })
+  }
+
+  if (entry.type === 'directory') {
+    await fsp.mkdir(path)
+  }
+}
+
+async function applyMetadata (path: string, entry: DiskEntry, options: ExportToDiskOptions): Promise<void> {
+  // the mode of a symlink cannot be changed on most platforms
+  if (options.preserveMode === true && entry.mode != null && entry.type !== 'symlink') {
+    await fsp.chmod(path, entry.mode)
+  }
+
+  if (options.preserveMtime === true && entry.mtime != null) {
+    const mtime = Number(entry.mtime.secs) + ((entry.mtime.nsecs ?? 0) / 1e9)
+    const atime = Date.now() / 1000
+
+    if (entry.type === 'symlink') {
+      await fsp.lutimes(path, atime, mtime)
+    } else {
+      await fsp.utimes(path, atime, mtime)
+    }
+  }
+}
+
+/**
+ * The path has already been resolved so is not passed on when reading the
+ * nodes below it
+ */
+function readOptions (options: ExportToDiskOptions): AbortOptions & { offline?: boolean } {
+  return {
+    signal: options.signal,
+    offline: options.offline
+  }
+}
+
+function toDiskEntry (entry: UnixFSEntry): DiskEntry {
+  if (entry.type === 'directory') {
+    return {
+      cid: entry.cid,
+      type: 'directory',
+      mode: entry.unixfs.mode,
+      mtime: entry.unixfs.mtime
+    }
+  }
+
+  if (entry.type === 'file') {
+    return {
+      cid: entry.cid,
+      type: entry.unixfs.type === 'symlink' ? 'symlink' : 'file',
+      mode: entry.unixfs.mode,
+      mtime: entry.unixfs.mtime
+    }
+  }
+
+  if (entry.type === 'raw' || entry.type === 'identity') {
+    return {
+      cid: entry.cid,
+      type: 'file'
+    }
+  }
+
+  throw new NotUnixFSError(`Cannot export ${entry.type} node ${entry.cid.toString()} to disk`)
+}
+
+/**
+ * Names come from the DAG so must not be able to escape the target directory
+ */
+function toSafePath (name: string, dir: string, targetDir: string): string {
+  if (name === '' || name === '.' || name === '..' || name.includes('/') || name.includes('\\') || name.includes('\0') || Path.isAbsolute(name)) {
+    throw new InvalidParametersError(`Refusing to write invalid name "${name}" to ${dir}`)
+  }
+
+  const path = Path.join(dir, name)
+  const relative = Path.relative(targetDir, path)
+
+  if (relative === '' || relative.split(Path.sep)[0] === '..' || Path.isAbsolute(relative)) {
+    throw new InvalidParametersError(`Refusing to write "${name}" outside of ${targetDir}`)
+  }
+
+  return path
+}
@@ -0,0 +1,33 @@
+import { toMtime } from './to-mtime.js'
+import { fromReadableStream } from './web-streams.js'
+import type { AddCandidateStream } from '../index.js'
+import type { FileCandidate } from 'ipfs-unixfs-importer'
+
+/**
+ * Create an async iterator that yields the files in a `FileList`, such as the
+ * one from an `<input type="file" webkitdirectory>` element, or any other
+ * iterable of `File`s.
+ *
+ * Files are imported at their `webkitRelativePath` if it is set, otherwise at
+ * their name.
+ */
+export async function * fileSource (files: FileList | Iterable<File>): AddCandidateStream {
+  for (const file of Array.from(files)) {
+    // only set when the file was picked as part of a directory
+    const relativePath: string | undefined = file.webkitRelativePath
+
+    yield fileCandidate(file, relativePath == null || relativePath === '' ? file.name : relativePath)
+  }
+}
+
+/**
+ * Import a `File` at the passed path, the content is streamed from the file as
+ * it is imported and the mtime is taken from when it was last modified
+ */
+export function fileCandidate (file: File, path: string): FileCandidate<AsyncGenerator<Uint8Array>> {
+  return {
+    path,
+    content: fromReadableStream(file.stream()),
+    mtime: toMtime(new Date(file.lastModified))
+  }
+}
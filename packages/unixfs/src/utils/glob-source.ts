@@ -1,11 +1,11 @@
 import fs from 'fs'
 import fsp from 'fs/promises'
 import Path from 'path'
-import glob from 'it-glob'
+import { Minimatch, minimatch } from 'minimatch'
 import { InvalidParametersError } from '../errors.js'
 import { toMtime } from './to-mtime.js'
+import type { AddCandidateStream } from '../index.js'
 import type { MtimeLike } from 'ipfs-unixfs'
-import type { ImportCandidateStream } from 'ipfs-unixfs-importer'
 
 export interface GlobSourceOptions {
   /**
@@ -14,7 +14,8 @@ export interface GlobSourceOptions {
   hidden?: boolean
 
   /**
-   * follow symlinks
+   * If true, import the files and directories that symlinks point to,
+   * otherwise import symlinks as UnixFS symlink nodes (default: true)
    */
   followSymlinks?: boolean
 
@@ -37,6 +38,32 @@ export interface GlobSourceOptions {
    * mtime to use - if preserveMtime is true this will be ignored
    */
   mtime?: MtimeLike
+
+  /**
+   * Patterns in `.gitignore` format relative to `cwd`, matching files are
+   * skipped and matching directories are not read, e.g. `['node_modules',
+   * '/dist']`
+   */
+  ignore?: string[]
+
+  /**
+   * The names of ignore files in `.gitignore` format to read from `cwd` and
+   * every directory below it, e.g. `['.gitignore', '.ipfsignore']`. Patterns
+   * in an ignore file are relative to the directory that contains it and take
+   * precedence over patterns from directories above it
+   */
+  ignoreFiles?: string[]
+
+  /**
+   * Skip files larger than this many bytes
+   */
+  maxFileSize?: number
+
+  /**
+   * Called with the path of every file and directory that is not ignored,
+   * return false to skip it. Directories that are skipped are not read.
+   */
+  filter?(path: string, stat: fs.Stats): boolean | Promise<boolean>
 }
 
 export interface GlobSourceResult {
@@ -46,10 +73,28 @@ export interface GlobSourceResult {
   mtime: MtimeLike | undefined
 }
 
+/**
+ * A pattern from an ignore file or the `ignore` option
+ */
+interface IgnoreRule {
+  /**
+   * The directory the pattern is relative to
+   */
+  base: string
+  matcher: Minimatch
+  negate: boolean
+  directoryOnly: boolean
+}
+
+interface GlobMatch {
+  path: string
+  stat: fs.Stats
+}
+
 /**
  * Create an async iterator that yields paths that match requested glob pattern
  */
-export async function * globSource (cwd: string, pattern: string, options: GlobSourceOptions = {}): ImportCandidateStream {
+export async function * globSource (cwd: string, pattern: string, options: GlobSourceOptions = {}): AddCandidateStream {
   if (typeof pattern !== 'string') {
     throw new InvalidParametersError('Pattern must be a string')
   }
@@ -58,17 +103,7 @@ export async function * globSource (cwd: string, pattern: string, options: GlobS
     cwd = Path.resolve(process.cwd(), cwd)
   }
 
-  const globOptions = Object.assign({}, {
-    nodir: false,
-    realpath: false,
-    absolute: true,
-    dot: Boolean(options.hidden),
-    follow: options.followSymlinks != null ? options.followSymlinks : true
-  })
-
-  for await (const p of glob(cwd, pattern, globOptions)) {
-    const stat = await fsp.stat(p)
-
+  for await (const { path: p, stat } of glob(cwd, pattern, options)) {
     let mode = options.mode
 
     if (options.preserveMode === true) {
@@ -81,6 +116,17 @@ export async function * globSource (cwd: string, pattern: string, options: GlobS
       mtime = stat.mtime
     }
 
+    if (stat.isSymbolicLink()) {
+      yield {
+        path: toPosix(p.replace(cwd, '')),
+        target: toPosix(await fsp.readlink(p)),
+        mode,
+        mtime: toMtime(mtime)
+      }
+
+      continue
+    }
+
     yield {
       path: toPosix(p.replace(cwd, '')),
       content: stat.isFile() ? fs.createReadStream(p) : undefined,
@@ -90,4 +136,150 @@ export async function * globSource (cwd: string, pattern: string, options: GlobS
   }
 }
 
+async function * glob (cwd: string, pattern: string, options: GlobSourceOptions): AsyncGenerator<GlobMatch> {
+  const stat = await fsp.stat(cwd)
+
+  if (stat.isDirectory()) {
+    yield * walk(cwd, '', parseIgnoreRules((options.ignore ?? []).join('\n'), ''), pattern, options)
+    return
+  }
+
+  if (minimatch(Path.relative(process.cwd(), cwd), pattern, { dot: options.hidden === true })) {
+    yield { path: cwd, stat: options.followSymlinks === false ? await fsp.lstat(cwd) : stat }
+  }
+}
+
+/**
+ * Yield the entries below `dir` that match the pattern, directories are
+ * yielded before their contents. Symlinks to directories are not descended
+ * into.
+ */
+async function * walk (cwd: string, dir: string, rules: IgnoreRule[], pattern: string, options: GlobSourceOptions): AsyncGenerator<GlobMatch> {
+  const absoluteDir = Path.join(cwd, dir)
+  rules = [...rules, ...await readIgnoreFiles(absoluteDir, dir, options.ignoreFiles ?? [])]
+
+  for await (const entry of await fsp.opendir(absoluteDir)) {
+    const path = dir === '' ? entry.name : `${dir}/${entry.name}`
+    const absolutePath = Path.join(absoluteDir, entry.name)
+    const isDirectory = entry.isDirectory()
+
+    if (isIgnored(rules, path, isDirectory)) {
+      continue
+    }
+
+    const match = minimatch(path, pattern, { dot: options.hidden === true })
+
+    if (match || options.filter != null) {
+      const stat = options.followSymlinks === false ? await fsp.lstat(absolutePath) : await fsp.stat(absolutePath)
+
+      if (options.filter != null && !(await options.filter(`/${path}`, stat))) {
+        continue
+      }
+
+      if (match && !(stat.isFile() && options.maxFileSize != null && stat.size > options.maxFileSize)) {
+        yield { path: absolutePath, stat }
+      }
+    }
+
+    if (isDirectory) {
+      yield * walk(cwd, path, rules, pattern, options)
+    }
+  }
+}
+
+async function readIgnoreFiles (absoluteDir: string, dir: string, names: string[]): Promise<IgnoreRule[]> {
+  const rules: IgnoreRule[] = []
+
+  for (const name of names) {
+    const contents = await fsp.readFile(Path.join(absoluteDir, name), 'utf8').catch((err: NodeJS.ErrnoException) => {
+      if (err.code === 'ENOENT') {
+        return undefined
+      }
+
+      throw err
+    })
+
+    if (contents != null) {
+      rules.push(...parseIgnoreRules(contents, dir))
+    }
+  }
+
+  return rules
+}
+
+/**
+ * Parse patterns in `.gitignore` format, see https://git-scm.com/docs/gitignore
+ */
+function parseIgnoreRules (contents: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+
+  for (let line of contents.split(/\r?\n/)) {
+    // trailing spaces are ignored unless they are escaped
+    line = line.replace(/(?<!\\)\s+$/, '')
+
+    if (line === '' || line.startsWith('#')) {
+      continue
+    }
+
+    let negate = false
+
+    if (line.startsWith('!')) {
+      negate = true
+      line = line.slice(1)
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1)
+    }
+
+    let directoryOnly = false
+
+    if (line.endsWith('/')) {
+      directoryOnly = true
+      line = line.slice(0, -1)
+    }
+
+    if (line === '') {
+      continue
+    }
+
+    // a slash at the start or in the middle makes the pattern relative to the
+    // directory it is in, otherwise it matches at any depth below it
+    const anchored = line.includes('/')
+
+    if (line.startsWith('/')) {
+      line = line.slice(1)
+    }
+
+    rules.push({
+      base,
+      matcher: new Minimatch(anchored ? line : `**/${line}`, { dot: true }),
+      negate,
+      directoryOnly
+    })
+  }
+
+  return rules
+}
+
+/**
+ * The last rule that matches a path decides if it is ignored. Paths inside an
+ * ignored directory are never checked since the directory is not read.
+ */
+function isIgnored (rules: IgnoreRule[], path: string, isDirectory: boolean): boolean {
+  let ignored = false
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue
+    }
+
+    const relative = rule.base === '' ? path : path.slice(rule.base.length + 1)
+
+    if (rule.matcher.match(relative)) {
+      ignored = !rule.negate
+    }
+  }
+
+  return ignored
+}
+
 const toPosix = (path: string): string => path.replace(/\\/g, '/')
@@ -0,0 +1,199 @@
+import { logger } from '@libp2p/logger'
+import { extract } from 'it-tar'
+import { concat as uint8ArrayConcat } from 'uint8arrays/concat'
+import { InvalidParametersError } from '../errors.js'
+import { toMtime } from './to-mtime.js'
+import { transform } from './web-streams.js'
+import type { AddCandidateStream } from '../index.js'
+
+const log = logger('helia:unixfs:tar-source')
+
+/**
+ * Create an async iterator that yields the files, directories and symlinks in
+ * a tar archive, gzipped archives are detected and decompressed automatically.
+ *
+ * The mode and mtime of each entry are taken from the tar headers. Entries
+ * with `..` in their path are rejected.
+ *
+ * The archive can only be read sequentially so file content is streamed if it
+ * is read before the next entry is requested, otherwise the rest of the file is
+ * held in memory until it is read. Pass `fileImportConcurrency: 1` to `addAll`
+ * to stream every file in the archive.
+ */
+export async function * tarSource (source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>): AddCandidateStream {
+  for await (const entry of extract()(await maybeGunzip(source))) {
+    const path = toPath(entry.header.name)
+    const mode = entry.header.mode
+    const mtime = toMtime(entry.header.mtime)
+
+    if (path === '') {
+      continue
+    }
+
+    if (entry.header.type === 'directory') {
+      yield {
+        path,
+        mode,
+        mtime
+      }
+
+      continue
+    }
+
+    if (entry.header.type === 'symlink') {
+      yield {
+        path,
+        target: entry.header.linkname ?? '',
+        mode,
+        mtime
+      }
+
+      continue
+    }
+
+    if (entry.header.type !== 'file' && entry.header.type !== 'contiguous-file') {
+      log('skipping %s entry %s', entry.header.type, path)
+      continue
+    }
+
+    const body = new EntryBody(entry.body)
+
+    yield {
+      path,
+      content: body.content(),
+      mode,
+      mtime
+    }
+
+    // the importer can request the next entry before reading the content of
+    // this one, which can then only be read from memory
+    await body.buffer()
+  }
+}
+
+/**
+ * The content of a file in the archive, which is streamed from the archive
+ * until `buffer` is called to read the rest into memory
+ */
+class EntryBody {
+  private readonly iterator: AsyncIterator<Uint8Array>
+  private readonly buffered: Uint8Array[]
+  private done: boolean
+  private reading: Promise<void>
+
+  constructor (body: AsyncIterable<Uint8Array>) {
+    this.iterator = body[Symbol.asyncIterator]()
+    this.buffered = []
+    this.done = false
+    this.reading = Promise.resolve()
+  }
+
+  async * content (): AsyncGenerator<Uint8Array, void, undefined> {
+    while (true) {
+      const buf = this.buffered.shift()
+
+      if (buf != null) {
+        yield buf
+      } else if (this.done) {
+        return
+      } else {
+        await this.read()
+      }
+    }
+  }
+
+  async buffer (): Promise<void> {
+    while (!this.done) {
+      await this.read()
+    }
+  }
+
+  /**
+   * Reads are queued so chunks are buffered in order when the content is
+   * being read at the same time as the rest is buffered
+   */
+  private async read (): Promise<void> {
+    this.reading = this.reading.then(async () => {
+      if (this.done) {
+        return
+      }
+
+      const result = await this.iterator.next()
+
+      if (result.done === true) {
+        this.done = true
+      } else {
+        this.buffered.push(result.value)
+      }
+    })
+
+    await this.reading
+  }
+}
+
+/**
+ * Decompress the archive if it starts with the gzip magic bytes
+ */
+async function maybeGunzip (source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>): Promise<AsyncIterable<Uint8Array>> {
+  const iterator = toAsyncIterator(source)
+  const head: Uint8Array[] = []
+  let length = 0
+
+  while (length < 2) {
+    const { done, value } = await iterator.next()
+
+    if (done === true) {
+      break
+    }
+
+    head.push(value)
+    length += value.byteLength
+  }
+
+  const bytes = (async function * () {
+    yield * head
+
+    while (true) {
+      const { done, value } = await iterator.next()
+
+      if (done === true) {
+        return
+      }
+
+      yield value
+    }
+  })()
+
+  const magic = uint8ArrayConcat(head, length)
+
+  if (magic[0] === 0x1f && magic[1] === 0x8b) {
+    return transform(bytes, new DecompressionStream('gzip'))
+  }
+
+  return bytes
+}
+
+function toAsyncIterator (source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>): AsyncIterator<Uint8Array> | Iterator<Uint8Array> {
+  if (Symbol.asyncIterator in source) {
+    return source[Symbol.asyncIterator]()
+  }
+
+  return source[Symbol.iterator]()
+}
+
+/**
+ * Tar entry names are relative and directories have a trailing slash. Names
+ * come from the archive so must not be able to escape the directory they are
+ * imported into
+ */
+function toPath (name: string): string {
+  const parts = name
+    .split('/')
+    .filter(part => part !== '' && part !== '.')
+
+  if (parts.includes('..')) {
+    throw new InvalidParametersError(`Refusing to import invalid path "${name}"`)
+  }
+
+  return parts.join('/')
+}
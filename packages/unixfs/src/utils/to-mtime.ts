@@ -48,7 +48,7 @@ function dateToTimespec (date: Date): Mtime {
 
   return {
     secs: BigInt(secs),
-    nsecs: (ms - (secs * 1000)) * 1000
+    nsecs: (ms - (secs * 1000)) * 1000000
   }
 }
 
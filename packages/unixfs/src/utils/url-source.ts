@@ -1,35 +1,435 @@
-import { UnknownError } from '../errors.js'
+import { anySignal } from 'any-signal'
+import parallel from 'it-parallel'
+import toBuffer from 'it-to-buffer'
+import { CustomProgressEvent, type ProgressEvent, type ProgressOptions } from 'progress-events'
+import { ContentChangedError, RequestFailedError, UnixFSError, UnknownError } from '../errors.js'
+import { toMtime } from './to-mtime.js'
+import { fromReadableStream } from './web-streams.js'
 import type { FileCandidate } from 'ipfs-unixfs-importer'
 
-export function urlSource (url: URL, options?: RequestInit): FileCandidate<AsyncGenerator<Uint8Array, void, unknown>> {
+export interface UrlSourceProgress {
+  url: URL
+
+  /**
+   * How many bytes of the file have been delivered in order
+   */
+  bytesRead: number
+
+  /**
+   * The size of the file if the server reported it
+   */
+  total?: number
+}
+
+export interface UrlSourceRetry {
+  url: URL
+
+  /**
+   * The position in the file the next request starts from
+   */
+  offset: number
+
+  /**
+   * How many times in a row this request has failed
+   */
+  attempt: number
+  error: Error
+}
+
+export type UrlSourceProgressEvents =
+  ProgressEvent<'unixfs:url-source:progress', UrlSourceProgress> |
+  ProgressEvent<'unixfs:url-source:retry', UrlSourceRetry>
+
+export interface UrlSourceOptions extends RequestInit, ProgressOptions<UrlSourceProgressEvents> {
+  /**
+   * How many times in a row to retry after a network error or a 5xx or 429
+   * response. Downloads resume from the last byte received using a `Range`
+   * request (default: 5)
+   */
+  retries?: number
+
+  /**
+   * How long to wait in ms before the first retry, the delay doubles after
+   * each failure (default: 1000)
+   */
+  retryDelay?: number
+
+  /**
+   * If the server supports range requests, fetch this many ranges of the file
+   * at once. The content is still delivered in order (default: 1)
+   */
+  parallel?: number
+
+  /**
+   * The size of each range fetched in parallel, at most `parallel * rangeSize`
+   * bytes are held in memory (default: 1MiB)
+   */
+  rangeSize?: number
+}
+
+/**
+ * The state shared by every request for the same file
+ */
+interface Download {
+  url: URL
+  init: RequestInit
+  options: UrlSourceOptions
+  retries: number
+  retryDelay: number
+
+  /**
+   * Sent as `If-Range` so the server refuses to return part of a different
+   * version of the file
+   */
+  validator?: string
+  etag?: string
+  total?: number
+
+  /**
+   * Whether a failed request can be resumed part of the way through the file
+   */
+  resumable: boolean
+}
+
+const DEFAULT_RETRIES = 5
+const DEFAULT_RETRY_DELAY = 1000
+const DEFAULT_RANGE_SIZE = 1024 * 1024
+
+/**
+ * Create a file to import from a URL. The file name is taken from the URL path
+ * and nothing is requested until the content is read.
+ *
+ * Failed requests are retried and resume from the last byte received if the
+ * server supports range requests and the content has a stable `ETag` or
+ * `Last-Modified` date.
+ */
+export function urlSource (url: URL, options: UrlSourceOptions = {}): FileCandidate<AsyncGenerator<Uint8Array, void, unknown>> {
+  const download = createDownload(url, options)
+
+  return {
+    path: fileNameFromUrl(url),
+    content: (async function * () {
+      const { content } = await startDownload(download)
+
+      yield * content
+    })()
+  }
+}
+
+/**
+ * Like `urlSource` but makes the first request before returning, so the file
+ * name can be taken from the `Content-Disposition` header and the mtime from
+ * the `Last-Modified` header of the response.
+ */
+export async function fetchUrlSource (url: URL, options: UrlSourceOptions = {}): Promise<FileCandidate<AsyncGenerator<Uint8Array, void, unknown>>> {
+  const { response, content } = await startDownload(createDownload(url, options))
+  const lastModified = response.headers.get('last-modified') ?? undefined
+
   return {
-    path: decodeURIComponent(new URL(url).pathname.split('/').pop() ?? ''),
-    content: readURLContent(url, options)
+    path: parseFileName(response.headers.get('content-disposition')) ?? fileNameFromUrl(url),
+    content,
+    mtime: lastModified == null || isNaN(Date.parse(lastModified)) ? undefined : toMtime(new Date(lastModified))
   }
 }
 
-async function * readURLContent (url: URL, options?: RequestInit): AsyncGenerator<Uint8Array, void, unknown> {
-  const response = await globalThis.fetch(url, options)
+function createDownload (url: URL, options: UrlSourceOptions): Download {
+  const { retries, retryDelay, parallel, rangeSize, onProgress, ...init } = options
 
-  if (response.body == null) {
-    throw new UnknownError('HTTP response did not have a body')
+  return {
+    url,
+    init,
+    options,
+    retries: retries ?? DEFAULT_RETRIES,
+    retryDelay: retryDelay ?? DEFAULT_RETRY_DELAY,
+    resumable: false
   }
+}
 
-  const reader = response.body.getReader()
+/**
+ * Make the first request and decide how to read the rest of the file from the
+ * response
+ */
+async function startDownload (download: Download): Promise<{ response: Response, content: AsyncGenerator<Uint8Array, void, unknown> }> {
+  const { init, options } = download
+  const concurrency = options.parallel ?? 1
+  const size = options.rangeSize ?? DEFAULT_RANGE_SIZE
+  const ranges = concurrency > 1
+
+  // when fetching in parallel the first request asks for the first range to
+  // find out if the server supports range requests
+  const response = await withRetries(download, 0, async () => request(download, 0, ranges ? size : undefined, init.signal ?? undefined))
+
+  readValidators(download, response)
+
+  let content: AsyncGenerator<Uint8Array>
+
+  if (response.status !== 206) {
+    content = readFrom(download, 0, undefined, response, init.signal ?? undefined)
+  } else if (download.total != null) {
+    content = parallelContent(download, response, concurrency, size)
+  } else {
+    // the server did not say how large the file is so it cannot be split into
+    // ranges, fetch the whole file instead
+    await response.body?.cancel()
+    content = readFrom(download, 0, undefined, undefined, init.signal ?? undefined)
+  }
+
+  return {
+    response,
+    content: reportProgress(download, content)
+  }
+}
+
+function fileNameFromUrl (url: URL): string {
+  return decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '')
+}
+
+/**
+ * Find out from the first response if later requests can resume the download
+ */
+function readValidators (download: Download, response: Response): void {
+  const etag = response.headers.get('etag') ?? undefined
+  const encoding = response.headers.get('content-encoding') ?? 'identity'
+
+  download.etag = etag
+  download.validator = etag != null && !etag.startsWith('W/') ? etag : response.headers.get('last-modified') ?? undefined
+
+  // ranges are of the encoded content which fetch decodes transparently
+  if (encoding !== 'identity') {
+    return
+  }
+
+  download.total = response.status === 206 ? parseContentRange(response)?.total : parseLength(response.headers.get('content-length'))
+  download.resumable = download.validator != null && response.headers.get('accept-ranges') !== 'none'
+}
+
+async function * reportProgress (download: Download, source: AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array, void, unknown> {
+  let bytesRead = 0
+
+  for await (const buf of source) {
+    bytesRead += buf.byteLength
+
+    download.options.onProgress?.(new CustomProgressEvent<UrlSourceProgress>('unixfs:url-source:progress', {
+      url: download.url,
+      bytesRead,
+      total: download.total
+    }))
+
+    yield buf
+  }
+}
+
+/**
+ * Fetch ranges of the file in parallel and yield them in order
+ */
+async function * parallelContent (download: Download, first: Response, concurrency: number, rangeSize: number): AsyncGenerator<Uint8Array, void, undefined> {
+  const total = download.total ?? 0
+  const controller = new AbortController()
+  const signal = anySignal([controller.signal, download.init.signal])
+
+  const tasks = function * (): Generator<() => Promise<Uint8Array>> {
+    yield async () => toBuffer(readFrom(download, 0, Math.min(rangeSize, total), first, signal))
+
+    for (let start = rangeSize; start < total; start += rangeSize) {
+      yield async () => toBuffer(readFrom(download, start, Math.min(start + rangeSize, total), undefined, signal))
+    }
+  }
 
   try {
-    while (true) {
-      const { done, value } = await reader.read()
+    yield * parallel(tasks(), {
+      concurrency,
+      ordered: true
+    })
+  } finally {
+    // stop any ranges still being fetched if the consumer stopped early
+    controller.abort()
+    signal.clear()
+  }
+}
+
+/**
+ * Read the file from `start` to `end`, or to the end of the file, resuming
+ * from the last byte received after a failure
+ */
+async function * readFrom (download: Download, start: number, end: number | undefined, response: Response | undefined, signal: AbortSignal | undefined): AsyncGenerator<Uint8Array> {
+  let position = start
+  let failures = 0
 
-      if (done) {
-        return
+  while (true) {
+    try {
+      if (response == null) {
+        response = await request(download, position, end, signal)
+
+        if (position > 0 || end != null) {
+          checkRange(download, response, position)
+        }
       }
 
-      if (value != null) {
-        yield value
+      if (response.body == null) {
+        throw new UnknownError('HTTP response did not have a body')
       }
+
+      for await (const buf of fromReadableStream(response.body)) {
+        position += buf.byteLength
+        failures = 0
+
+        yield buf
+      }
+
+      const expected = end ?? download.total
+
+      if (expected != null && position !== expected) {
+        throw new RequestFailedError(`${download.url} ended after ${position} of ${expected} bytes`)
+      }
+
+      return
+    } catch (err) {
+      response = undefined
+      failures++
+
+      if (position > 0 && !download.resumable) {
+        throw err
+      }
+
+      await backoff(download, err, failures, position, signal)
     }
-  } finally {
-    reader.releaseLock()
   }
 }
+
+async function withRetries <T> (download: Download, position: number, fn: () => Promise<T>): Promise<T> {
+  let failures = 0
+
+  while (true) {
+    try {
+      return await fn()
+    } catch (err) {
+      failures++
+
+      await backoff(download, err, failures, position, download.init.signal ?? undefined)
+    }
+  }
+}
+
+/**
+ * Rethrow errors that should not be retried, otherwise wait before the next
+ * attempt
+ */
+async function backoff (download: Download, err: unknown, failures: number, position: number, signal?: AbortSignal): Promise<void> {
+  if (failures > download.retries || signal?.aborted === true || !isRetryable(err)) {
+    throw err
+  }
+
+  download.options.onProgress?.(new CustomProgressEvent<UrlSourceRetry>('unixfs:url-source:retry', {
+    url: download.url,
+    offset: position,
+    attempt: failures,
+    error: err
+  }))
+
+  await new Promise(resolve => setTimeout(resolve, download.retryDelay * (2 ** (failures - 1))))
+}
+
+function isRetryable (err: unknown): err is Error {
+  if (err instanceof RequestFailedError) {
+    return err.status == null || err.status >= 500 || err.status === 429
+  }
+
+  // network errors are thrown as TypeErrors
+  return err instanceof Error && !(err instanceof UnixFSError)
+}
+
+/**
+ * Request the file from `start` to the exclusive `end`
+ */
+async function request (download: Download, start: number, end: number | undefined, signal: AbortSignal | undefined): Promise<Response> {
+  const headers = new Headers(download.init.headers)
+
+  if (start > 0 || end != null) {
+    headers.set('range', `bytes=${start}-${end == null ? '' : end - 1}`)
+
+    if (download.validator != null) {
+      headers.set('if-range', download.validator)
+    }
+  }
+
+  const response = await globalThis.fetch(download.url, {
+    ...download.init,
+    headers,
+    signal
+  })
+
+  if (!response.ok) {
+    throw new RequestFailedError(`${download.url} responded with ${response.status}`, response.status)
+  }
+
+  return response
+}
+
+/**
+ * Make sure a response contains the requested part of the same version of the
+ * file
+ */
+function checkRange (download: Download, response: Response, start: number): void {
+  const etag = response.headers.get('etag') ?? undefined
+
+  // servers return the whole file if `If-Range` does not match
+  if (response.status !== 206 || (download.etag != null && etag !== download.etag)) {
+    throw new ContentChangedError(`${download.url} changed while it was being downloaded`)
+  }
+
+  const range = parseContentRange(response)
+
+  if (range?.start !== start || (download.total != null && range.total !== download.total)) {
+    throw new ContentChangedError(`${download.url} did not return the requested range`)
+  }
+}
+
+function parseContentRange (response: Response): { start: number, total?: number } | undefined {
+  const match = response.headers.get('content-range')?.match(/^bytes (\d+)-\d+\/(\d+|\*)$/)
+
+  if (match == null) {
+    return
+  }
+
+  return {
+    start: parseInt(match[1], 10),
+    total: parseLength(match[2])
+  }
+}
+
+function parseLength (value: string | null | undefined): number | undefined {
+  if (value == null || !/^\d+$/.test(value)) {
+    return
+  }
+
+  return parseInt(value, 10)
+}
+
+/**
+ * Read the file name from a `Content-Disposition` header, preferring the UTF-8
+ * `filename*` parameter
+ */
+function parseFileName (header: string | null): string | undefined {
+  if (header == null) {
+    return
+  }
+
+  let name: string | undefined
+  const extended = header.match(/filename\*\s*=\s*[^']*'[^']*'([^;\s]+)/i)
+
+  if (extended != null) {
+    try {
+      name = decodeURIComponent(extended[1])
+    } catch {}
+  }
+
+  if (name == null) {
+    const plain = header.match(/filename\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;\s]+))/i)
+    name = plain?.[1]?.replace(/\\(.)/g, '$1') ?? plain?.[2]
+  }
+
+  // only use the last path segment
+  name = name?.split(/[/\\]/).pop()
+
+  return name === '' ? undefined : name
+}
@@ -0,0 +1,81 @@
+/**
+ * Read the chunks from a WHATWG `ReadableStream`
+ */
+export async function * fromReadableStream (stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader()
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+
+      if (done) {
+        return
+      }
+
+      if (value != null) {
+        yield value
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Pass the chunks of an iterable through a WHATWG `TransformStream` such as a
+ * `CompressionStream` or a `DecompressionStream`
+ */
+export async function * transform (source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>, stream: { readable: ReadableStream<Uint8Array>, writable: WritableStream<Uint8Array> }): AsyncGenerator<Uint8Array> {
+  const writer = stream.writable.getWriter()
+
+  // write in the background so chunks can be read from the readable side while
+  // the writer waits for them to be consumed
+  const writing = (async () => {
+    try {
+      for await (const buf of source) {
+        await writer.write(buf)
+      }
+
+      await writer.close()
+    } catch (err) {
+      await writer.abort(err)
+    }
+  })()
+
+  let finished = false
+
+  try {
+    yield * fromReadableStream(stream.readable)
+    finished = true
+  } finally {
+    // stop the background writer if the consumer stopped reading early
+    if (!finished) {
+      await stream.readable.cancel()
+    }
+  }
+
+  await writing
+}
+
+/**
+ * Create a WHATWG `ReadableStream` that pulls chunks from an async iterable as
+ * they are read
+ */
+export function toReadableStream (source: AsyncIterable<Uint8Array>): ReadableStream<Uint8Array> {
+  const iterator = source[Symbol.asyncIterator]()
+
+  return new ReadableStream({
+    async pull (controller) {
+      const { done, value } = await iterator.next()
+
+      if (done === true) {
+        controller.close()
+      } else {
+        controller.enqueue(value)
+      }
+    },
+    async cancel () {
+      await iterator.return?.()
+    }
+  })
+}
@@ -0,0 +1,250 @@
+import { logger } from '@libp2p/logger'
+import toBuffer from 'it-to-buffer'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
+import { InvalidParametersError, InvalidZipError } from '../errors.js'
+import { toMtime } from './to-mtime.js'
+import { fromReadableStream, transform } from './web-streams.js'
+import { CENTRAL_DIRECTORY_HEADER_LENGTH, CENTRAL_DIRECTORY_HEADER_SIGNATURE, END_OF_CENTRAL_DIRECTORY_LENGTH, END_OF_CENTRAL_DIRECTORY_SIGNATURE, EXTENDED_TIMESTAMP_EXTRA_FIELD, FLAG_ENCRYPTED, HOST_UNIX, LOCAL_FILE_HEADER_LENGTH, LOCAL_FILE_HEADER_SIGNATURE, METHOD_DEFLATE, METHOD_STORE, S_IFDIR, S_IFLNK, S_IFMT, crc32, fromDosDateTime } from './zip.js'
+import type { AddCandidateStream } from '../index.js'
+import type { Mtime } from 'ipfs-unixfs'
+
+const log = logger('helia:unixfs:zip-source')
+
+/**
+ * An entry read from the central directory of a zip file
+ */
+interface ZipEntry {
+  path: string
+  method: number
+  flags: number
+  crc: number
+  compressedSize: number
+  size: number
+  offset: number
+  directory: boolean
+  symlink: boolean
+  mode?: number
+  mtime: Mtime
+}
+
+/**
+ * Create an async iterator that yields the files, directories and symlinks in
+ * a zip file. Entries with `..` in their path or an absolute path are rejected.
+ *
+ * The entries are read from the central directory at the end of the file and
+ * the content of each file is only read from the blob as it is imported, so
+ * the archive is never held in memory. In Node.js a file on disk can be opened
+ * as a blob with `fs.openAsBlob`.
+ */
+export async function * zipSource (zip: Blob): AddCandidateStream {
+  for (const entry of await readCentralDirectory(zip)) {
+    const mode = entry.mode
+
+    if (entry.path === '') {
+      continue
+    }
+
+    if (entry.directory) {
+      yield {
+        path: entry.path,
+        mode,
+        mtime: entry.mtime
+      }
+
+      continue
+    }
+
+    if (entry.symlink) {
+      yield {
+        path: entry.path,
+        target: uint8ArrayToString(await toBuffer(readContent(zip, entry))),
+        mode,
+        mtime: entry.mtime
+      }
+
+      continue
+    }
+
+    yield {
+      path: entry.path,
+      content: readContent(zip, entry),
+      mode,
+      mtime: entry.mtime
+    }
+  }
+}
+
+async function readCentralDirectory (zip: Blob): Promise<ZipEntry[]> {
+  // the end of central directory record is followed by a comment of up to
+  // 64KiB so search backwards through the end of the file for it
+  const tailStart = Math.max(0, zip.size - END_OF_CENTRAL_DIRECTORY_LENGTH - 0xffff)
+  const tail = await readBytes(zip, tailStart, zip.size)
+  let eocd: DataView | undefined
+
+  for (let i = tail.byteLength - END_OF_CENTRAL_DIRECTORY_LENGTH; i >= 0; i--) {
+    const view = new DataView(tail.buffer, tail.byteOffset + i, END_OF_CENTRAL_DIRECTORY_LENGTH)
+
+    if (view.getUint32(0, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      eocd = view
+      break
+    }
+  }
+
+  if (eocd == null) {
+    throw new InvalidZipError('Could not find the end of the central directory')
+  }
+
+  const count = eocd.getUint16(10, true)
+  const length = eocd.getUint32(12, true)
+  const offset = eocd.getUint32(16, true)
+
+  if (count === 0xffff || length === 0xffffffff || offset === 0xffffffff) {
+    throw new InvalidZipError('ZIP64 archives are not supported')
+  }
+
+  if (offset + length > zip.size) {
+    throw new InvalidZipError('The central directory was outside the file')
+  }
+
+  log('reading %d entries from the central directory', count)
+
+  const cd = await readBytes(zip, offset, offset + length)
+  const view = new DataView(cd.buffer, cd.byteOffset, cd.byteLength)
+  const entries: ZipEntry[] = []
+  let position = 0
+
+  for (let i = 0; i < count; i++) {
+    if (position + CENTRAL_DIRECTORY_HEADER_LENGTH > cd.byteLength || view.getUint32(position, true) !== CENTRAL_DIRECTORY_HEADER_SIGNATURE) {
+      throw new InvalidZipError('Invalid central directory header')
+    }
+
+    const madeBy = view.getUint16(position + 4, true)
+    const flags = view.getUint16(position + 8, true)
+    const method = view.getUint16(position + 10, true)
+    const time = view.getUint16(position + 12, true)
+    const date = view.getUint16(position + 14, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    const externalAttributes = view.getUint32(position + 38, true)
+    const nameStart = position + CENTRAL_DIRECTORY_HEADER_LENGTH
+    const name = uint8ArrayToString(cd.subarray(nameStart, nameStart + nameLength))
+    const extra = cd.subarray(nameStart + nameLength, nameStart + nameLength + extraLength)
+
+    // only archives created on unix systems store the mode
+    const unixMode = (madeBy >>> 8) === HOST_UNIX ? externalAttributes >>> 16 : 0
+
+    entries.push({
+      path: toPath(name),
+      method,
+      flags,
+      crc: view.getUint32(position + 16, true),
+      compressedSize: view.getUint32(position + 20, true),
+      size: view.getUint32(position + 24, true),
+      offset: view.getUint32(position + 42, true),
+      directory: name.endsWith('/') || (unixMode & S_IFMT) === S_IFDIR,
+      symlink: (unixMode & S_IFMT) === S_IFLNK,
+      mode: unixMode === 0 ? undefined : unixMode & 0o7777,
+      mtime: readExtendedTimestamp(extra) ?? toMtime(fromDosDateTime(time, date))
+    })
+
+    position = nameStart + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+/**
+ * Stream the content of an entry, checking the size and checksum once all of
+ * it has been read
+ */
+async function * readContent (zip: Blob, entry: ZipEntry): AsyncGenerator<Uint8Array> {
+  if ((entry.flags & FLAG_ENCRYPTED) === FLAG_ENCRYPTED) {
+    throw new InvalidZipError(`${entry.path} is encrypted`)
+  }
+
+  const header = await readBytes(zip, entry.offset, entry.offset + LOCAL_FILE_HEADER_LENGTH)
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength)
+
+  if (header.byteLength < LOCAL_FILE_HEADER_LENGTH || view.getUint32(0, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+    throw new InvalidZipError(`Invalid local file header for ${entry.path}`)
+  }
+
+  // the name and extra field lengths can differ from the central directory
+  const start = entry.offset + LOCAL_FILE_HEADER_LENGTH + view.getUint16(26, true) + view.getUint16(28, true)
+  let content = fromReadableStream(zip.slice(start, start + entry.compressedSize).stream())
+
+  if (entry.method === METHOD_DEFLATE) {
+    content = transform(content, new DecompressionStream('deflate-raw'))
+  } else if (entry.method !== METHOD_STORE) {
+    throw new InvalidZipError(`${entry.path} uses unsupported compression method ${entry.method}`)
+  }
+
+  let crc = 0
+  let size = 0
+
+  for await (const buf of content) {
+    crc = crc32(buf, crc)
+    size += buf.byteLength
+
+    yield buf
+  }
+
+  if (size !== entry.size || crc !== entry.crc) {
+    throw new InvalidZipError(`${entry.path} did not match its checksum`)
+  }
+}
+
+/**
+ * The extended timestamp extra field holds the mtime as seconds since the
+ * epoch in UTC
+ */
+function readExtendedTimestamp (extra: Uint8Array): Mtime | undefined {
+  const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength)
+  let position = 0
+
+  while (position + 4 <= extra.byteLength) {
+    const id = view.getUint16(position, true)
+    const length = view.getUint16(position + 2, true)
+
+    if (position + 4 + length > extra.byteLength) {
+      return
+    }
+
+    if (id === EXTENDED_TIMESTAMP_EXTRA_FIELD && length >= 5 && (view.getUint8(position + 4) & 1) === 1) {
+      return {
+        secs: BigInt(view.getInt32(position + 5, true)),
+        nsecs: 0
+      }
+    }
+
+    position += 4 + length
+  }
+}
+
+async function readBytes (zip: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await zip.slice(start, end).arrayBuffer())
+}
+
+/**
+ * Zip entry names are relative, directories have a trailing slash and some
+ * archivers use backslashes. Names come from the archive so must not be able to
+ * escape the directory they are imported into
+ */
+function toPath (name: string): string {
+  const path = name.replace(/\\/g, '/')
+
+  if (path.startsWith('/') || /^[a-zA-Z]:/.test(path)) {
+    throw new InvalidParametersError(`Refusing to import absolute path "${name}"`)
+  }
+
+  const parts = path
+    .split('/')
+    .filter(part => part !== '' && part !== '.')
+
+  if (parts.includes('..')) {
+    throw new InvalidParametersError(`Refusing to import invalid path "${name}"`)
+  }
+
+  return parts.join('/')
+}
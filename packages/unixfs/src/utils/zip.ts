@@ -0,0 +1,89 @@
+/**
+ * Constants and helpers shared by the zip reader and writer, see
+ * https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+ */
+
+export const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50
+export const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50
+export const CENTRAL_DIRECTORY_HEADER_SIGNATURE = 0x02014b50
+export const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+
+export const LOCAL_FILE_HEADER_LENGTH = 30
+export const DATA_DESCRIPTOR_LENGTH = 16
+export const CENTRAL_DIRECTORY_HEADER_LENGTH = 46
+export const END_OF_CENTRAL_DIRECTORY_LENGTH = 22
+
+export const METHOD_STORE = 0
+export const METHOD_DEFLATE = 8
+
+export const FLAG_ENCRYPTED = 0x0001
+export const FLAG_DATA_DESCRIPTOR = 0x0008
+export const FLAG_UTF8 = 0x0800
+
+export const EXTENDED_TIMESTAMP_EXTRA_FIELD = 0x5455
+
+/**
+ * The high byte of "version made by" that means the external attributes hold
+ * a unix mode
+ */
+export const HOST_UNIX = 3
+
+/**
+ * Version 2.0 supports deflate and directories
+ */
+export const ZIP_VERSION = 20
+
+export const S_IFMT = 0o170000
+export const S_IFDIR = 0o040000
+export const S_IFREG = 0o100000
+export const S_IFLNK = 0o120000
+
+const CRC_TABLE = new Int32Array(256).map((_, n) => {
+  let c = n
+
+  for (let k = 0; k < 8; k++) {
+    c = (c & 1) === 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+
+  return c
+})
+
+/**
+ * Update a CRC-32 checksum with the passed bytes, pass the previous result to
+ * calculate the checksum of data that arrives in chunks
+ */
+export function crc32 (buf: Uint8Array, crc: number = 0): number {
+  crc = ~crc
+
+  for (let i = 0; i < buf.byteLength; i++) {
+    crc = CRC_TABLE[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8)
+  }
+
+  return ~crc >>> 0
+}
+
+/**
+ * MS-DOS dates are in local time with two second precision and cannot be
+ * before 1980
+ */
+export function toDosDateTime (date: Date): { time: number, date: number } {
+  if (date.getFullYear() < 1980) {
+    return { time: 0, date: (1 << 5) | 1 }
+  }
+
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+export function fromDosDateTime (time: number, date: number): Date {
+  return new Date(
+    (date >>> 9) + 1980,
+    ((date >>> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >>> 11,
+    (time >>> 5) & 0x3f,
+    (time & 0x1f) * 2
+  )
+}
@@ -41,6 +41,24 @@ describe('addAll', () => {
 
     expect(res?.cid.toString()).to.equal('bafybeievhllpjjjbyg53g74wcl5hckdccjjj7zgtexqcacjegoduegnkyu')
   })
+
+  it('adds symlinks', async () => {
+    const output = await all(fs.addAll([{
+      path: './dir/foo.txt',
+      content: Uint8Array.from([0, 1, 2, 3, 4])
+    }, {
+      path: './dir/link',
+      target: 'foo.txt'
+    }]))
+
+    expect(output).to.have.lengthOf(3)
+    expect(output).to.have.nested.property('[1].path', 'dir/link')
+    expect(output).to.have.nested.property('[1].unixfs.type', 'symlink')
+
+    await expect(fs.readlink(output[2].cid, {
+      path: 'link'
+    })).to.eventually.equal('foo.txt')
+  })
 })
 
 describe('addBytes', () => {
@@ -75,6 +93,12 @@ describe('addByteStream', () => {
 
     expect(cid.toString()).to.equal('bafkreiaixnpf23vkyecj5xqispjq5ubcwgsntnnurw2bjby7khe4wnjihu')
   })
+
+  it('adds bytes from a ReadableStream', async () => {
+    const cid = await fs.addByteStream(new Blob([Uint8Array.from([0, 1, 2, 3, 4])]).stream())
+
+    expect(cid.toString()).to.equal('bafkreiaixnpf23vkyecj5xqispjq5ubcwgsntnnurw2bjby7khe4wnjihu')
+  })
 })
 
 describe('addFile', () => {
@@ -0,0 +1,153 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import { fixedSize } from 'ipfs-unixfs-importer/chunker'
+import { balanced } from 'ipfs-unixfs-importer/layout'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { unixfs, type UnixFS } from '../src/index.js'
+import { largeFile, smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('append', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let emptyDirCid: CID
+
+  const chunkSize = 4
+  const maxChildrenPerNode = 3
+  const importerOptions = {
+    chunker: fixedSize({ chunkSize }),
+    layout: balanced({ maxChildrenPerNode })
+  }
+  const appendOptions = {
+    chunkSize,
+    maxChildrenPerNode
+  }
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+
+    fs = unixfs({ blockstore })
+
+    emptyDirCid = await fs.addDirectory()
+  })
+
+  function bytes (length: number, start = 0): Uint8Array {
+    return Uint8Array.from(new Array(length).fill(0).map((_, i) => (start + i) % 256))
+  }
+
+  it('appends to a small file', async () => {
+    const cid = await fs.addBytes(smallFile)
+    const updatedCid = await fs.append(cid, [Uint8Array.from([0, 1, 2])])
+    const expected = Uint8Array.from([...smallFile, 0, 1, 2])
+
+    expect(await toBuffer(fs.cat(updatedCid))).to.equalBytes(expected)
+    await expect(fs.addBytes(expected)).to.eventually.deep.equal(updatedCid)
+  })
+
+  it('appends to a large file', async () => {
+    const cid = await fs.addBytes(largeFile)
+    const updatedCid = await fs.append(cid, [smallFile, smallFile])
+    const expected = Uint8Array.from([...largeFile, ...smallFile, ...smallFile])
+
+    await expect(fs.addBytes(expected)).to.eventually.deep.equal(updatedCid)
+  })
+
+  it('creates the same DAG as importing the combined content', async () => {
+    for (let initial = 0; initial < 40; initial += 3) {
+      for (const appended of [1, 3, 4, 11, 40]) {
+        const original = bytes(initial)
+        const extra = bytes(appended, initial)
+        const cid = await fs.addBytes(original, importerOptions)
+        const updatedCid = await fs.append(cid, [extra.subarray(0, 2), extra.subarray(2)], appendOptions)
+        const expectedCid = await fs.addBytes(bytes(initial + appended), importerOptions)
+
+        expect(updatedCid.toString()).to.equal(expectedCid.toString(), `appending ${appended} bytes to ${initial} bytes`)
+      }
+    }
+  })
+
+  it('creates the same DAG as importing the combined content with dag-pb leaves', async () => {
+    for (const [initial, appended] of [[3, 1], [12, 12], [36, 1], [0, 20]]) {
+      const cid = await fs.addBytes(bytes(initial), {
+        ...importerOptions,
+        rawLeaves: false
+      })
+      const updatedCid = await fs.append(cid, [bytes(appended, initial)], {
+        ...appendOptions,
+        rawLeaves: false
+      })
+      const expectedCid = await fs.addBytes(bytes(initial + appended), {
+        ...importerOptions,
+        rawLeaves: false
+      })
+
+      expect(updatedCid.toString()).to.equal(expectedCid.toString(), `appending ${appended} bytes to ${initial} bytes`)
+    }
+  })
+
+  it('preserves metadata', async () => {
+    for (const [initial, appended] of [[3, 1], [3, 20], [36, 1]]) {
+      const metadata = {
+        mode: 0o777,
+        mtime: {
+          secs: 5n
+        }
+      }
+      const cid = await fs.addFile({
+        content: bytes(initial),
+        ...metadata
+      }, importerOptions)
+      const updatedCid = await fs.append(cid, [bytes(appended, initial)], appendOptions)
+      const expectedCid = await fs.addFile({
+        content: bytes(initial + appended),
+        ...metadata
+      }, importerOptions)
+
+      expect(updatedCid.toString()).to.equal(expectedCid.toString(), `appending ${appended} bytes to ${initial} bytes`)
+      await expect(fs.stat(updatedCid)).to.eventually.have.property('mode', 0o777)
+    }
+  })
+
+  it('only writes new or changed blocks', async () => {
+    const cid = await fs.addBytes(bytes(36), importerOptions)
+    const before = await all(blockstore.getAll())
+
+    await fs.append(cid, [bytes(1, 36)], appendOptions)
+
+    const after = await all(blockstore.getAll())
+
+    // the existing root is full so it becomes the first child of a new root,
+    // the new leaf needs a new parent and grandparent as the second child
+    expect(after).to.have.lengthOf(before.length + 4)
+  })
+
+  it('appends to a file inside a directory', async () => {
+    const path = 'foo.txt'
+    const fileCid = await fs.addBytes(smallFile)
+    const dirCid = await fs.cp(fileCid, emptyDirCid, path)
+    const updatedCid = await fs.append(dirCid, [Uint8Array.from([0, 1, 2])], {
+      path
+    })
+
+    const output = await toBuffer(fs.cat(updatedCid, {
+      path
+    }))
+
+    expect(output).to.equalBytes(Uint8Array.from([...smallFile, 0, 1, 2]))
+  })
+
+  it('returns the original CID when nothing is appended', async () => {
+    const cid = await fs.addBytes(smallFile)
+
+    await expect(fs.append(cid, [])).to.eventually.deep.equal(cid)
+  })
+
+  it('refuses to append to a directory', async () => {
+    await expect(fs.append(emptyDirCid, [Uint8Array.from([0, 1, 2])])).to.eventually.be.rejected
+      .with.property('code', 'ERR_NOT_A_FILE')
+  })
+})
@@ -0,0 +1,254 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { unixfs, type UnixFS } from '../src/index.js'
+import { createShardedDirectory } from './fixtures/create-sharded-directory.js'
+import { smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('batch', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let emptyDirCid: CID
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+
+    fs = unixfs({ blockstore })
+
+    emptyDirCid = await fs.addDirectory()
+  })
+
+  it('creates the same DAG as running the operations one at a time', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+
+    const batch = fs.batch(emptyDirCid)
+    await batch.mkdir('a')
+    await batch.cp(fileCid, 'a/foo.txt')
+    await batch.cp(fileCid, 'b/c/bar.txt', {
+      parents: true
+    })
+    await batch.cp(fileCid, 'baz.txt')
+    await batch.rm('baz.txt')
+    const updatedCid = await batch.commit()
+
+    let expectedCid = await fs.mkdir(emptyDirCid, 'a')
+    expectedCid = await fs.cp(fileCid, expectedCid, 'a/foo.txt')
+    expectedCid = await fs.cp(fileCid, expectedCid, 'b/c/bar.txt', {
+      parents: true
+    })
+
+    expect(updatedCid.toString()).to.equal(expectedCid.toString())
+  })
+
+  it('only writes the final version of each directory', async () => {
+    const batch = fs.batch(emptyDirCid)
+
+    for (let i = 0; i < 100; i++) {
+      await batch.cp(await fs.addBytes(Uint8Array.from([i])), `dir/file-${i}.txt`, {
+        parents: true
+      })
+    }
+
+    const before = await all(blockstore.getAll())
+
+    await batch.commit()
+
+    const after = await all(blockstore.getAll())
+
+    // "dir" and the root
+    expect(after).to.have.lengthOf(before.length + 2)
+  })
+
+  it('creates a sharded directory', async () => {
+    const options = {
+      shardSplitThresholdBytes: 1
+    }
+    const batch = fs.batch(emptyDirCid, options)
+    let expectedCid = emptyDirCid
+
+    for (let i = 0; i < 20; i++) {
+      const fileCid = await fs.addBytes(Uint8Array.from([i]))
+
+      await batch.cp(fileCid, `file-${i}.txt`)
+      expectedCid = await fs.cp(fileCid, expectedCid, `file-${i}.txt`, options)
+    }
+
+    const updatedCid = await batch.commit()
+
+    expect(updatedCid.toString()).to.equal(expectedCid.toString())
+    await expect(fs.stat(updatedCid)).to.eventually.have.nested.property('unixfs.type', 'hamt-sharded-directory')
+  })
+
+  it('removes entries from a sharded directory', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore)
+    const options = {
+      shardSplitThresholdBytes: 1
+    }
+
+    const batch = fs.batch(shardedDirCid, options)
+    await batch.rm('file-1')
+    await batch.rm('file-2')
+    await batch.cp(await fs.addBytes(smallFile), 'new-file')
+    const updatedCid = await batch.commit()
+
+    let expectedCid = await fs.rm(shardedDirCid, 'file-1', options)
+    expectedCid = await fs.rm(expectedCid, 'file-2', options)
+    expectedCid = await fs.cp(await fs.addBytes(smallFile), expectedCid, 'new-file', options)
+
+    expect(updatedCid.toString()).to.equal(expectedCid.toString())
+  })
+
+  it('updates files and metadata', async () => {
+    const fileCid = await fs.addBytes(Uint8Array.from([0, 1, 2, 3]))
+    const dirCid = await fs.cp(fileCid, await fs.mkdir(emptyDirCid, 'dir'), 'dir/foo.txt')
+    const mtime = {
+      secs: 5n,
+      nsecs: 0
+    }
+
+    const batch = fs.batch(dirCid)
+    await batch.write('dir/foo.txt', Uint8Array.from([4, 5]), {
+      offset: 1
+    })
+    await batch.chmod('dir/foo.txt', 0o600)
+    await batch.chmod('dir', 0o700)
+    await batch.touch('', {
+      mtime
+    })
+    const updatedCid = await batch.commit()
+
+    expect(await toBuffer(fs.cat(updatedCid, {
+      path: 'dir/foo.txt'
+    }))).to.equalBytes(Uint8Array.from([0, 4, 5, 3]))
+    await expect(fs.stat(updatedCid, {
+      path: 'dir/foo.txt'
+    })).to.eventually.have.property('mode', 0o600)
+    await expect(fs.stat(updatedCid, {
+      path: 'dir'
+    })).to.eventually.have.property('mode', 0o700)
+    await expect(fs.stat(updatedCid)).to.eventually.have.nested.property('mtime.secs', 5n)
+  })
+
+  it('updates the mtime of changed directories that have one', async () => {
+    const dirCid = await fs.touch(emptyDirCid, {
+      mtime: {
+        secs: 5n,
+        nsecs: 0
+      }
+    })
+    const now = Date.now
+
+    const batch = fs.batch(dirCid)
+    await batch.cp(await fs.addBytes(smallFile), 'foo.txt')
+
+    try {
+      Date.now = () => 1577836800999
+      const updatedCid = await batch.commit()
+
+      await expect(fs.stat(updatedCid)).to.eventually.have.deep.property('mtime', {
+        secs: 1577836800n,
+        nsecs: 999000000
+      })
+    } finally {
+      Date.now = now
+    }
+  })
+
+  it('only writes the final blocks of changed files on commit', async () => {
+    const fileCid = await fs.addBytes(Uint8Array.from([0, 1, 2, 3]))
+    const dirCid = await fs.cp(fileCid, emptyDirCid, 'foo.txt')
+    const puts: CID[] = []
+    const put = blockstore.put.bind(blockstore)
+    blockstore.put = async (cid, block, options) => {
+      puts.push(cid)
+      return put(cid, block, options)
+    }
+
+    const batch = fs.batch(dirCid)
+    await batch.write('foo.txt', Uint8Array.from([4, 5]), {
+      offset: 1
+    })
+    await batch.write('foo.txt', Uint8Array.from([6]))
+    await batch.chmod('foo.txt', 0o600)
+    await batch.touch('foo.txt', {
+      mtime: {
+        secs: 5n,
+        nsecs: 0
+      }
+    })
+
+    expect(puts).to.be.empty()
+
+    const updatedCid = await batch.commit()
+    const stats = await fs.stat(updatedCid, {
+      path: 'foo.txt'
+    })
+
+    // the final file and the root
+    expect(puts.map(cid => cid.toString())).to.have.members([stats.cid.toString(), updatedCid.toString()])
+    expect(await toBuffer(fs.cat(updatedCid, {
+      path: 'foo.txt'
+    }))).to.equalBytes(Uint8Array.from([6, 4, 5, 3]))
+    expect(stats).to.include({
+      mode: 0o600
+    })
+    expect(stats).to.have.nested.property('mtime.secs', 5n)
+  })
+
+  it('can be used after it has been committed', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+
+    const batch = fs.batch(emptyDirCid)
+    await batch.cp(fileCid, 'foo.txt')
+    const firstCid = await batch.commit()
+
+    await batch.cp(fileCid, 'bar.txt')
+    const secondCid = await batch.commit()
+
+    expect(secondCid.toString()).to.equal((await fs.cp(fileCid, firstCid, 'bar.txt')).toString())
+  })
+
+  it('returns the original CID when nothing changed', async () => {
+    await expect(fs.batch(emptyDirCid).commit()).to.eventually.deep.equal(emptyDirCid)
+  })
+
+  it('refuses to overwrite an existing entry', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+    const batch = fs.batch(emptyDirCid)
+    await batch.cp(fileCid, 'foo.txt')
+
+    await expect(batch.cp(fileCid, 'foo.txt')).to.eventually.be.rejected
+      .with.property('code', 'ERR_ALREADY_EXISTS')
+
+    // should succeed with force option
+    await batch.cp(fileCid, 'foo.txt', {
+      force: true
+    })
+  })
+
+  it('refuses to remove a missing entry', async () => {
+    await expect(fs.batch(emptyDirCid).rm('foo.txt')).to.eventually.be.rejected
+      .with.property('code', 'ERR_DOES_NOT_EXIST')
+  })
+
+  it('refuses to add to a missing directory without parents', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+
+    await expect(fs.batch(emptyDirCid).cp(fileCid, 'foo/bar.txt')).to.eventually.be.rejected
+      .with.property('code', 'ERR_DOES_NOT_EXIST')
+  })
+
+  it('refuses to add to a file', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+    const batch = fs.batch(emptyDirCid)
+    await batch.cp(fileCid, 'foo.txt')
+
+    await expect(batch.cp(fileCid, 'foo.txt/bar.txt')).to.eventually.be.rejected
+      .with.property('code', 'ERR_NOT_A_DIRECTORY')
+  })
+})
@@ -2,9 +2,11 @@
 
 import { expect } from 'aegir/chai'
 import { MemoryBlockstore } from 'blockstore-core'
+import { fixedSize } from 'ipfs-unixfs-importer/chunker'
+import { balanced } from 'ipfs-unixfs-importer/layout'
 import drain from 'it-drain'
 import toBuffer from 'it-to-buffer'
-import { unixfs, type UnixFS } from '../src/index.js'
+import { unixfs, type CatProgress, type UnixFS } from '../src/index.js'
 import { createShardedDirectory } from './fixtures/create-sharded-directory.js'
 import { smallFile } from './fixtures/files.js'
 import type { Blockstore } from 'interface-blockstore'
@@ -92,4 +94,101 @@ describe('cat', () => {
 
     expect(bytes).to.deep.equal(smallFile)
   })
+
+  describe('read ahead', () => {
+    const chunkSize = 1024
+    const data = Uint8Array.from({ length: chunkSize * 20 }, (_, i) => i % 256)
+    let cid: CID
+    let inFlight: number
+    let maxInFlight: number
+
+    beforeEach(async () => {
+      cid = await fs.addBytes(data, {
+        chunker: fixedSize({ chunkSize }),
+        layout: balanced({
+          maxChildrenPerNode: 4
+        })
+      })
+
+      inFlight = 0
+      maxInFlight = 0
+
+      const get = blockstore.get.bind(blockstore)
+      blockstore.get = async (cid, options) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+
+        try {
+          await new Promise(resolve => setTimeout(resolve, 5))
+          return await get(cid, options)
+        } finally {
+          inFlight--
+        }
+      }
+    })
+
+    it('reads a file in order', async () => {
+      const ranges: Array<[number, number | undefined]> = [[0, undefined], [0, 10], [1020, 10], [5000, 8000], [data.byteLength - 5, 100], [data.byteLength, 10]]
+
+      for (const [offset, length] of ranges) {
+        const bytes = await toBuffer(fs.cat(cid, {
+          offset,
+          length,
+          readAhead: chunkSize * 4
+        }))
+
+        expect(bytes).to.equalBytes(data.subarray(offset, length == null ? undefined : offset + length))
+      }
+
+      await expect(drain(fs.cat(cid, {
+        offset: data.byteLength + 1,
+        readAhead: chunkSize * 4
+      }))).to.eventually.be.rejected
+        .with.property('code', 'ERR_INVALID_PARAMETERS')
+    })
+
+    it('loads blocks in parallel', async () => {
+      await drain(fs.cat(cid, {
+        readAhead: chunkSize * 100,
+        concurrency: 3
+      }))
+      expect(maxInFlight).to.equal(3)
+    })
+
+    it('limits how many bytes are read ahead', async () => {
+      await drain(fs.cat(cid, {
+        readAhead: chunkSize * 2
+      }))
+
+      expect(maxInFlight).to.equal(2)
+    })
+
+    it('reports bytes delivered and blocks prefetched', async () => {
+      const events: CatProgress[] = []
+
+      await drain(fs.cat(cid, {
+        readAhead: chunkSize * 4,
+        onProgress: (evt) => {
+          if (evt.type === 'unixfs:cat:progress') {
+            events.push(evt.detail)
+          }
+        }
+      }))
+
+      expect(events[events.length - 1]).to.deep.equal({
+        cid,
+        bytesDelivered: data.byteLength,
+        // 20 leaves, 5 parents, 2 grandparents and the root
+        blocksPrefetched: 28
+      })
+      expect(events.every(event => event.bytesDelivered <= event.blocksPrefetched * chunkSize)).to.be.true()
+    })
+
+    it('refuses to read a directory', async () => {
+      await expect(drain(fs.cat(emptyDirCid, {
+        readAhead: chunkSize
+      }))).to.eventually.be.rejected
+        .with.property('code', 'ERR_NOT_A_FILE')
+    })
+  })
 })
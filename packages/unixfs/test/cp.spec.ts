@@ -181,6 +181,41 @@ describe('cp', () => {
     expect(finalDirCid).to.eql(containingDirCid, 'adding a file to the imported dir did not result in the same CID')
   })
 
+  it('copies a file to a path in a subdirectory', async () => {
+    const data = Uint8Array.from([0, 1, 3, 4])
+    const source = await fs.addBytes(data)
+    const dirCid = await fs.mkdir(emptyDirCid, 'foo')
+    const updatedCid = await fs.cp(source, dirCid, 'foo/bar.txt')
+
+    const bytes = await toBuffer(fs.cat(updatedCid, {
+      path: 'foo/bar.txt'
+    }))
+
+    expect(bytes).to.deep.equal(data)
+  })
+
+  it('refuses to copy a file to a path with missing parents', async () => {
+    const source = await fs.addBytes(Uint8Array.from([0, 1, 3, 4]))
+
+    await expect(fs.cp(source, emptyDirCid, 'foo/bar.txt')).to.eventually.be.rejected
+      .with.property('code', 'ERR_DOES_NOT_EXIST')
+  })
+
+  it('copies a file to a path creating missing parents', async () => {
+    const data = Uint8Array.from([0, 1, 3, 4])
+    const source = await fs.addBytes(data)
+    const shardedDirCid = await createShardedDirectory(blockstore)
+    const updatedCid = await fs.cp(source, shardedDirCid, 'foo/bar/baz.txt', {
+      parents: true
+    })
+
+    const bytes = await toBuffer(fs.cat(updatedCid, {
+      path: 'foo/bar/baz.txt'
+    }))
+
+    expect(bytes).to.deep.equal(data)
+  })
+
   it('refuses to copy missing blocks', async () => {
     const cid = await fs.addBytes(smallFile)
 
@@ -0,0 +1,134 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import all from 'it-all'
+import { unixfs, type UnixFS } from '../src/index.js'
+import { createShardedDirectory } from './fixtures/create-sharded-directory.js'
+import { smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('diff', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let dirCid: CID
+  let fileCid: CID
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+
+    fs = unixfs({ blockstore })
+
+    fileCid = await fs.addBytes(smallFile)
+    dirCid = await fs.addDirectory()
+
+    for (const path of ['index.html', 'css/site.css', 'js/site.js']) {
+      dirCid = await fs.cp(fileCid, dirCid, path, {
+        parents: true
+      })
+    }
+  })
+
+  it('yields nothing for the same CID', async () => {
+    await expect(all(fs.diff(dirCid, dirCid))).to.eventually.be.empty()
+  })
+
+  it('finds added, removed and modified files', async () => {
+    const otherFileCid = await fs.addBytes(Uint8Array.from([0, 1, 2, 3]))
+    let updatedCid = await fs.rm(dirCid, 'css/site.css')
+    updatedCid = await fs.cp(otherFileCid, updatedCid, 'js/site.js', {
+      force: true
+    })
+    updatedCid = await fs.cp(otherFileCid, updatedCid, 'about.html')
+
+    const entries = await all(fs.diff(dirCid, updatedCid))
+
+    expect(entries).to.have.lengthOf(3)
+    expect(entries).to.deep.include({
+      path: 'css/site.css',
+      type: 'removed',
+      oldCid: fileCid
+    })
+    expect(entries).to.deep.include({
+      path: 'js/site.js',
+      type: 'modified',
+      oldCid: fileCid,
+      newCid: otherFileCid
+    })
+    expect(entries).to.deep.include({
+      path: 'about.html',
+      type: 'added',
+      newCid: otherFileCid
+    })
+  })
+
+  it('reports added directories as a single entry', async () => {
+    const updatedCid = await fs.cp(fileCid, dirCid, 'img/a/b.png', {
+      parents: true
+    })
+
+    const entries = await all(fs.diff(dirCid, updatedCid))
+
+    expect(entries.map(entry => [entry.type, entry.path])).to.deep.equal([
+      ['added', 'img']
+    ])
+  })
+
+  it('reports directories with changed metadata as modified', async () => {
+    const updatedCid = await fs.chmod(dirCid, 0o700, {
+      path: 'css'
+    })
+
+    const entries = await all(fs.diff(dirCid, updatedCid))
+
+    expect(entries.map(entry => [entry.type, entry.path])).to.deep.equal([
+      ['modified', 'css']
+    ])
+  })
+
+  it('reports a changed file root as modified', async () => {
+    const otherFileCid = await fs.addBytes(Uint8Array.from([0, 1, 2, 3]))
+
+    await expect(all(fs.diff(fileCid, otherFileCid))).to.eventually.deep.equal([{
+      path: '',
+      type: 'modified',
+      oldCid: fileCid,
+      newCid: otherFileCid
+    }])
+  })
+
+  it('compares sharded directories bucket by bucket', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore)
+    const updatedCid = await fs.rm(shardedDirCid, 'file-500', {
+      shardSplitThresholdBytes: 1
+    })
+
+    let gets = 0
+    const get = blockstore.get.bind(blockstore)
+    blockstore.get = async (...args) => {
+      gets++
+      return get(...args)
+    }
+
+    const entries = await all(fs.diff(shardedDirCid, updatedCid))
+
+    expect(entries.map(entry => [entry.type, entry.path])).to.deep.equal([
+      ['removed', 'file-500']
+    ])
+    expect(gets).to.be.lessThan(10, 'loaded too many blocks')
+  })
+
+  it('compares a sharded directory with a flat directory', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore, 5)
+    const updatedCid = await fs.rm(shardedDirCid, 'file-1')
+
+    await expect(fs.stat(updatedCid)).to.eventually.have.nested.property('unixfs.type', 'directory')
+
+    const entries = await all(fs.diff(shardedDirCid, updatedCid))
+
+    expect(entries.map(entry => [entry.type, entry.path])).to.deep.equal([
+      ['removed', 'file-1']
+    ])
+  })
+})
@@ -0,0 +1,175 @@
+/* eslint-env mocha */
+
+import { CarBlockIterator } from '@ipld/car'
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import { exporter } from 'ipfs-unixfs-exporter'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { unixfs, type UnixFS } from '../src/index.js'
+import { createShardedDirectory } from './fixtures/create-sharded-directory.js'
+import { largeFile, smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('exportCar', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let emptyDirCid: CID
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+
+    fs = unixfs({ blockstore })
+
+    emptyDirCid = await fs.addDirectory()
+  })
+
+  /**
+   * Import the blocks from a CAR file into a new blockstore
+   */
+  async function importCar (car: AsyncIterable<Uint8Array>): Promise<{ roots: CID[], cids: string[], blockstore: Blockstore, fs: UnixFS }> {
+    const iterator = await CarBlockIterator.fromIterable(car)
+    const blockstore = new MemoryBlockstore()
+    const cids: string[] = []
+
+    for await (const { cid, bytes } of iterator) {
+      cids.push(cid.toString())
+      await blockstore.put(cid, bytes)
+    }
+
+    return {
+      roots: await iterator.getRoots(),
+      cids,
+      blockstore,
+      fs: unixfs({ blockstore })
+    }
+  }
+
+  it('exports a file', async () => {
+    const fileCid = await fs.addBytes(largeFile)
+    const result = await importCar(fs.exportCar(fileCid))
+
+    expect(result.roots.map(cid => cid.toString())).to.deep.equal([fileCid.toString()])
+    expect(result.cids[0]).to.equal(fileCid.toString())
+    expect(await toBuffer(result.fs.cat(fileCid))).to.equalBytes(largeFile)
+  })
+
+  it('exports blocks in depth-first order', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+    let dirCid = await fs.cp(fileCid, emptyDirCid, 'a/foo.txt', {
+      parents: true
+    })
+    dirCid = await fs.mkdir(dirCid, 'b')
+
+    const aCid = (await fs.stat(dirCid, { path: 'a' })).cid
+    const bCid = (await fs.stat(dirCid, { path: 'b' })).cid
+    const result = await importCar(fs.exportCar(dirCid))
+
+    expect(result.cids).to.deep.equal([
+      dirCid.toString(),
+      aCid.toString(),
+      fileCid.toString(),
+      bCid.toString()
+    ])
+  })
+
+  it('exports a path inside a directory', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+    const otherCid = await fs.addBytes(Uint8Array.from([0, 1, 2, 3]))
+    let dirCid = await fs.cp(fileCid, emptyDirCid, 'a/foo.txt', {
+      parents: true
+    })
+    dirCid = await fs.cp(otherCid, dirCid, 'bar.txt')
+
+    const aCid = (await fs.stat(dirCid, { path: 'a' })).cid
+    const result = await importCar(fs.exportCar(dirCid, {
+      path: 'a/foo.txt'
+    }))
+
+    expect(result.roots.map(cid => cid.toString())).to.deep.equal([dirCid.toString()])
+    expect(result.cids).to.deep.equal([
+      dirCid.toString(),
+      aCid.toString(),
+      fileCid.toString()
+    ])
+    expect(await toBuffer(result.fs.cat(dirCid, {
+      path: 'a/foo.txt'
+    }))).to.equalBytes(smallFile)
+  })
+
+  it('only exports the buckets of a sharded directory needed to resolve a path', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore)
+    const allBlocks = await importCar(fs.exportCar(shardedDirCid))
+    const result = await importCar(fs.exportCar(shardedDirCid, {
+      path: 'file-100'
+    }))
+
+    expect(result.cids.length).to.be.lessThan(allBlocks.cids.length)
+
+    // the exporter only loads the buckets on the way to the file
+    const entry = await exporter(`${shardedDirCid}/file-100`, result.blockstore)
+    expect(await toBuffer(entry.content())).to.equalBytes(Uint8Array.from([0, 1, 2, 3, 4]))
+  })
+
+  it('only exports the blocks needed to read a byte range', async () => {
+    const fileCid = await fs.addBytes(largeFile)
+    const offset = 300000
+    const length = 100
+    const result = await importCar(fs.exportCar(fileCid, {
+      offset,
+      length
+    }))
+
+    // the root and the leaf holding the range
+    expect(result.cids).to.have.lengthOf(2)
+    expect(await toBuffer(result.fs.cat(fileCid, {
+      offset,
+      length
+    }))).to.equalBytes(largeFile.subarray(offset, offset + length))
+  })
+
+  it('creates the same CAR file every time', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore, 100)
+
+    const first = await toBuffer(fs.exportCar(shardedDirCid))
+    const second = await toBuffer(fs.exportCar(shardedDirCid))
+
+    expect(first).to.equalBytes(second)
+  })
+
+  it('stops loading blocks when the consumer stops reading', async () => {
+    const fileCid = await fs.addBytes(largeFile)
+    // the blocks of the file and the empty directory
+    const blocks = await all(blockstore.getAll())
+    const get = blockstore.get.bind(blockstore)
+    const signals: Array<AbortSignal | undefined> = []
+    blockstore.get = async (cid, options) => {
+      signals.push(options?.signal)
+      return get(cid, options)
+    }
+
+    // eslint-disable-next-line no-unreachable-loop
+    for await (const buf of fs.exportCar(fileCid)) {
+      expect(buf).to.have.property('byteLength').that.is.greaterThan(0)
+      break
+    }
+
+    expect(signals).to.have.length.that.is.lessThan(blocks.length - 1)
+    expect(signals.every(signal => signal?.aborted === true)).to.be.true()
+  })
+
+  it('refuses to export a missing path', async () => {
+    await expect(all(fs.exportCar(emptyDirCid, {
+      path: 'foo.txt'
+    }))).to.eventually.be.rejected
+      .with.property('code', 'ERR_DOES_NOT_EXIST')
+  })
+
+  it('refuses to export a byte range of a directory', async () => {
+    await expect(all(fs.exportCar(emptyDirCid, {
+      offset: 10
+    }))).to.eventually.be.rejected
+      .with.property('code', 'ERR_NOT_A_FILE')
+  })
+})
@@ -0,0 +1,139 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import all from 'it-all'
+import { extract } from 'it-tar'
+import toBuffer from 'it-to-buffer'
+import { unixfs, type UnixFS } from '../src/index.js'
+import { tarSource } from '../src/utils/tar-source.js'
+import { createShardedDirectory } from './fixtures/create-sharded-directory.js'
+import { largeFile, smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { TarEntryHeader } from 'it-tar'
+import type { CID } from 'multiformats/cid'
+
+describe('exportTar', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let emptyDirCid: CID
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+
+    fs = unixfs({ blockstore })
+
+    emptyDirCid = await fs.addDirectory()
+  })
+
+  /**
+   * Read the headers and contents of every entry in a tar archive
+   */
+  async function readTar (tar: AsyncIterable<Uint8Array>): Promise<Array<{ header: TarEntryHeader, body: Uint8Array }>> {
+    const output: Array<{ header: TarEntryHeader, body: Uint8Array }> = []
+
+    for await (const entry of extract()(tar)) {
+      output.push({
+        header: entry.header,
+        body: await toBuffer(entry.body)
+      })
+    }
+
+    return output
+  }
+
+  it('exports a directory tree', async () => {
+    const fileCid = await fs.addBytes(largeFile)
+    let dirCid = await fs.cp(fileCid, emptyDirCid, 'a/foo.txt', {
+      parents: true
+    })
+    dirCid = await fs.cp(await fs.addBytes(smallFile), dirCid, 'bar.txt')
+
+    const entries = await readTar(fs.exportTar(dirCid))
+
+    expect(entries.map(entry => entry.header.name)).to.deep.equal(['a/', 'a/foo.txt', 'bar.txt'])
+    expect(entries[0].header).to.have.property('type', 'directory')
+    expect(entries[1].body).to.equalBytes(largeFile)
+    expect(entries[2].body).to.equalBytes(smallFile)
+  })
+
+  it('restores mode and mtime', async () => {
+    let fileCid = await fs.addBytes(smallFile)
+    fileCid = await fs.chmod(fileCid, 0o600)
+    fileCid = await fs.touch(fileCid, {
+      mtime: {
+        secs: 10n,
+        nsecs: 0
+      }
+    })
+    const dirCid = await fs.cp(fileCid, emptyDirCid, 'foo.txt')
+
+    const entries = await readTar(fs.exportTar(dirCid))
+
+    expect(entries[0].header).to.have.property('mode', 0o600)
+    expect(entries[0].header.mtime.getTime()).to.equal(10000)
+  })
+
+  it('exports symlinks', async () => {
+    const dirCid = await fs.symlink(emptyDirCid, 'link', 'foo.txt')
+
+    const entries = await readTar(fs.exportTar(dirCid))
+
+    expect(entries[0].header).to.include({
+      name: 'link',
+      type: 'symlink',
+      linkname: 'foo.txt'
+    })
+  })
+
+  it('exports a single file', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+    const dirCid = await fs.cp(fileCid, emptyDirCid, 'foo.txt')
+
+    const entries = await readTar(fs.exportTar(dirCid, {
+      path: 'foo.txt'
+    }))
+
+    expect(entries).to.have.lengthOf(1)
+    expect(entries[0].header).to.have.property('name', 'foo.txt')
+    expect(entries[0].body).to.equalBytes(smallFile)
+  })
+
+  it('exports a sharded directory', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore, 100)
+
+    const entries = await readTar(fs.exportTar(shardedDirCid))
+
+    expect(entries).to.have.lengthOf((await all(fs.ls(shardedDirCid))).length)
+  })
+
+  it('round trips a directory tree through a tar archive', async () => {
+    const fileCid = await fs.touch(await fs.chmod(await fs.addBytes(smallFile), 0o600), {
+      mtime: {
+        secs: 10n,
+        nsecs: 0
+      }
+    })
+    let dirCid = await fs.cp(fileCid, emptyDirCid, 'foo.txt')
+    dirCid = await fs.symlink(dirCid, 'link', 'foo.txt')
+
+    const results = await all(fs.addAll(tarSource(fs.exportTar(dirCid)), {
+      wrapWithDirectory: true
+    }))
+
+    const rootCid = results[results.length - 1].cid
+
+    expect((await all(fs.ls(rootCid))).map(entry => entry.name)).to.deep.equal(['foo.txt', 'link'])
+    expect(await toBuffer(fs.cat(rootCid, {
+      path: 'foo.txt'
+    }))).to.equalBytes(smallFile)
+    await expect(fs.stat(rootCid, {
+      path: 'foo.txt'
+    })).to.eventually.include({
+      mode: 0o600
+    }).and.have.deep.property('mtime', { secs: 10n, nsecs: 0 })
+    await expect(fs.readlink(rootCid, {
+      path: 'link'
+    })).to.eventually.equal('foo.txt')
+  })
+})
@@ -0,0 +1,115 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { unixfs, type UnixFS } from '../src/index.js'
+import { zipSource } from '../src/utils/zip-source.js'
+import { createShardedDirectory } from './fixtures/create-sharded-directory.js'
+import { largeFile, smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('exportZip', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let emptyDirCid: CID
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+
+    fs = unixfs({ blockstore })
+
+    emptyDirCid = await fs.addDirectory()
+  })
+
+  /**
+   * Import a zip file into a new directory and return the CID of the directory
+   */
+  async function importZip (zip: AsyncIterable<Uint8Array> | Iterable<Uint8Array>): Promise<CID> {
+    const results = await all(fs.addAll(zipSource(new Blob([await toBuffer(zip)])), {
+      wrapWithDirectory: true
+    }))
+
+    return results[results.length - 1].cid
+  }
+
+  it('exports a directory tree', async () => {
+    let dirCid = await fs.cp(await fs.addBytes(largeFile), emptyDirCid, 'a/foo.txt', {
+      parents: true
+    })
+    dirCid = await fs.cp(await fs.addBytes(smallFile), dirCid, 'bar.txt')
+
+    const rootCid = await importZip(fs.exportZip(dirCid))
+
+    expect((await all(fs.ls(rootCid))).map(entry => entry.name)).to.deep.equal(['a', 'bar.txt'])
+    expect(await toBuffer(fs.cat(rootCid, {
+      path: 'a/foo.txt'
+    }))).to.equalBytes(largeFile)
+    expect(await toBuffer(fs.cat(rootCid, {
+      path: 'bar.txt'
+    }))).to.equalBytes(smallFile)
+  })
+
+  it('compresses file content', async () => {
+    const dirCid = await fs.cp(await fs.addBytes(new Uint8Array(100000)), emptyDirCid, 'zeros.bin')
+
+    const deflated = await toBuffer(fs.exportZip(dirCid))
+    const stored = await toBuffer(fs.exportZip(dirCid, {
+      compression: 'store'
+    }))
+
+    expect(deflated.byteLength).to.be.lessThan(1000)
+    expect(stored.byteLength).to.be.greaterThan(100000)
+    expect(await toBuffer(fs.cat(await importZip([deflated]), {
+      path: 'zeros.bin'
+    }))).to.equalBytes(new Uint8Array(100000))
+  })
+
+  it('restores mode and mtime', async () => {
+    const fileCid = await fs.touch(await fs.chmod(await fs.addBytes(smallFile), 0o600), {
+      mtime: {
+        secs: 1577836800n,
+        nsecs: 0
+      }
+    })
+    const dirCid = await fs.cp(fileCid, emptyDirCid, 'foo.txt')
+
+    const rootCid = await importZip(fs.exportZip(dirCid))
+
+    await expect(fs.stat(rootCid, {
+      path: 'foo.txt'
+    })).to.eventually.include({
+      mode: 0o600
+    }).and.have.deep.property('mtime', { secs: 1577836800n, nsecs: 0 })
+  })
+
+  it('exports symlinks', async () => {
+    const dirCid = await fs.symlink(emptyDirCid, 'link', 'foo.txt')
+
+    const rootCid = await importZip(fs.exportZip(dirCid))
+
+    await expect(fs.readlink(rootCid, {
+      path: 'link'
+    })).to.eventually.equal('foo.txt')
+  })
+
+  it('exports a single file', async () => {
+    const dirCid = await fs.cp(await fs.addBytes(smallFile), emptyDirCid, 'foo.txt')
+
+    const entries = await all(zipSource(new Blob([await toBuffer(fs.exportZip(dirCid, {
+      path: 'foo.txt'
+    }))])))
+
+    expect(entries.map(entry => entry.path)).to.deep.equal(['foo.txt'])
+  })
+
+  it('exports a sharded directory', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore, 100)
+
+    const rootCid = await importZip(fs.exportZip(shardedDirCid))
+
+    expect(await all(fs.ls(rootCid))).to.have.lengthOf((await all(fs.ls(shardedDirCid))).length)
+  })
+})
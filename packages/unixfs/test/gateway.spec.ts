@@ -0,0 +1,210 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { createGatewayHandler, unixfs, type GatewayHandler, type UnixFS } from '../src/index.js'
+import { smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('gateway', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let handler: GatewayHandler
+  let fileCid: CID
+  let dirCid: CID
+  let siteCid: CID
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+    fs = unixfs({ blockstore })
+    handler = createGatewayHandler(fs)
+
+    fileCid = await fs.addBytes(smallFile)
+    dirCid = await fs.addDirectory()
+    dirCid = await fs.cp(fileCid, dirCid, 'file.txt')
+    dirCid = await fs.mkdir(dirCid, 'sub dir')
+    siteCid = await fs.cp(await fs.addBytes(uint8ArrayFromString('<h1>hello</h1>')), await fs.addDirectory(), 'index.html')
+  })
+
+  async function get (path: string, headers: Record<string, string> = {}, method = 'GET'): Promise<Response> {
+    return handler(new Request(`http://localhost${path}`, { method, headers }))
+  }
+
+  it('serves a file', async () => {
+    const res = await get(`/ipfs/${dirCid}/file.txt`)
+
+    expect(res.status).to.equal(200)
+    expect(res.headers.get('etag')).to.equal(`"${fileCid}"`)
+    expect(res.headers.get('content-type')).to.equal('text/plain; charset=utf-8')
+    expect(res.headers.get('content-length')).to.equal(`${smallFile.byteLength}`)
+    expect(res.headers.get('cache-control')).to.include('immutable')
+    expect(new Uint8Array(await res.arrayBuffer())).to.equalBytes(smallFile)
+  })
+
+  it('serves a file by CID', async () => {
+    const res = await get(`/ipfs/${fileCid}`)
+
+    expect(res.status).to.equal(200)
+    expect(res.headers.get('content-type')).to.equal('application/octet-stream')
+    expect(new Uint8Array(await res.arrayBuffer())).to.equalBytes(smallFile)
+  })
+
+  it('does not send a body for HEAD requests', async () => {
+    const res = await get(`/ipfs/${fileCid}`, {}, 'HEAD')
+
+    expect(res.status).to.equal(200)
+    expect(res.headers.get('content-length')).to.equal(`${smallFile.byteLength}`)
+    expect(res.body).to.be.null()
+  })
+
+  it('serves ranges', async () => {
+    let res = await get(`/ipfs/${fileCid}`, { range: 'bytes=2-5' })
+
+    expect(res.status).to.equal(206)
+    expect(res.headers.get('content-range')).to.equal(`bytes 2-5/${smallFile.byteLength}`)
+    expect(new Uint8Array(await res.arrayBuffer())).to.equalBytes(smallFile.subarray(2, 6))
+
+    res = await get(`/ipfs/${fileCid}`, { range: 'bytes=-3' })
+
+    expect(res.status).to.equal(206)
+    expect(new Uint8Array(await res.arrayBuffer())).to.equalBytes(smallFile.subarray(-3))
+
+    res = await get(`/ipfs/${fileCid}`, { range: 'bytes=100-' })
+
+    expect(res.status).to.equal(416)
+    expect(res.headers.get('content-range')).to.equal(`bytes */${smallFile.byteLength}`)
+  })
+
+  it('ignores a range for a different version of the file', async () => {
+    const res = await get(`/ipfs/${fileCid}`, { range: 'bytes=2-5', 'if-range': '"other"' })
+
+    expect(res.status).to.equal(200)
+    expect(new Uint8Array(await res.arrayBuffer())).to.equalBytes(smallFile)
+  })
+
+  it('responds with 304 when the ETag matches', async () => {
+    const res = await get(`/ipfs/${fileCid}`, { 'if-none-match': `W/"foo", "${fileCid}"` })
+
+    expect(res.status).to.equal(304)
+    expect(res.body).to.be.null()
+  })
+
+  it('redirects directories to a path with a trailing slash', async () => {
+    const res = await get(`/ipfs/${dirCid}/sub%20dir?foo=bar`)
+
+    expect(res.status).to.equal(301)
+    expect(res.headers.get('location')).to.equal(`/ipfs/${dirCid}/sub%20dir/?foo=bar`)
+  })
+
+  it('serves the index.html of a directory', async () => {
+    const res = await get(`/ipfs/${siteCid}/`)
+
+    expect(res.status).to.equal(200)
+    expect(res.headers.get('content-type')).to.equal('text/html; charset=utf-8')
+    await expect(res.text()).to.eventually.equal('<h1>hello</h1>')
+  })
+
+  it('does not list a directory when its index.html cannot be read', async () => {
+    const indexCid = (await fs.stat(siteCid, { path: 'index.html' })).cid
+    const getBlock = blockstore.get.bind(blockstore)
+    blockstore.get = async (cid, options) => {
+      if (cid.equals(indexCid)) {
+        throw new Error('Disk failure')
+      }
+
+      return getBlock(cid, options)
+    }
+
+    const res = await get(`/ipfs/${siteCid}/`)
+
+    expect(res.status).to.equal(500)
+    await expect(res.text()).to.eventually.equal('500 Disk failure\n')
+  })
+
+  it('lists a directory as HTML', async () => {
+    const res = await get(`/ipfs/${dirCid}/`)
+    const body = await res.text()
+
+    expect(res.status).to.equal(200)
+    expect(res.headers.get('content-type')).to.equal('text/html; charset=utf-8')
+    expect(body).to.include('href="./file.txt"')
+    expect(body).to.include('href="./sub%20dir/"')
+    expect(body).to.include(fileCid.toString())
+  })
+
+  it('lists a directory as JSON', async () => {
+    const res = await get(`/ipfs/${dirCid}/`, { accept: 'application/json' })
+
+    expect(res.status).to.equal(200)
+    expect(res.headers.get('content-type')).to.equal('application/json')
+    await expect(res.json()).to.eventually.deep.equal({
+      cid: dirCid.toString(),
+      path: `/ipfs/${dirCid}`,
+      entries: [{
+        name: 'file.txt',
+        cid: fileCid.toString(),
+        type: 'file',
+        size: smallFile.byteLength
+      }, {
+        name: 'sub dir',
+        cid: (await fs.stat(dirCid, { path: 'sub dir' })).cid.toString(),
+        type: 'directory',
+        size: 0
+      }]
+    })
+  })
+
+  it('serves paths from _redirects', async () => {
+    let cid = await fs.cp(await fs.addBytes(uint8ArrayFromString('/old/* /new/:splat 302\n/app/* /index.html 200\n/gone /index.html 410\n/away https://example.com/')), siteCid, '_redirects')
+    cid = await fs.cp(await fs.addBytes(uint8ArrayFromString('not found')), cid, '404.html')
+    handler = createGatewayHandler(fs, { redirects: true })
+
+    let res = await get(`/ipfs/${cid}/old/page.html`)
+    expect(res.status).to.equal(302)
+    expect(res.headers.get('location')).to.equal(`/ipfs/${cid}/new/page.html`)
+
+    res = await get(`/ipfs/${cid}/away`)
+    expect(res.status).to.equal(301)
+    expect(res.headers.get('location')).to.equal('https://example.com/')
+
+    res = await get(`/ipfs/${cid}/app/settings`)
+    expect(res.status).to.equal(200)
+    expect(res.headers.get('content-type')).to.equal('text/html; charset=utf-8')
+    await expect(res.text()).to.eventually.equal('<h1>hello</h1>')
+
+    res = await get(`/ipfs/${cid}/gone`, { range: 'bytes=0-1' })
+    expect(res.status).to.equal(410)
+    await expect(res.text()).to.eventually.equal('<h1>hello</h1>')
+
+    res = await get(`/ipfs/${cid}/missing`)
+    expect(res.status).to.equal(404)
+    await expect(res.text()).to.eventually.equal('not found')
+  })
+
+  it('rejects _redirects locations that cannot be decoded', async () => {
+    const cid = await fs.cp(await fs.addBytes(uint8ArrayFromString('/app/* /%E0%A4%A 200')), siteCid, '_redirects')
+    handler = createGatewayHandler(fs, { redirects: true })
+
+    expect((await get(`/ipfs/${cid}/app/settings`)).status).to.equal(400)
+  })
+
+  it('ignores _redirects unless enabled', async () => {
+    const cid = await fs.cp(await fs.addBytes(uint8ArrayFromString('/* /index.html 200')), siteCid, '_redirects')
+
+    expect((await get(`/ipfs/${cid}/app`)).status).to.equal(404)
+  })
+
+  it('responds with errors', async () => {
+    expect((await get(`/ipfs/${dirCid}/missing.txt`)).status).to.equal(404)
+    expect((await get('/ipfs/not-a-cid')).status).to.equal(400)
+    expect((await get(`/ipns/${dirCid}`)).status).to.equal(400)
+    expect((await get(`/ipfs/${dirCid}/%2e%2e/file.txt`)).status).to.equal(400)
+
+    const res = await get(`/ipfs/${fileCid}`, {}, 'POST')
+
+    expect(res.status).to.equal(405)
+    expect(res.headers.get('allow')).to.equal('GET, HEAD')
+  })
+})
@@ -0,0 +1,122 @@
+/* eslint-env mocha */
+
+import { CarWriter } from '@ipld/car'
+import * as dagPB from '@ipld/dag-pb'
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { CID } from 'multiformats/cid'
+import * as raw from 'multiformats/codecs/raw'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { unixfs, type UnixFS } from '../src/index.js'
+import { largeFile, smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+
+describe('importCar', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+
+    fs = unixfs({ blockstore })
+  })
+
+  async function createCar (roots: CID[], blocks: Array<{ cid: CID, bytes: Uint8Array }>): Promise<Uint8Array> {
+    const { writer, out } = CarWriter.create(roots)
+    const car = toBuffer(out)
+
+    for (const block of blocks) {
+      await writer.put(block)
+    }
+
+    await writer.close()
+
+    return car
+  }
+
+  async function createRawBlock (bytes: Uint8Array): Promise<{ cid: CID, bytes: Uint8Array }> {
+    return {
+      cid: CID.createV1(raw.code, await sha256.digest(bytes)),
+      bytes
+    }
+  }
+
+  it('imports a CAR file', async () => {
+    const source = unixfs({ blockstore: new MemoryBlockstore() })
+    const fileCid = await source.addBytes(largeFile)
+    const dirCid = await source.cp(fileCid, await source.addDirectory(), 'foo.txt')
+
+    const result = await fs.importCar(source.exportCar(dirCid))
+
+    expect(result.roots).to.have.lengthOf(1)
+    expect(result.roots[0]).to.have.property('type', 'directory')
+    expect(result.roots[0].cid.toString()).to.equal(dirCid.toString())
+    expect(result.blocks).to.equal((await source.stat(fileCid)).blocks + 1)
+    expect(await toBuffer(fs.cat(dirCid, {
+      path: 'foo.txt'
+    }))).to.equalBytes(largeFile)
+  })
+
+  it('reports the size of the imported blocks', async () => {
+    const block = await createRawBlock(smallFile)
+    const result = await fs.importCar([await createCar([block.cid], [block])])
+
+    expect(result.blocks).to.equal(1)
+    expect(result.size).to.equal(BigInt(smallFile.byteLength))
+    expect(result.roots[0]).to.have.property('type', 'raw')
+  })
+
+  it('rejects blocks that do not match their CID', async () => {
+    const block = await createRawBlock(smallFile)
+    const car = await createCar([block.cid], [{
+      cid: block.cid,
+      bytes: Uint8Array.from([0, 1, 2, 3])
+    }])
+
+    await expect(fs.importCar([car])).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_CAR')
+  })
+
+  it('rejects blocks that nothing references', async () => {
+    const block = await createRawBlock(smallFile)
+    const other = await createRawBlock(Uint8Array.from([0, 1, 2, 3]))
+    const car = await createCar([block.cid], [block, other])
+
+    await expect(fs.importCar([car])).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_CAR')
+    await expect(all(blockstore.getAll())).to.eventually.be.empty()
+
+    // should succeed when unreferenced blocks are allowed
+    const result = await fs.importCar([car], {
+      allowUnreferencedBlocks: true
+    })
+
+    expect(result.blocks).to.equal(2)
+  })
+
+  it('rejects a CAR file without its root', async () => {
+    const block = await createRawBlock(smallFile)
+    const other = await createRawBlock(Uint8Array.from([0, 1, 2, 3]))
+    const car = await createCar([block.cid], [other])
+
+    await expect(fs.importCar([car], {
+      allowUnreferencedBlocks: true
+    })).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_CAR')
+    await expect(all(blockstore.getAll())).to.eventually.be.empty()
+  })
+
+  it('rejects roots that are not UnixFS', async () => {
+    const bytes = dagPB.encode({
+      Links: []
+    })
+    const cid = CID.createV1(dagPB.code, await sha256.digest(bytes))
+    const car = await createCar([cid], [{ cid, bytes }])
+
+    await expect(fs.importCar([car])).to.eventually.be.rejected
+      .with.property('code', 'ERR_NOT_UNIXFS')
+    await expect(all(blockstore.getAll())).to.eventually.be.empty()
+  })
+})
@@ -121,6 +121,24 @@ describe('ls', () => {
     expect(files.filter(file => file.name === fileName)).to.be.ok()
   })
 
+  it('detects the MIME types of files in a directory', async () => {
+    let dirCid = await fs.cp(await fs.addBytes(Uint8Array.from([0x25, 0x50, 0x44, 0x46, 0x2D, 0x31])), emptyDirCid, 'document')
+    dirCid = await fs.cp(await fs.addBytes(smallFile), dirCid, 'index.html')
+    dirCid = await fs.mkdir(dirCid, 'dir.html')
+
+    const entries = await all(fs.ls(dirCid, {
+      detectMimeType: true
+    }))
+
+    expect(entries.map(entry => [entry.name, entry.mimeType])).to.deep.equal([
+      ['dir.html', undefined],
+      ['document', 'application/pdf'],
+      ['index.html', 'text/html; charset=utf-8']
+    ])
+
+    expect((await all(fs.ls(dirCid))).map(entry => entry.mimeType)).to.deep.equal([undefined, undefined, undefined])
+  })
+
   it('refuses to list missing blocks', async () => {
     const cid = await fs.addBytes(smallFile)
 
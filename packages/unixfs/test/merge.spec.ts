@@ -0,0 +1,207 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import toBuffer from 'it-to-buffer'
+import { unixfs, type MergeConflict, type UnixFS } from '../src/index.js'
+import { createShardedDirectory } from './fixtures/create-sharded-directory.js'
+import { smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('merge', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let base: CID
+  let fileCid: CID
+  let ourFileCid: CID
+  let theirFileCid: CID
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+
+    fs = unixfs({ blockstore })
+
+    fileCid = await fs.addBytes(smallFile)
+    ourFileCid = await fs.addBytes(Uint8Array.from([0, 1, 2]))
+    theirFileCid = await fs.addBytes(Uint8Array.from([3, 4, 5]))
+    base = await fs.addDirectory()
+
+    for (const path of ['index.html', 'css/site.css', 'js/site.js']) {
+      base = await fs.cp(fileCid, base, path, {
+        parents: true
+      })
+    }
+  })
+
+  async function listPaths (cid: CID, path = ''): Promise<string[]> {
+    const paths: string[] = []
+
+    for await (const entry of fs.ls(cid)) {
+      const entryPath = path === '' ? entry.name : `${path}/${entry.name}`
+      paths.push(entryPath)
+
+      if (entry.type === 'directory') {
+        paths.push(...await listPaths(entry.cid, entryPath))
+      }
+    }
+
+    return paths
+  }
+
+  it('returns theirs when ours is unchanged', async () => {
+    const theirs = await fs.rm(base, 'index.html')
+
+    await expect(fs.merge(base, base, theirs)).to.eventually.deep.equal(theirs)
+  })
+
+  it('returns ours when theirs is unchanged', async () => {
+    const ours = await fs.rm(base, 'index.html')
+
+    await expect(fs.merge(base, ours, base)).to.eventually.deep.equal(ours)
+  })
+
+  it('merges changes that do not conflict', async () => {
+    let ours = await fs.cp(ourFileCid, base, 'css/extra.css')
+    ours = await fs.rm(ours, 'index.html')
+
+    let theirs = await fs.cp(theirFileCid, base, 'js/site.js', {
+      force: true
+    })
+    theirs = await fs.cp(theirFileCid, theirs, 'img/logo.png', {
+      parents: true
+    })
+
+    const merged = await fs.merge(base, ours, theirs)
+
+    expect(await listPaths(merged)).to.deep.equal([
+      'css',
+      'css/extra.css',
+      'css/site.css',
+      'img',
+      'img/logo.png',
+      'js',
+      'js/site.js'
+    ])
+    await expect(fs.stat(merged, {
+      path: 'js/site.js'
+    })).to.eventually.have.property('cid').that.deep.equals(theirFileCid)
+  })
+
+  it('creates the same DAG as applying both sets of changes', async () => {
+    const ours = await fs.cp(ourFileCid, base, 'css/extra.css')
+    const theirs = await fs.rm(base, 'js/site.js')
+
+    const merged = await fs.merge(base, ours, theirs)
+    const expected = await fs.rm(ours, 'js/site.js')
+
+    expect(merged.toString()).to.equal(expected.toString())
+  })
+
+  it('merges changes to a sharded directory', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore)
+    const ours = await fs.cp(ourFileCid, shardedDirCid, 'ours.txt')
+    const theirs = await fs.cp(theirFileCid, shardedDirCid, 'theirs.txt')
+
+    const merged = await fs.merge(shardedDirCid, ours, theirs)
+    const expected = await fs.cp(theirFileCid, ours, 'theirs.txt')
+
+    expect(merged.toString()).to.equal(expected.toString())
+  })
+
+  it('refuses to merge conflicting changes by default', async () => {
+    const ours = await fs.cp(ourFileCid, base, 'index.html', {
+      force: true
+    })
+    const theirs = await fs.cp(theirFileCid, base, 'index.html', {
+      force: true
+    })
+
+    await expect(fs.merge(base, ours, theirs)).to.eventually.be.rejected
+      .with.property('code', 'ERR_MERGE_CONFLICT')
+  })
+
+  describe('conflicts', () => {
+    let ours: CID
+    let theirs: CID
+
+    beforeEach(async () => {
+      ours = await fs.cp(ourFileCid, base, 'css/site.css', {
+        force: true
+      })
+      theirs = await fs.cp(theirFileCid, base, 'css/site.css', {
+        force: true
+      })
+    })
+
+    it('passes conflicts to the resolver', async () => {
+      const conflicts: MergeConflict[] = []
+
+      await fs.merge(base, ours, theirs, {
+        onConflict: (conflict) => {
+          conflicts.push(conflict)
+
+          return { type: 'keep-ours' }
+        }
+      })
+
+      expect(conflicts).to.deep.equal([{
+        path: 'css/site.css',
+        base: fileCid,
+        ours: ourFileCid,
+        theirs: theirFileCid
+      }])
+    })
+
+    it('keeps ours', async () => {
+      const merged = await fs.merge(base, ours, theirs, {
+        onConflict: () => ({ type: 'keep-ours' })
+      })
+
+      expect(merged).to.deep.equal(ours)
+    })
+
+    it('keeps theirs', async () => {
+      const merged = await fs.merge(base, ours, theirs, {
+        onConflict: () => ({ type: 'keep-theirs' })
+      })
+
+      expect(merged).to.deep.equal(theirs)
+    })
+
+    it('renames theirs', async () => {
+      const merged = await fs.merge(base, ours, theirs, {
+        onConflict: () => ({ type: 'rename', name: 'site.theirs.css' })
+      })
+
+      expect(await toBuffer(fs.cat(merged, {
+        path: 'css/site.css'
+      }))).to.equalBytes(Uint8Array.from([0, 1, 2]))
+      expect(await toBuffer(fs.cat(merged, {
+        path: 'css/site.theirs.css'
+      }))).to.equalBytes(Uint8Array.from([3, 4, 5]))
+    })
+
+    it('uses a custom CID', async () => {
+      const merged = await fs.merge(base, ours, theirs, {
+        onConflict: () => ({ type: 'custom', cid: fileCid })
+      })
+
+      expect(merged).to.deep.equal(base)
+    })
+
+    it('resolves a conflict between a removal and a modification', async () => {
+      const removed = await fs.rm(base, 'css/site.css')
+      const resolutions = await Promise.all([
+        fs.merge(base, removed, theirs, {
+          onConflict: () => ({ type: 'keep-ours' })
+        }),
+        fs.merge(base, removed, theirs, {
+          onConflict: () => ({ type: 'keep-theirs' })
+        })
+      ])
+
+      expect(resolutions).to.deep.equal([removed, theirs])
+    })
+  })
+})
@@ -0,0 +1,121 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import { MemoryDatastore } from 'datastore-core'
+import { Key } from 'interface-datastore'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { CID } from 'multiformats/cid'
+import { mfs, unixfs, type MFS, type UnixFS } from '../src/index.js'
+import { smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { Datastore } from 'interface-datastore'
+
+describe('mfs', () => {
+  let blockstore: Blockstore
+  let datastore: Datastore
+  let fs: UnixFS
+  let files: MFS
+  let fileCid: CID
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+    datastore = new MemoryDatastore()
+
+    fs = unixfs({ blockstore })
+    files = mfs({ blockstore, datastore })
+
+    fileCid = await fs.addBytes(smallFile)
+  })
+
+  it('creates an empty root directory', async () => {
+    const root = await files.root()
+
+    expect(root.toString()).to.equal((await fs.addDirectory()).toString())
+    expect(await all(files.ls('/'))).to.be.empty()
+  })
+
+  it('persists the root in the datastore', async () => {
+    const root = await files.cp(fileCid, '/foo.txt')
+
+    expect(CID.decode(await datastore.get(new Key('/locals/filesroot'))).toString()).to.equal(root.toString())
+
+    // a new instance continues from the stored root
+    const other = mfs({ blockstore, datastore })
+    await expect(other.root()).to.eventually.deep.equal(root)
+  })
+
+  it('stores the root under a custom key', async () => {
+    const custom = mfs({ blockstore, datastore }, {
+      key: '/my-app/root'
+    })
+    const root = await custom.cp(fileCid, '/foo.txt')
+
+    expect(CID.decode(await datastore.get(new Key('/my-app/root'))).toString()).to.equal(root.toString())
+    expect(await datastore.has(new Key('/locals/filesroot'))).to.be.false()
+  })
+
+  it('operates on absolute paths', async () => {
+    await files.mkdir('/photos/2026', {
+      parents: true
+    })
+    await files.cp(fileCid, '/photos/2026/a.jpg')
+    await files.mv('/photos/2026/a.jpg', '/photos/2026/b.jpg')
+    await files.chmod('/photos/2026/b.jpg', 0o600)
+    await files.touch('/photos', {
+      mtime: {
+        secs: 5n,
+        nsecs: 0
+      }
+    })
+
+    expect((await all(files.ls('/photos/2026'))).map(entry => entry.name)).to.deep.equal(['b.jpg'])
+    expect(await toBuffer(files.cat('/photos/2026/b.jpg'))).to.equalBytes(smallFile)
+    await expect(files.stat('/photos/2026/b.jpg')).to.eventually.have.property('mode', 0o600)
+    await expect(files.stat('/photos')).to.eventually.have.nested.property('mtime.secs', 5n)
+
+    await files.rm('/photos/2026')
+
+    expect(await all(files.ls('/photos'))).to.be.empty()
+  })
+
+  it('refuses relative paths', async () => {
+    await expect(files.cp(fileCid, 'foo.txt')).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_PARAMETERS')
+  })
+
+  it('serializes concurrent changes', async () => {
+    await Promise.all(
+      new Array(10).fill(0).map(async (_, i) => files.cp(fileCid, `/file-${i}.txt`))
+    )
+
+    expect(await all(files.ls('/'))).to.have.lengthOf(10)
+  })
+
+  it('keeps changing the root after a change fails', async () => {
+    await files.cp(fileCid, '/foo.txt')
+
+    await expect(files.cp(fileCid, '/foo.txt')).to.eventually.be.rejected
+      .with.property('code', 'ERR_ALREADY_EXISTS')
+
+    await files.cp(fileCid, '/bar.txt')
+
+    expect((await all(files.ls('/'))).map(entry => entry.name)).to.deep.equal(['bar.txt', 'foo.txt'])
+  })
+
+  it('only applies a change if the root is the expected root', async () => {
+    const root = await files.root()
+    const updatedRoot = await files.cp(fileCid, '/foo.txt', {
+      expectedRoot: root
+    })
+
+    // the root has changed since it was read
+    await expect(files.cp(fileCid, '/bar.txt', {
+      expectedRoot: root
+    })).to.eventually.be.rejected
+      .with.property('code', 'ERR_ROOT_CHANGED')
+
+    await expect(files.root()).to.eventually.deep.equal(updatedRoot)
+  })
+})
@@ -118,6 +118,70 @@ describe('mkdir', () => {
     })).to.eventually.have.nested.property('unixfs.type', 'directory')
   })
 
+  it('makes a directory inside an existing subdirectory', async () => {
+    const dirCid = await fs.mkdir(emptyDirCid, 'foo')
+    const updatedCid = await fs.mkdir(dirCid, 'foo/bar')
+
+    await expect(fs.stat(updatedCid, {
+      path: 'foo/bar'
+    })).to.eventually.have.property('type', 'directory')
+  })
+
+  it('refuses to make a directory inside a missing subdirectory', async () => {
+    await expect(fs.mkdir(emptyDirCid, 'foo/bar')).to.eventually.be.rejected
+      .with.property('code', 'ERR_DOES_NOT_EXIST')
+  })
+
+  it('makes missing parent directories', async () => {
+    const dirCid = await fs.mkdir(emptyDirCid, 'foo/bar/baz', {
+      parents: true,
+      mode: 0o700
+    })
+
+    await expect(fs.stat(dirCid, {
+      path: 'foo/bar'
+    })).to.eventually.have.property('type', 'directory')
+    await expect(fs.stat(dirCid, {
+      path: 'foo/bar/baz'
+    })).to.eventually.have.property('mode', 0o700)
+  })
+
+  it('makes missing parent directories under an existing subdirectory', async () => {
+    const dirCid = await fs.mkdir(emptyDirCid, 'foo')
+    const updatedCid = await fs.mkdir(dirCid, 'foo/bar/baz', {
+      parents: true
+    })
+
+    await expect(all(fs.ls(updatedCid, {
+      path: 'foo/bar'
+    }))).to.eventually.have.nested.property('[0].name', 'baz')
+  })
+
+  it('does not fail when the directory exists and parents is true', async () => {
+    const dirCid = await fs.mkdir(emptyDirCid, 'foo/bar', {
+      parents: true
+    })
+
+    await expect(fs.mkdir(dirCid, 'foo/bar', {
+      parents: true
+    })).to.eventually.deep.equal(dirCid)
+    await expect(fs.mkdir(dirCid, 'foo/bar')).to.eventually.be.rejected
+      .with.property('code', 'ERR_ALREADY_EXISTS')
+  })
+
+  it('makes missing parent directories inside a sharded directory', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore)
+
+    const updatedShardCid = await fs.mkdir(shardedDirCid, 'foo/bar', {
+      parents: true
+    })
+
+    await expect(fs.stat(updatedShardCid)).to.eventually.have.nested.property('unixfs.type', 'hamt-sharded-directory')
+    await expect(fs.stat(updatedShardCid, {
+      path: 'foo/bar'
+    })).to.eventually.have.property('type', 'directory')
+  })
+
   it('refuses to mkdir with missing blocks', async () => {
     const cid = await fs.addBytes(smallFile)
 
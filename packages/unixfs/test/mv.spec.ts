@@ -0,0 +1,166 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import all from 'it-all'
+import first from 'it-first'
+import toBuffer from 'it-to-buffer'
+import { unixfs, type UnixFS } from '../src/index.js'
+import { createShardedDirectory } from './fixtures/create-sharded-directory.js'
+import { smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('mv', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let emptyDirCid: CID
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+
+    fs = unixfs({ blockstore })
+
+    emptyDirCid = await fs.addDirectory()
+  })
+
+  it('renames a file', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+    const dirCid = await fs.cp(fileCid, emptyDirCid, 'foo.txt')
+    const updatedCid = await fs.mv(dirCid, 'foo.txt', 'bar.txt')
+
+    const files = await all(fs.ls(updatedCid))
+    expect(files.map(file => file.name)).to.deep.equal(['bar.txt'])
+    expect(await toBuffer(fs.cat(updatedCid, {
+      path: 'bar.txt'
+    }))).to.equalBytes(smallFile)
+  })
+
+  it('moves a file between subdirectories', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+    let dirCid = await fs.mkdir(emptyDirCid, 'a/b', {
+      parents: true
+    })
+    dirCid = await fs.mkdir(dirCid, 'c/d', {
+      parents: true
+    })
+    dirCid = await fs.cp(fileCid, dirCid, 'a/b/foo.txt')
+
+    const updatedCid = await fs.mv(dirCid, 'a/b/foo.txt', 'c/d/bar.txt')
+    const expectedCid = await fs.rm(await fs.cp(fileCid, dirCid, 'c/d/bar.txt'), 'a/b/foo.txt')
+
+    expect(updatedCid.toString()).to.equal(expectedCid.toString())
+    await expect(fs.stat(updatedCid, {
+      path: 'a/b/foo.txt'
+    })).to.eventually.be.rejected.with.property('code', 'ERR_DOES_NOT_EXIST')
+    expect(await toBuffer(fs.cat(updatedCid, {
+      path: 'c/d/bar.txt'
+    }))).to.equalBytes(smallFile)
+  })
+
+  it('moves a directory to a parent directory', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+    const dirCid = await fs.cp(fileCid, emptyDirCid, 'a/b/foo.txt', {
+      parents: true
+    })
+
+    const updatedCid = await fs.mv(dirCid, 'a/b', 'b')
+
+    const files = await all(fs.ls(updatedCid))
+    expect(files.map(file => file.name)).to.deep.equal(['a', 'b'])
+    expect(await toBuffer(fs.cat(updatedCid, {
+      path: 'b/foo.txt'
+    }))).to.equalBytes(smallFile)
+  })
+
+  it('only writes the rewritten directories', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+    let dirCid = await fs.mkdir(emptyDirCid, 'a/b', {
+      parents: true
+    })
+    dirCid = await fs.cp(fileCid, dirCid, 'a/b/foo.txt')
+
+    const before = await all(blockstore.getAll())
+
+    await fs.mv(dirCid, 'a/b/foo.txt', 'a/bar.txt')
+
+    const after = await all(blockstore.getAll())
+
+    // the now empty "b" directory already exists so only "a" and the root
+    // directory are new
+    expect(after).to.have.lengthOf(before.length + 2)
+  })
+
+  it('renames a file in a sharded directory', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore)
+    const file = await first(fs.ls(shardedDirCid))
+
+    if (file == null) {
+      throw new Error('No files listed')
+    }
+
+    const options = {
+      shardSplitThresholdBytes: 1
+    }
+    const updatedCid = await fs.mv(shardedDirCid, file.name, 'renamed.txt', options)
+    const expectedCid = await fs.rm(await fs.cp(file.cid, shardedDirCid, 'renamed.txt', options), file.name, options)
+
+    expect(updatedCid.toString()).to.equal(expectedCid.toString())
+    await expect(fs.stat(updatedCid)).to.eventually.have.nested.property('unixfs.type', 'hamt-sharded-directory')
+    await expect(fs.stat(updatedCid, {
+      path: 'renamed.txt'
+    })).to.eventually.have.property('cid').that.deep.equals(file.cid)
+  })
+
+  it('moves a file from a sharded directory to a normal directory', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore)
+    const file = await first(fs.ls(shardedDirCid))
+
+    if (file == null) {
+      throw new Error('No files listed')
+    }
+
+    let dirCid = await fs.cp(shardedDirCid, emptyDirCid, 'sharded')
+    dirCid = await fs.mkdir(dirCid, 'normal')
+
+    const updatedCid = await fs.mv(dirCid, `sharded/${file.name}`, `normal/${file.name}`)
+    const expectedCid = await fs.rm(await fs.cp(file.cid, dirCid, `normal/${file.name}`), `sharded/${file.name}`)
+
+    expect(updatedCid.toString()).to.equal(expectedCid.toString())
+  })
+
+  it('refuses to overwrite an existing entry', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+    let dirCid = await fs.cp(fileCid, emptyDirCid, 'foo.txt')
+    dirCid = await fs.cp(fileCid, dirCid, 'bar.txt')
+
+    await expect(fs.mv(dirCid, 'foo.txt', 'bar.txt')).to.eventually.be.rejected
+      .with.property('code', 'ERR_ALREADY_EXISTS')
+
+    // should succeed with force option
+    const updatedCid = await fs.mv(dirCid, 'foo.txt', 'bar.txt', {
+      force: true
+    })
+
+    const files = await all(fs.ls(updatedCid))
+    expect(files.map(file => file.name)).to.deep.equal(['bar.txt'])
+  })
+
+  it('refuses to move a missing entry', async () => {
+    await expect(fs.mv(emptyDirCid, 'foo.txt', 'bar.txt')).to.eventually.be.rejected
+      .with.property('code', 'ERR_DOES_NOT_EXIST')
+  })
+
+  it('refuses to move a directory into itself', async () => {
+    const dirCid = await fs.mkdir(emptyDirCid, 'foo')
+
+    await expect(fs.mv(dirCid, 'foo', 'foo/bar')).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_PARAMETERS')
+  })
+
+  it('returns the original CID when the paths are the same', async () => {
+    const dirCid = await fs.mkdir(emptyDirCid, 'foo')
+
+    await expect(fs.mv(dirCid, 'foo', '/foo/')).to.eventually.deep.equal(dirCid)
+  })
+})
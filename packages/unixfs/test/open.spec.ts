@@ -0,0 +1,141 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import { balanced, trickle } from 'ipfs-unixfs-importer/layout'
+import { unixfs, type UnixFS } from '../src/index.js'
+import { largeFile, smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('open', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let emptyDirCid: CID
+  let gets: CID[]
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+    gets = []
+
+    const get = blockstore.get.bind(blockstore)
+    blockstore.get = async (cid, options) => {
+      gets.push(cid)
+      return get(cid, options)
+    }
+
+    fs = unixfs({ blockstore })
+
+    emptyDirCid = await fs.addDirectory()
+  })
+
+  it('reads a small file', async () => {
+    const cid = await fs.addBytes(smallFile)
+    const handle = await fs.open(cid)
+
+    expect(handle.size).to.equal(smallFile.byteLength)
+    expect(handle.cid).to.equal(cid)
+    expect(await handle.read(0, smallFile.byteLength)).to.equalBytes(smallFile)
+    expect(await handle.read(2, 5)).to.equalBytes(smallFile.subarray(2, 7))
+  })
+
+  it('reads ranges that span leaves of a large file', async () => {
+    const cid = await fs.addBytes(largeFile, {
+      layout: balanced({
+        maxChildrenPerNode: 4
+      }),
+      rawLeaves: false
+    })
+    const handle = await fs.open(cid)
+
+    expect(handle.size).to.equal(largeFile.byteLength)
+
+    for (const [position, length] of [[0, 10], [1048570, 10], [1000000, 3200000], [largeFile.byteLength - 5, 5]]) {
+      expect(await handle.read(position, length)).to.equalBytes(largeFile.subarray(position, position + length))
+    }
+  })
+
+  it('reads a file with the trickle layout', async () => {
+    const cid = await fs.addBytes(largeFile, {
+      layout: trickle()
+    })
+    const handle = await fs.open(cid)
+
+    expect(await handle.read(1000000, 3000000)).to.equalBytes(largeFile.subarray(1000000, 4000000))
+  })
+
+  it('only loads the leaves of a file after the first read', async () => {
+    const cid = await fs.addBytes(largeFile, {
+      layout: balanced({
+        maxChildrenPerNode: 4
+      })
+    })
+    const handle = await fs.open(cid)
+
+    await handle.read(3000000, 10)
+    gets = []
+
+    expect(await handle.read(3000000, 10)).to.equalBytes(largeFile.subarray(3000000, 3000010))
+    expect(gets).to.have.lengthOf(1)
+
+    // spans two leaves
+    gets = []
+    expect(await handle.read(1048570, 10)).to.equalBytes(largeFile.subarray(1048570, 1048580))
+    expect(gets.length).to.be.greaterThan(1)
+
+    gets = []
+    await handle.read(1048570, 10)
+    expect(gets).to.have.lengthOf(2)
+  })
+
+  it('returns fewer bytes at the end of the file', async () => {
+    const cid = await fs.addBytes(smallFile)
+    const handle = await fs.open(cid)
+
+    expect(await handle.read(10, 100)).to.equalBytes(smallFile.subarray(10))
+    expect(await handle.read(100, 100)).to.have.lengthOf(0)
+  })
+
+  it('opens a file in a directory', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+    const dirCid = await fs.cp(fileCid, emptyDirCid, 'foo.txt')
+    const handle = await fs.open(dirCid, {
+      path: 'foo.txt'
+    })
+
+    expect(handle.cid).to.deep.equal(fileCid)
+    expect(await handle.read(0, 5)).to.equalBytes(smallFile.subarray(0, 5))
+  })
+
+  it('refuses to open a directory', async () => {
+    await expect(fs.open(emptyDirCid)).to.eventually.be.rejected
+      .with.property('code', 'ERR_NOT_A_FILE')
+  })
+
+  it('refuses to open a symlink', async () => {
+    const dirCid = await fs.symlink(emptyDirCid, 'link', 'target.txt')
+
+    await expect(fs.open(dirCid, {
+      path: 'link'
+    })).to.eventually.be.rejected
+      .with.property('code', 'ERR_NOT_A_FILE')
+  })
+
+  it('refuses invalid positions', async () => {
+    const cid = await fs.addBytes(smallFile)
+    const handle = await fs.open(cid)
+
+    await expect(handle.read(-1, 5)).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_PARAMETERS')
+  })
+
+  it('refuses to read after it has been closed', async () => {
+    const cid = await fs.addBytes(largeFile)
+    const handle = await fs.open(cid)
+
+    await handle.close()
+
+    await expect(handle.read(0, 10)).to.eventually.be.rejected
+      .with.property('code', 'ERR_FILE_CLOSED')
+  })
+})
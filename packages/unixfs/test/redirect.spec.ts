@@ -0,0 +1,119 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { matchRedirects, parseRedirects, unixfs, type UnixFS } from '../src/index.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('redirect', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+    fs = unixfs({ blockstore })
+  })
+
+  async function createSite (files: Record<string, string>): Promise<CID> {
+    let cid = await fs.addDirectory()
+
+    for (const [name, contents] of Object.entries(files)) {
+      cid = await fs.cp(await fs.addBytes(uint8ArrayFromString(contents)), cid, name)
+    }
+
+    return cid
+  }
+
+  it('parses rules', () => {
+    expect(parseRedirects(`
+# comment
+/old  /new
+/a   https://example.com/a   302
+
+/b /c 404
+`)).to.deep.equal([{
+      from: '/old',
+      to: '/new',
+      status: 301
+    }, {
+      from: '/a',
+      to: 'https://example.com/a',
+      status: 302
+    }, {
+      from: '/b',
+      to: '/c',
+      status: 404
+    }])
+  })
+
+  it('refuses invalid rules', () => {
+    for (const contents of ['/from', 'from /to', '/from to', '/from /to 418', '/from /to 301 extra', 'a'.repeat(65 * 1024)]) {
+      expect(() => parseRedirects(contents)).to.throw()
+        .with.property('code', 'ERR_INVALID_REDIRECTS')
+    }
+
+    expect(() => parseRedirects('/a /b\n/c')).to.throw(/Line 2/)
+  })
+
+  it('matches placeholders and splats', () => {
+    const rules = parseRedirects(`
+/blog/:year/:month/:slug /posts/:year-:month/:slug 302
+/docs/* /manual/:splat
+/app/* /index.html 200
+/exact /other
+`)
+
+    expect(matchRedirects(rules, '/blog/2024/01/hello')).to.deep.equal({ location: '/posts/2024-01/hello', status: 302 })
+    expect(matchRedirects(rules, '/blog/2024/01')).to.be.undefined()
+    expect(matchRedirects(rules, '/docs/a/b/c.html')).to.deep.equal({ location: '/manual/a/b/c.html', status: 301 })
+    expect(matchRedirects(rules, '/docs')).to.deep.equal({ location: '/manual/', status: 301 })
+    expect(matchRedirects(rules, '/app/')).to.deep.equal({ location: '/index.html', status: 200 })
+    expect(matchRedirects(rules, '/exact/')).to.deep.equal({ location: '/other', status: 301 })
+    expect(matchRedirects(rules, '/exact/more')).to.be.undefined()
+  })
+
+  it('uses the first rule that matches', () => {
+    const rules = parseRedirects('/a/* /first\n/a/b /second')
+
+    expect(matchRedirects(rules, '/a/b')).to.have.property('location', '/first')
+  })
+
+  it('resolves a path against the _redirects file of a directory', async () => {
+    const cid = await createSite({
+      _redirects: '/old/* /new/:splat 308'
+    })
+
+    await expect(fs.redirect(cid, '/old/page.html')).to.eventually.deep.equal({
+      location: '/new/page.html',
+      status: 308
+    })
+    await expect(fs.redirect(cid, '/missing')).to.eventually.be.undefined()
+  })
+
+  it('falls back to 404.html', async () => {
+    const cid = await createSite({
+      _redirects: '/old /new',
+      '404.html': 'not found'
+    })
+
+    await expect(fs.redirect(cid, '/missing')).to.eventually.deep.equal({
+      location: '/404.html',
+      status: 404
+    })
+    await expect(fs.redirect(await createSite({ '404.html': 'not found' }), '/missing')).to.eventually.deep.equal({
+      location: '/404.html',
+      status: 404
+    })
+  })
+
+  it('refuses a _redirects file that is too large', async () => {
+    const cid = await createSite({
+      _redirects: `/a /b\n${'#'.repeat(65 * 1024)}`
+    })
+
+    await expect(fs.redirect(cid, '/a')).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_REDIRECTS')
+  })
+})
@@ -0,0 +1,152 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import all from 'it-all'
+import { unixfs, type UnixFS } from '../src/index.js'
+import { createShardedDirectory } from './fixtures/create-sharded-directory.js'
+import { smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('rmAll', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let emptyDirCid: CID
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+
+    fs = unixfs({ blockstore })
+
+    emptyDirCid = await fs.addDirectory()
+  })
+
+  async function createSite (): Promise<CID> {
+    const fileCid = await fs.addBytes(smallFile)
+    let dirCid = emptyDirCid
+
+    for (const path of ['index.js', 'index.js.map', 'lib/util.js', 'lib/util.js.map', 'node_modules/dep/index.js', '.cache/data']) {
+      dirCid = await fs.cp(fileCid, dirCid, path, {
+        parents: true
+      })
+    }
+
+    return dirCid
+  }
+
+  async function listPaths (cid: CID, path = ''): Promise<string[]> {
+    const paths: string[] = []
+
+    for await (const entry of fs.ls(cid)) {
+      const entryPath = path === '' ? entry.name : `${path}/${entry.name}`
+      paths.push(entryPath)
+
+      if (entry.type === 'directory') {
+        paths.push(...await listPaths(entry.cid, entryPath))
+      }
+    }
+
+    return paths
+  }
+
+  it('removes entries matching a glob', async () => {
+    const siteCid = await createSite()
+    const updatedCid = await fs.rmAll(siteCid, '**/*.map')
+
+    expect(await listPaths(updatedCid)).to.deep.equal([
+      '.cache',
+      '.cache/data',
+      'index.js',
+      'lib',
+      'lib/util.js',
+      'node_modules',
+      'node_modules/dep',
+      'node_modules/dep/index.js'
+    ])
+  })
+
+  it('matches patterns without a slash at any depth', async () => {
+    const siteCid = await createSite()
+    const updatedCid = await fs.rmAll(siteCid, 'index.js')
+
+    expect(await listPaths(updatedCid)).to.not.include.members(['index.js', 'node_modules/dep/index.js'])
+    expect(await listPaths(updatedCid)).to.include('node_modules/dep')
+  })
+
+  it('removes directories with their contents', async () => {
+    const siteCid = await createSite()
+    const updatedCid = await fs.rmAll(siteCid, '{node_modules,.cache}')
+
+    expect(await listPaths(updatedCid)).to.deep.equal([
+      'index.js',
+      'index.js.map',
+      'lib',
+      'lib/util.js',
+      'lib/util.js.map'
+    ])
+  })
+
+  it('removes entries matching a filter function', async () => {
+    const siteCid = await createSite()
+    const updatedCid = await fs.rmAll(siteCid, (path, entry) => entry.type === 'directory' && path.startsWith('node_modules'))
+
+    expect(await listPaths(updatedCid)).to.not.include('node_modules')
+  })
+
+  it('creates the same DAG as removing entries one at a time', async () => {
+    const siteCid = await createSite()
+    const updatedCid = await fs.rmAll(siteCid, '*.map')
+
+    const expectedCid = await fs.rm(await fs.rm(siteCid, 'index.js.map'), 'lib/util.js.map')
+
+    expect(updatedCid.toString()).to.equal(expectedCid.toString())
+  })
+
+  it('only rewrites each affected directory once', async () => {
+    const siteCid = await createSite()
+    const before = await all(blockstore.getAll())
+
+    await fs.rmAll(siteCid, '*.map')
+
+    const after = await all(blockstore.getAll())
+
+    // "lib" without the map file was already written while creating the site
+    // so only the new root is added
+    expect(after).to.have.lengthOf(before.length + 1)
+  })
+
+  it('returns the original CID when nothing matches', async () => {
+    const siteCid = await createSite()
+
+    await expect(fs.rmAll(siteCid, '*.txt')).to.eventually.deep.equal(siteCid)
+  })
+
+  it('removes entries from a sharded directory', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore)
+    const options = {
+      shardSplitThresholdBytes: 1
+    }
+
+    const updatedCid = await fs.rmAll(shardedDirCid, 'file-{1,2,3}', options)
+    const expectedCid = await fs.rm(await fs.rm(await fs.rm(shardedDirCid, 'file-1', options), 'file-2', options), 'file-3', options)
+
+    expect(updatedCid.toString()).to.equal(expectedCid.toString())
+    await expect(fs.stat(updatedCid)).to.eventually.have.nested.property('unixfs.type', 'hamt-sharded-directory')
+  })
+
+  it('converts a sharded directory to a flat directory when it is small enough', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore)
+    const updatedCid = await fs.rmAll(shardedDirCid, (path) => path !== 'file-0')
+
+    await expect(fs.stat(updatedCid)).to.eventually.have.nested.property('unixfs.type', 'directory')
+    expect(await listPaths(updatedCid)).to.deep.equal(['file-0'])
+  })
+
+  it('refuses to remove entries from a file', async () => {
+    const fileCid = await fs.addBytes(smallFile)
+
+    await expect(fs.rmAll(fileCid, '*')).to.eventually.be.rejected
+      .with.property('code', 'ERR_NOT_A_DIRECTORY')
+  })
+})
@@ -3,6 +3,7 @@
 import { expect } from 'aegir/chai'
 import { MemoryBlockstore } from 'blockstore-core'
 import { importer } from 'ipfs-unixfs-importer'
+import all from 'it-all'
 import last from 'it-last'
 import { unixfs, type UnixFS } from '../src/index.js'
 import { createShardedDirectory } from './fixtures/create-sharded-directory.js'
@@ -218,6 +219,32 @@ describe('rm', () => {
     expect(containingDirCid).to.eql(importerCid)
   })
 
+  it('removes a file from a subdirectory', async () => {
+    const source = await fs.addBytes(smallFile)
+    const dirCid = await fs.cp(source, emptyDirCid, 'foo/bar/baz.txt', {
+      parents: true
+    })
+    const updatedCid = await fs.rm(dirCid, 'foo/bar/baz.txt')
+
+    await expect(all(fs.ls(updatedCid, {
+      path: 'foo/bar'
+    }))).to.eventually.be.empty()
+    await expect(fs.stat(updatedCid)).to.eventually.have.deep.property('cid', await fs.mkdir(emptyDirCid, 'foo/bar', {
+      parents: true
+    }))
+  })
+
+  it('removes a file from a sharded subdirectory', async () => {
+    const shardedDirCid = await createShardedDirectory(blockstore)
+    const dirCid = await fs.cp(shardedDirCid, emptyDirCid, 'foo')
+    const updatedCid = await fs.rm(dirCid, 'foo/file-1')
+
+    await expect(fs.stat(updatedCid, {
+      path: 'foo/file-1'
+    })).to.eventually.be.rejected
+      .with.property('code', 'ERR_DOES_NOT_EXIST')
+  })
+
   it('refuses to rm missing blocks', async () => {
     const cid = await fs.addBytes(smallFile)
 
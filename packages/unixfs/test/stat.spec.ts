@@ -198,6 +198,49 @@ describe('stat', function () {
     expect(stats.fileSize).to.equal(4n)
   })
 
+  it('detects the MIME type of a file', async () => {
+    const png = Uint8Array.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 0, 0, 0, 0])
+    const pngCid = await fs.addBytes(png)
+    let dirCid = await fs.cp(pngCid, emptyDirCid, 'image')
+    dirCid = await fs.cp(pngCid, dirCid, 'style.css')
+
+    await expect(fs.stat(pngCid)).to.eventually.have.property('mimeType', undefined)
+    await expect(fs.stat(pngCid, { detectMimeType: true })).to.eventually.have.property('mimeType', 'image/png')
+    await expect(fs.stat(dirCid, { path: 'image', detectMimeType: true })).to.eventually.have.property('mimeType', 'image/png')
+    await expect(fs.stat(dirCid, { path: 'style.css', detectMimeType: true })).to.eventually.have.property('mimeType', 'text/css; charset=utf-8')
+    await expect(fs.stat(await fs.addBytes(smallFile), { detectMimeType: true })).to.eventually.have.property('mimeType', undefined)
+    await expect(fs.stat(dirCid, { detectMimeType: true })).to.eventually.have.property('mimeType', undefined)
+  })
+
+  it('detects the MIME type of a file with a custom detector', async () => {
+    const cid = await fs.addBytes(Uint8Array.from([0x43, 0x55, 0x53, 0x54, 0x4F, 0x4D]))
+    const dirCid = await fs.cp(cid, emptyDirCid, 'file.txt')
+    const detectMimeType = (name: string | undefined, bytes: Uint8Array): string | undefined => {
+      return bytes[0] === 0x43 ? `application/x-custom; name=${name}` : undefined
+    }
+
+    await expect(fs.stat(dirCid, { path: 'file.txt', detectMimeType })).to.eventually.have.property('mimeType', 'application/x-custom; name=file.txt')
+    await expect(fs.stat(await fs.addBytes(smallFile), { detectMimeType })).to.eventually.have.property('mimeType', undefined)
+  })
+
+  it('detects the MIME type from the first leaf of a large file', async () => {
+    const cid = await fs.addBytes(largeFile)
+    const gets: CID[] = []
+    const get = blockstore.get.bind(blockstore)
+    blockstore.get = async (cid, options) => {
+      gets.push(cid)
+      return get(cid, options)
+    }
+
+    await fs.stat(cid, { detectMimeType: true })
+    const withoutDetection = gets.length
+    gets.length = 0
+
+    await fs.stat(cid)
+
+    expect(withoutDetection - gets.length).to.equal(1)
+  })
+
   it('refuses to stat missing blocks', async () => {
     const cid = await fs.addBytes(smallFile)
 
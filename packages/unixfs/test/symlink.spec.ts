@@ -0,0 +1,170 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { unixfs, type UnixFS } from '../src/index.js'
+import { smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('symlink', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let dirCid: CID
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+
+    fs = unixfs({ blockstore })
+
+    const fileCid = await fs.addBytes(smallFile)
+    dirCid = await fs.cp(fileCid, await fs.addDirectory(), 'foo/bar.txt', {
+      parents: true
+    })
+  })
+
+  it('creates a symlink', async () => {
+    const updatedCid = await fs.symlink(dirCid, 'link', 'foo/bar.txt')
+
+    await expect(fs.readlink(updatedCid, {
+      path: 'link'
+    })).to.eventually.equal('foo/bar.txt')
+    await expect(fs.stat(updatedCid, {
+      path: 'link'
+    })).to.eventually.have.property('type', 'symlink')
+  })
+
+  it('creates a symlink with metadata', async () => {
+    const updatedCid = await fs.symlink(dirCid, 'link', 'foo/bar.txt', {
+      mode: 0o777,
+      mtime: {
+        secs: 5n
+      }
+    })
+
+    const stats = await fs.stat(updatedCid, {
+      path: 'link'
+    })
+    expect(stats).to.have.property('mode', 0o777)
+    expect(stats).to.have.nested.property('mtime.secs', 5n)
+  })
+
+  it('creates a symlink in a subdirectory', async () => {
+    const updatedCid = await fs.symlink(dirCid, 'baz/qux/link', '../../foo', {
+      parents: true
+    })
+
+    await expect(fs.readlink(updatedCid, {
+      path: 'baz/qux/link'
+    })).to.eventually.equal('../../foo')
+  })
+
+  it('refuses to overwrite an existing entry', async () => {
+    await expect(fs.symlink(dirCid, 'foo', 'bar')).to.eventually.be.rejected
+      .with.property('code', 'ERR_ALREADY_EXISTS')
+
+    // should succeed with force option
+    await expect(fs.symlink(dirCid, 'foo', 'bar', {
+      force: true
+    })).to.eventually.be.ok()
+  })
+
+  it('refuses to create a symlink with an empty target', async () => {
+    await expect(fs.symlink(dirCid, 'link', '')).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_PARAMETERS')
+  })
+
+  it('refuses to read a link that is not a symlink', async () => {
+    await expect(fs.readlink(dirCid, {
+      path: 'foo/bar.txt'
+    })).to.eventually.be.rejected
+      .with.property('code', 'ERR_NOT_A_SYMLINK')
+  })
+
+  it('does not follow symlinks by default', async () => {
+    const updatedCid = await fs.symlink(dirCid, 'link', 'foo/bar.txt')
+
+    await expect(all(fs.cat(updatedCid, {
+      path: 'link'
+    }))).to.eventually.be.rejected
+      .with.property('code', 'ERR_NOT_A_FILE')
+  })
+
+  it('follows a symlink to a file', async () => {
+    const updatedCid = await fs.symlink(dirCid, 'link', 'foo/bar.txt')
+
+    const bytes = await toBuffer(fs.cat(updatedCid, {
+      path: 'link',
+      followSymlinks: true
+    }))
+
+    expect(bytes).to.equalBytes(smallFile)
+  })
+
+  it('follows a symlink to a directory in the middle of a path', async () => {
+    const updatedCid = await fs.symlink(dirCid, 'baz/link', '../foo', {
+      parents: true
+    })
+
+    const bytes = await toBuffer(fs.cat(updatedCid, {
+      path: 'baz/link/bar.txt',
+      followSymlinks: true
+    }))
+
+    expect(bytes).to.equalBytes(smallFile)
+
+    const files = await all(fs.ls(updatedCid, {
+      path: 'baz/link',
+      followSymlinks: true
+    }))
+    expect(files.map(file => file.name)).to.deep.equal(['bar.txt'])
+  })
+
+  it('follows absolute symlinks from the root', async () => {
+    const updatedCid = await fs.symlink(dirCid, 'baz/link', '/foo/bar.txt', {
+      parents: true
+    })
+
+    const stats = await fs.stat(updatedCid, {
+      path: 'baz/link',
+      followSymlinks: true
+    })
+
+    expect(stats).to.have.property('type', 'raw')
+  })
+
+  it('follows chains of symlinks', async () => {
+    let updatedCid = await fs.symlink(dirCid, 'link-1', 'foo/bar.txt')
+    updatedCid = await fs.symlink(updatedCid, 'link-2', 'link-1')
+
+    const bytes = await toBuffer(fs.cat(updatedCid, {
+      path: 'link-2',
+      followSymlinks: true
+    }))
+
+    expect(bytes).to.equalBytes(smallFile)
+  })
+
+  it('detects symlink loops', async () => {
+    let updatedCid = await fs.symlink(dirCid, 'link-1', 'link-2')
+    updatedCid = await fs.symlink(updatedCid, 'link-2', 'link-1')
+
+    await expect(fs.stat(updatedCid, {
+      path: 'link-1',
+      followSymlinks: true
+    })).to.eventually.be.rejected
+      .with.property('code', 'ERR_SYMLINK_LOOP')
+  })
+
+  it('refuses to follow a symlink outside of the root', async () => {
+    const updatedCid = await fs.symlink(dirCid, 'link', '../foo')
+
+    await expect(fs.stat(updatedCid, {
+      path: 'link',
+      followSymlinks: true
+    })).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_PARAMETERS')
+  })
+})
@@ -0,0 +1,145 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import { fixedSize } from 'ipfs-unixfs-importer/chunker'
+import { balanced } from 'ipfs-unixfs-importer/layout'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { unixfs, type UnixFS } from '../src/index.js'
+import { smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('truncate', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let emptyDirCid: CID
+
+  const chunkSize = 4
+  const maxChildrenPerNode = 3
+  const importerOptions = {
+    chunker: fixedSize({ chunkSize }),
+    layout: balanced({ maxChildrenPerNode })
+  }
+  const truncateOptions = {
+    chunkSize,
+    maxChildrenPerNode
+  }
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+
+    fs = unixfs({ blockstore })
+
+    emptyDirCid = await fs.addDirectory()
+  })
+
+  function bytes (length: number): Uint8Array {
+    return Uint8Array.from(new Array(length).fill(0).map((_, i) => (i % 255) + 1))
+  }
+
+  function padded (length: number, size: number): Uint8Array {
+    const output = new Uint8Array(size)
+    output.set(bytes(length).subarray(0, size))
+
+    return output
+  }
+
+  it('shrinks a small file', async () => {
+    const cid = await fs.addBytes(smallFile)
+    const updatedCid = await fs.truncate(cid, 5)
+
+    expect(await toBuffer(fs.cat(updatedCid))).to.equalBytes(smallFile.subarray(0, 5))
+  })
+
+  it('extends a small file with zeros', async () => {
+    const cid = await fs.addBytes(smallFile)
+    const updatedCid = await fs.truncate(cid, smallFile.byteLength + 5)
+
+    expect(await toBuffer(fs.cat(updatedCid))).to.equalBytes(Uint8Array.from([...smallFile, 0, 0, 0, 0, 0]))
+  })
+
+  it('creates the same DAG as importing the truncated content', async () => {
+    for (const initial of [0, 1, 4, 5, 12, 13, 36, 37]) {
+      for (const size of [0, 1, 3, 4, 5, 11, 12, 13, 36, 37, 50]) {
+        const cid = await fs.addBytes(bytes(initial), importerOptions)
+        const updatedCid = await fs.truncate(cid, size, truncateOptions)
+        const expectedCid = await fs.addBytes(padded(initial, size), importerOptions)
+
+        expect(updatedCid.toString()).to.equal(expectedCid.toString(), `truncating ${initial} bytes to ${size} bytes`)
+      }
+    }
+  })
+
+  it('shares zero leaves when extending a file', async () => {
+    const cid = await fs.addBytes(bytes(2), importerOptions)
+    const before = await all(blockstore.getAll())
+
+    const updatedCid = await fs.truncate(cid, 2 + (chunkSize * 6), truncateOptions)
+
+    const after = await all(blockstore.getAll())
+
+    // the original data padded with zeros, one full leaf of zeros shared by
+    // five links, a partial leaf of zeros, three intermediate nodes and the root
+    expect(after).to.have.lengthOf(before.length + 7)
+    expect(await toBuffer(fs.cat(updatedCid))).to.equalBytes(padded(2, 2 + (chunkSize * 6)))
+  })
+
+  it('preserves metadata', async () => {
+    for (const [initial, size] of [[3, 1], [13, 4], [13, 40]]) {
+      const metadata = {
+        mode: 0o777,
+        mtime: {
+          secs: 5n
+        }
+      }
+      const cid = await fs.addFile({
+        content: bytes(initial),
+        ...metadata
+      }, importerOptions)
+      const updatedCid = await fs.truncate(cid, size, truncateOptions)
+      const expectedCid = await fs.addFile({
+        content: padded(initial, size),
+        ...metadata
+      }, importerOptions)
+
+      expect(updatedCid.toString()).to.equal(expectedCid.toString(), `truncating ${initial} bytes to ${size} bytes`)
+
+      const stats = await fs.stat(updatedCid)
+      expect(stats).to.have.property('mode', 0o777)
+      expect(stats).to.have.nested.property('mtime.secs', 5n)
+    }
+  })
+
+  it('truncates a file inside a directory', async () => {
+    const path = 'foo.txt'
+    const fileCid = await fs.addBytes(smallFile)
+    const dirCid = await fs.cp(fileCid, emptyDirCid, path)
+    const updatedCid = await fs.truncate(dirCid, 2, {
+      path
+    })
+
+    await expect(fs.stat(updatedCid, {
+      path
+    })).to.eventually.have.property('fileSize', 2n)
+  })
+
+  it('returns the original CID when the size is unchanged', async () => {
+    const cid = await fs.addBytes(smallFile)
+
+    await expect(fs.truncate(cid, smallFile.byteLength)).to.eventually.deep.equal(cid)
+  })
+
+  it('refuses to truncate to a negative size', async () => {
+    const cid = await fs.addBytes(smallFile)
+
+    await expect(fs.truncate(cid, -1)).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_PARAMETERS')
+  })
+
+  it('refuses to truncate a directory', async () => {
+    await expect(fs.truncate(emptyDirCid, 0)).to.eventually.be.rejected
+      .with.property('code', 'ERR_NOT_A_FILE')
+  })
+})
@@ -0,0 +1,105 @@
+/* eslint-env mocha */
+
+import fs from 'fs'
+import os from 'os'
+import Path from 'path'
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { isNode } from 'wherearewe'
+import { unixfs, type UnixFS } from '../../src/index.js'
+import { carBlockstore, type CarBlockstore } from '../../src/utils/car-blockstore.js'
+import { largeFile, smallFile } from '../fixtures/files.js'
+import type { CID } from 'multiformats/cid'
+
+describe('car-blockstore', () => {
+  let source: UnixFS
+  let dirCid: CID
+  let carPath: string
+  let blockstore: CarBlockstore
+  let carFs: UnixFS
+  let dir: string | undefined
+
+  before(async function () {
+    if (!isNode) {
+      return this.skip()
+    }
+
+    source = unixfs({ blockstore: new MemoryBlockstore() })
+
+    const largeFileCid = await source.addBytes(largeFile)
+    const smallFileCid = await source.addBytes(smallFile)
+    dirCid = await source.cp(largeFileCid, await source.addDirectory(), 'large.txt')
+    dirCid = await source.cp(smallFileCid, dirCid, 'small.txt')
+
+    dir = fs.mkdtempSync(Path.join(os.tmpdir(), 'car-blockstore-'))
+    carPath = Path.join(dir, 'archive.car')
+    fs.writeFileSync(carPath, await toBuffer(source.exportCar(dirCid)))
+  })
+
+  beforeEach(function () {
+    if (!isNode) {
+      return this.skip()
+    }
+
+    blockstore = carBlockstore(carPath)
+    carFs = unixfs({ blockstore })
+  })
+
+  afterEach(async () => {
+    await blockstore?.close()
+  })
+
+  after(() => {
+    if (dir != null) {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('lists the roots of the CAR file', async () => {
+    const roots = await blockstore.roots()
+
+    expect(roots.map(cid => cid.toString())).to.deep.equal([dirCid.toString()])
+  })
+
+  it('reads files from the CAR file', async () => {
+    expect(await toBuffer(carFs.cat(dirCid, {
+      path: 'large.txt'
+    }))).to.equalBytes(largeFile)
+    expect(await toBuffer(carFs.cat(dirCid, {
+      path: 'small.txt'
+    }))).to.equalBytes(smallFile)
+  })
+
+  it('lists directories and stats entries from the CAR file', async () => {
+    const entries = await all(carFs.ls(dirCid))
+
+    expect(entries.map(entry => entry.name)).to.deep.equal(['large.txt', 'small.txt'])
+    expect(await carFs.stat(dirCid, {
+      path: 'large.txt'
+    })).to.have.property('fileSize', BigInt(largeFile.byteLength))
+  })
+
+  it('loads every block from the CAR file', async () => {
+    const blocks = await all(blockstore.getAll())
+
+    expect(blocks[0].cid.toString()).to.equal(dirCid.toString())
+    await expect(blockstore.has(dirCid)).to.eventually.be.true()
+  })
+
+  it('refuses to load a block that is not in the CAR file', async () => {
+    const fileCid = await source.addBytes(Uint8Array.from([0, 1, 2, 3]))
+
+    await expect(blockstore.has(fileCid)).to.eventually.be.false()
+    await expect(blockstore.get(fileCid)).to.eventually.be.rejected
+      .with.property('code', 'ERR_DOES_NOT_EXIST')
+  })
+
+  it('refuses to change the DAG', async () => {
+    await expect(carFs.addBytes(Uint8Array.from([0, 1, 2, 3]))).to.eventually.be.rejected
+      .with.property('code', 'ERR_READ_ONLY')
+    await expect(carFs.rm(dirCid, 'small.txt')).to.eventually.be.rejected
+      .with.property('code', 'ERR_READ_ONLY')
+  })
+})
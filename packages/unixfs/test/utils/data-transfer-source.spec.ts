@@ -0,0 +1,82 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { dataTransferSource } from '../../src/utils/data-transfer-source.js'
+import { smallFile } from '../fixtures/files.js'
+import type { FileCandidate } from 'ipfs-unixfs-importer'
+
+function fileEntry (fullPath: string): FileSystemEntry {
+  const name = fullPath.split('/').pop() ?? ''
+
+  return {
+    name,
+    fullPath,
+    isFile: true,
+    isDirectory: false,
+    file: (resolve: (file: File) => void) => {
+      resolve(new File([smallFile], name, { lastModified: 1000 }))
+    }
+  } as unknown as FileSystemEntry
+}
+
+function directoryEntry (fullPath: string, children: FileSystemEntry[]): FileSystemEntry {
+  return {
+    name: fullPath.split('/').pop() ?? '',
+    fullPath,
+    isFile: false,
+    isDirectory: true,
+    createReader: () => {
+      // return the children one at a time like browsers do for large directories
+      const batches = children.map(child => [child])
+
+      return {
+        readEntries: (resolve: (entries: FileSystemEntry[]) => void) => {
+          resolve(batches.shift() ?? [])
+        }
+      }
+    }
+  } as unknown as FileSystemEntry
+}
+
+function item (entry: FileSystemEntry | null, kind = 'file'): DataTransferItem {
+  return {
+    kind,
+    webkitGetAsEntry: () => entry
+  } as unknown as DataTransferItem
+}
+
+describe('data-transfer-source', () => {
+  it('walks dropped files and directories', async () => {
+    const entries = await all(dataTransferSource([
+      item(directoryEntry('/dir', [
+        fileEntry('/dir/foo.txt'),
+        directoryEntry('/dir/sub', [
+          fileEntry('/dir/sub/bar.txt')
+        ])
+      ])),
+      item(fileEntry('/baz.txt')),
+      item(null, 'string')
+    ]))
+
+    expect(entries.map(entry => entry.path)).to.deep.equal(['dir', 'dir/foo.txt', 'dir/sub', 'dir/sub/bar.txt', 'baz.txt'])
+    expect(entries[1]).to.have.deep.property('mtime', { secs: 1n, nsecs: 0 })
+    expect(await toBuffer((entries[1] as FileCandidate<AsyncIterable<Uint8Array>>).content)).to.equalBytes(smallFile)
+  })
+
+  it('reads the entries before the source is consumed', async () => {
+    let entry: FileSystemEntry | null = fileEntry('/foo.txt')
+    const items = [{
+      kind: 'file',
+      webkitGetAsEntry: () => entry
+    } as unknown as DataTransferItem]
+
+    const source = dataTransferSource(items)
+
+    // the items are emptied after the drop event
+    entry = null
+
+    expect(await all(source)).to.have.lengthOf(1)
+  })
+})
@@ -0,0 +1,49 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { directoryHandleSource } from '../../src/utils/directory-handle-source.js'
+import { smallFile } from '../fixtures/files.js'
+import type { FileCandidate } from 'ipfs-unixfs-importer'
+
+function fileHandle (name: string): FileSystemFileHandle {
+  return {
+    kind: 'file',
+    name,
+    getFile: async () => new File([smallFile], name, { lastModified: 1000 })
+  } as unknown as FileSystemFileHandle
+}
+
+function directoryHandle (name: string, children: Array<FileSystemFileHandle | FileSystemDirectoryHandle>): FileSystemDirectoryHandle {
+  return {
+    kind: 'directory',
+    name,
+    values: async function * () {
+      yield * children
+    }
+  } as unknown as FileSystemDirectoryHandle
+}
+
+describe('directory-handle-source', () => {
+  it('walks a directory handle', async () => {
+    const entries = await all(directoryHandleSource(directoryHandle('dir', [
+      fileHandle('foo.txt'),
+      directoryHandle('sub', [
+        fileHandle('bar.txt')
+      ])
+    ])))
+
+    expect(entries.map(entry => entry.path)).to.deep.equal(['dir', 'dir/foo.txt', 'dir/sub', 'dir/sub/bar.txt'])
+    expect(entries[1]).to.have.deep.property('mtime', { secs: 1n, nsecs: 0 })
+    expect(await toBuffer((entries[1] as FileCandidate<AsyncIterable<Uint8Array>>).content)).to.equalBytes(smallFile)
+  })
+
+  it('uses paths relative to the root of the origin private file system', async () => {
+    const entries = await all(directoryHandleSource(directoryHandle('', [
+      fileHandle('foo.txt')
+    ])))
+
+    expect(entries.map(entry => entry.path)).to.deep.equal(['foo.txt'])
+  })
+})
@@ -0,0 +1,150 @@
+/* eslint-env mocha */
+
+import fs from 'fs'
+import os from 'os'
+import Path from 'path'
+import * as dagPB from '@ipld/dag-pb'
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import { UnixFS as IPFSUnixFS } from 'ipfs-unixfs'
+import { CID } from 'multiformats/cid'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { isNode } from 'wherearewe'
+import { unixfs, type UnixFS } from '../../src/index.js'
+import { exportToDisk } from '../../src/utils/export-to-disk.js'
+import { largeFile, smallFile } from '../fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+
+describe('export-to-disk', () => {
+  let blockstore: Blockstore
+  let ufs: UnixFS
+  let dirCid: CID
+  let targetDir: string
+  const tempDirs: string[] = []
+
+  function createTempDir (prefix: string): string {
+    const dir = fs.mkdtempSync(Path.join(os.tmpdir(), prefix))
+    tempDirs.push(dir)
+
+    return dir
+  }
+
+  beforeEach(async function () {
+    if (!isNode) {
+      return this.skip()
+    }
+
+    blockstore = new MemoryBlockstore()
+    ufs = unixfs({ blockstore })
+
+    const fileCid = await ufs.touch(await ufs.chmod(await ufs.addBytes(smallFile), 0o600), {
+      mtime: {
+        secs: 10n,
+        nsecs: 500000000
+      }
+    })
+    dirCid = await ufs.cp(fileCid, await ufs.addDirectory(), 'a/foo.txt', {
+      parents: true
+    })
+    dirCid = await ufs.cp(await ufs.addBytes(largeFile), dirCid, 'large.bin')
+    dirCid = await ufs.symlink(dirCid, 'link', 'a/foo.txt')
+
+    targetDir = Path.join(createTempDir('export-to-disk-'), 'out')
+  })
+
+  afterEach(() => {
+    for (const dir of tempDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  /**
+   * Create a directory with a link name that the UnixFS commands refuse to add
+   */
+  async function createDirectoryWithName (name: string): Promise<CID> {
+    const fileCid = await ufs.addBytes(smallFile)
+    const bytes = dagPB.encode(dagPB.prepare({
+      Data: new IPFSUnixFS({ type: 'directory' }).marshal(),
+      Links: [{
+        Name: name,
+        Hash: fileCid,
+        Tsize: smallFile.byteLength
+      }]
+    }))
+    const cid = CID.createV1(dagPB.code, await sha256.digest(bytes))
+    await blockstore.put(cid, bytes)
+
+    return cid
+  }
+
+  it('writes a directory tree to disk', async () => {
+    await exportToDisk(ufs, dirCid, targetDir)
+
+    expect(fs.readdirSync(targetDir).sort()).to.deep.equal(['a', 'large.bin', 'link'])
+    expect(fs.readFileSync(Path.join(targetDir, 'a', 'foo.txt'))).to.equalBytes(smallFile)
+    expect(fs.readFileSync(Path.join(targetDir, 'large.bin'))).to.equalBytes(largeFile)
+    expect(fs.readlinkSync(Path.join(targetDir, 'link'))).to.equal('a/foo.txt')
+  })
+
+  it('writes a single file into the target directory', async () => {
+    await exportToDisk(ufs, dirCid, targetDir, {
+      path: 'a/foo.txt'
+    })
+
+    expect(fs.readdirSync(targetDir)).to.deep.equal(['foo.txt'])
+  })
+
+  it('preserves mode and mtime', async () => {
+    await exportToDisk(ufs, dirCid, targetDir, {
+      preserveMode: true,
+      preserveMtime: true
+    })
+
+    const stats = fs.statSync(Path.join(targetDir, 'a', 'foo.txt'), { bigint: true })
+
+    expect(Number(stats.mode) & 0o7777).to.equal(0o600)
+    expect(stats.mtimeNs).to.equal(10500000000n)
+  })
+
+  it('does not overwrite existing files by default', async () => {
+    fs.mkdirSync(targetDir, { recursive: true })
+    fs.writeFileSync(Path.join(targetDir, 'large.bin'), 'hello')
+
+    await expect(exportToDisk(ufs, dirCid, targetDir)).to.eventually.be.rejected
+      .with.property('code', 'ERR_ALREADY_EXISTS')
+
+    await exportToDisk(ufs, dirCid, targetDir, {
+      overwrite: true
+    })
+
+    expect(fs.readFileSync(Path.join(targetDir, 'large.bin'))).to.equalBytes(largeFile)
+  })
+
+  it('does not write through an existing symlink', async () => {
+    const outside = createTempDir('export-to-disk-outside-')
+    fs.mkdirSync(targetDir, { recursive: true })
+    fs.symlinkSync(outside, Path.join(targetDir, 'a'))
+
+    await expect(exportToDisk(ufs, dirCid, targetDir)).to.eventually.be.rejected
+      .with.property('code', 'ERR_ALREADY_EXISTS')
+
+    await exportToDisk(ufs, dirCid, targetDir, {
+      overwrite: true
+    })
+
+    expect(fs.readdirSync(outside)).to.be.empty()
+    expect(fs.lstatSync(Path.join(targetDir, 'a')).isDirectory()).to.be.true()
+  })
+
+  it('refuses to write outside of the target directory', async () => {
+    for (const name of ['..', '../evil.txt', '/etc/evil.txt', 'a\\..\\..\\evil.txt']) {
+      const cid = await createDirectoryWithName(name)
+
+      await expect(exportToDisk(ufs, cid, targetDir)).to.eventually.be.rejected
+        .with.property('code', 'ERR_INVALID_PARAMETERS')
+    }
+
+    expect(fs.readdirSync(Path.dirname(targetDir))).to.deep.equal(['out'])
+    expect(fs.readdirSync(targetDir)).to.be.empty()
+  })
+})
@@ -0,0 +1,50 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { unixfs } from '../../src/index.js'
+import { fileSource } from '../../src/utils/file-source.js'
+import { smallFile } from '../fixtures/files.js'
+import type { FileCandidate } from 'ipfs-unixfs-importer'
+
+function createFile (name: string, relativePath: string, lastModified: number): File {
+  const file = new File([smallFile], name, { lastModified })
+
+  // only set by the browser when a directory is picked
+  Object.defineProperty(file, 'webkitRelativePath', {
+    value: relativePath
+  })
+
+  return file
+}
+
+describe('file-source', () => {
+  it('uses the relative path of each file', async () => {
+    const entries = await all(fileSource([
+      createFile('foo.txt', 'dir/foo.txt', 1500),
+      createFile('bar.txt', '', 2000)
+    ]))
+
+    expect(entries.map(entry => entry.path)).to.deep.equal(['dir/foo.txt', 'bar.txt'])
+    expect(entries[0]).to.have.deep.property('mtime', { secs: 1n, nsecs: 500000000 })
+    expect(await toBuffer((entries[0] as FileCandidate<AsyncIterable<Uint8Array>>).content)).to.equalBytes(smallFile)
+  })
+
+  it('imports files', async () => {
+    const fs = unixfs({ blockstore: new MemoryBlockstore() })
+    const results = await all(fs.addAll(fileSource([
+      createFile('foo.txt', 'dir/foo.txt', 1500)
+    ])))
+    const root = results[results.length - 1]
+
+    expect(root).to.have.property('path', 'dir')
+    expect(await toBuffer(fs.cat(root.cid, {
+      path: 'foo.txt'
+    }))).to.equalBytes(smallFile)
+    await expect(fs.stat(root.cid, {
+      path: 'foo.txt'
+    })).to.eventually.have.deep.property('mtime', { secs: 1n, nsecs: 500000000 })
+  })
+})
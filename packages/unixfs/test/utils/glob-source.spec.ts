@@ -1,6 +1,7 @@
 /* eslint-env mocha */
 
 import fs from 'fs'
+import os from 'os'
 import Path from 'path'
 import { fileURLToPath } from 'url'
 import { expect } from 'aegir/chai'
@@ -9,6 +10,7 @@ import { isNode } from 'wherearewe'
 import { globSource } from '../../src/utils/glob-source.js'
 import { toMtime } from '../../src/utils/to-mtime.js'
 import type { Mtime } from 'ipfs-unixfs'
+import type { ImportCandidate } from 'ipfs-unixfs-importer'
 
 function fixtureDir (): string {
   const filename = fileURLToPath(import.meta.url)
@@ -29,7 +31,15 @@ function findMtime (file: string): Mtime {
   return toMtime(fs.statSync(fixture(file)).mtime)
 }
 
+const tempDirs: string[] = []
+
 describe('glob-source', () => {
+  afterEach(() => {
+    for (const dir of tempDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
   it('single file, relative path', async function () {
     if (!isNode) {
       return this.skip()
@@ -290,4 +300,163 @@ describe('glob-source', () => {
 
     expect(result).to.have.deep.nested.property('[0].mtime', toMtime({ Seconds: 5, FractionalNanoseconds: 0 }))
   })
+
+  it('follows symlinks by default', async function () {
+    if (!isNode) {
+      return this.skip()
+    }
+
+    const dir = createSymlinkDir()
+    const result = await all(globSource(dir, '**/*'))
+
+    expect(result).to.have.lengthOf(2)
+    expect(result).to.not.containSubset([{
+      target: 'file.txt'
+    }])
+  })
+
+  it('imports symlinks when not following them', async function () {
+    if (!isNode) {
+      return this.skip()
+    }
+
+    const dir = createSymlinkDir()
+    const result = await all(globSource(dir, '**/*', {
+      followSymlinks: false
+    }))
+
+    expect(result).to.have.lengthOf(2)
+    expect(result).to.containSubset([{
+      path: '/link',
+      target: 'file.txt'
+    }])
+  })
+  it('skips paths that match ignore patterns', async function () {
+    if (!isNode) {
+      return this.skip()
+    }
+
+    const dir = createProjectDir()
+    const result = await all(globSource(dir, '**/*', {
+      ignore: ['node_modules', '/dist/']
+    }))
+
+    expect(sortedPaths(result)).to.deep.equal([
+      '/debug.log',
+      '/keep.log',
+      '/src',
+      '/src/build',
+      '/src/build/out.js',
+      '/src/index.js',
+      '/src/local.txt',
+      '/src/nested',
+      '/src/nested/local.txt',
+      '/src/nested/trace.log'
+    ])
+  })
+
+  it('honours nested ignore files', async function () {
+    if (!isNode) {
+      return this.skip()
+    }
+
+    const dir = createProjectDir()
+    const result = await all(globSource(dir, '**/*', {
+      ignore: ['node_modules'],
+      ignoreFiles: ['.gitignore', '.ipfsignore']
+    }))
+
+    expect(sortedPaths(result)).to.deep.equal([
+      '/keep.log',
+      '/src',
+      '/src/index.js',
+      '/src/nested',
+      '/src/nested/local.txt',
+      '/src/nested/trace.log'
+    ])
+  })
+
+  it('skips files larger than the maximum size', async function () {
+    if (!isNode) {
+      return this.skip()
+    }
+
+    const dir = createProjectDir()
+    const result = await all(globSource(dir, 'src/*', {
+      maxFileSize: 5
+    }))
+
+    expect(sortedPaths(result)).to.deep.equal([
+      '/src/build',
+      '/src/local.txt',
+      '/src/nested'
+    ])
+  })
+
+  it('skips paths rejected by a filter', async function () {
+    if (!isNode) {
+      return this.skip()
+    }
+
+    const dir = createProjectDir()
+    const seen: string[] = []
+    const result = await all(globSource(dir, '**/*', {
+      filter: (path, stat) => {
+        seen.push(path)
+
+        return !(stat.isDirectory() && path !== '/src')
+      }
+    }))
+
+    expect(sortedPaths(result)).to.deep.equal([
+      '/debug.log',
+      '/keep.log',
+      '/src',
+      '/src/index.js',
+      '/src/local.txt'
+    ])
+    expect(seen).to.not.include('/node_modules/dep/index.js')
+  })
 })
+
+function createSymlinkDir (): string {
+  const dir = fs.mkdtempSync(Path.join(os.tmpdir(), 'glob-source-'))
+  tempDirs.push(dir)
+  fs.writeFileSync(Path.join(dir, 'file.txt'), 'hello')
+  fs.symlinkSync('file.txt', Path.join(dir, 'link'))
+
+  return dir
+}
+
+/**
+ * A project with build output, dependencies and ignore files in several
+ * directories
+ */
+function createProjectDir (): string {
+  const dir = fs.mkdtempSync(Path.join(os.tmpdir(), 'glob-source-'))
+  tempDirs.push(dir)
+  const files: Record<string, string> = {
+    '.gitignore': '# logs\n*.log\n!keep.log\n/dist\n',
+    'debug.log': 'debug',
+    'keep.log': 'keep',
+    'dist/index.js': 'built',
+    'node_modules/dep/index.js': 'dependency',
+    'src/index.js': 'source',
+    'src/local.txt': 'local',
+    'src/.ipfsignore': '/local.txt\nbuild/\n!trace.log\n',
+    'src/build/out.js': 'output',
+    'src/nested/local.txt': 'nested',
+    'src/nested/trace.log': 'trace'
+  }
+
+  for (const [path, content] of Object.entries(files)) {
+    fs.mkdirSync(Path.dirname(Path.join(dir, path)), { recursive: true })
+    fs.writeFileSync(Path.join(dir, path), content)
+  }
+
+  return dir
+}
+
+function sortedPaths (result: ImportCandidate[]): string[] {
+  return result.map(({ path }) => path ?? '').sort((a, b) => a.localeCompare(b))
+}
@@ -0,0 +1,144 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import all from 'it-all'
+import { pack, type TarImportCandidate } from 'it-tar'
+import toBuffer from 'it-to-buffer'
+import { unixfs, type AddCandidate, type UnixFS } from '../../src/index.js'
+import { tarSource } from '../../src/utils/tar-source.js'
+import { largeFile, smallFile } from '../fixtures/files.js'
+import type { FileCandidate } from 'ipfs-unixfs-importer'
+
+async function createTar (entries: TarImportCandidate[]): Promise<Uint8Array> {
+  return toBuffer(pack()(entries))
+}
+
+async function gzip (bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('gzip'))
+
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+describe('tar-source', () => {
+  let fs: UnixFS
+  let tar: Uint8Array
+
+  beforeEach(async () => {
+    fs = unixfs({ blockstore: new MemoryBlockstore() })
+
+    tar = await createTar([{
+      header: { name: './dir/', type: 'directory', mode: 0o700, mtime: new Date(5000) }
+    }, {
+      header: { name: './dir/foo.txt', mode: 0o600, mtime: new Date(10000) },
+      body: smallFile
+    }, {
+      header: { name: './dir/link', type: 'symlink', linkname: 'foo.txt', mtime: new Date(15000) }
+    }])
+  })
+
+  it('yields files, directories and symlinks', async () => {
+    const entries = await all(tarSource([tar]))
+
+    expect(entries).to.have.lengthOf(3)
+    expect(entries[0]).to.deep.equal({
+      path: 'dir',
+      mode: 0o700,
+      mtime: { secs: 5n, nsecs: 0 }
+    })
+    expect(entries[1]).to.have.property('path', 'dir/foo.txt')
+    expect(entries[1]).to.have.property('mode', 0o600)
+    expect(entries[1]).to.have.deep.property('mtime', { secs: 10n, nsecs: 0 })
+    expect(entries[2]).to.include({
+      path: 'dir/link',
+      target: 'foo.txt'
+    })
+  })
+
+  it('imports a tar archive', async () => {
+    const results = await all(fs.addAll(tarSource([tar])))
+    const root = results[results.length - 1]
+
+    expect(root).to.have.property('path', 'dir')
+    expect(await toBuffer(fs.cat(root.cid, {
+      path: 'foo.txt'
+    }))).to.equalBytes(smallFile)
+    await expect(fs.stat(root.cid)).to.eventually.include({
+      mode: 0o700
+    })
+    await expect(fs.stat(root.cid, {
+      path: 'foo.txt'
+    })).to.eventually.have.deep.property('mtime', { secs: 10n, nsecs: 0 })
+    await expect(fs.readlink(root.cid, {
+      path: 'link'
+    })).to.eventually.equal('foo.txt')
+  })
+
+  it('imports a tar archive one file at a time', async () => {
+    const results = await all(fs.addAll(tarSource([tar]), {
+      fileImportConcurrency: 1
+    }))
+
+    expect(await toBuffer(fs.cat(results[results.length - 1].cid, {
+      path: 'foo.txt'
+    }))).to.equalBytes(smallFile)
+  })
+
+  it('streams file content that is read before the next entry', async () => {
+    tar = await createTar([{
+      header: { name: 'large.bin' },
+      body: largeFile
+    }])
+    let read = 0
+
+    const entries = (tarSource((async function * () {
+      for (let i = 0; i < tar.byteLength; i += 512) {
+        read += 512
+        yield tar.subarray(i, i + 512)
+      }
+    })()) as AsyncIterable<AddCandidate>)[Symbol.asyncIterator]()
+    const { value } = await entries.next()
+    const content = (value as FileCandidate<AsyncIterable<Uint8Array>>).content[Symbol.asyncIterator]()
+
+    await content.next()
+    expect(read).to.be.lessThan(tar.byteLength)
+
+    await all({ [Symbol.asyncIterator]: () => content })
+    await expect(entries.next()).to.eventually.have.property('done', true)
+    expect(read).to.equal(tar.byteLength)
+  })
+
+  it('holds file content in memory when the next entry is requested first', async () => {
+    const entries = await all(tarSource([tar]))
+
+    expect(await toBuffer((entries[1] as FileCandidate<AsyncIterable<Uint8Array>>).content)).to.equalBytes(smallFile)
+  })
+
+  it('refuses to import paths outside of the archive', async () => {
+    tar = await createTar([{
+      header: { name: 'dir/../../foo.txt' },
+      body: smallFile
+    }])
+
+    await expect(all(tarSource([tar]))).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_PARAMETERS')
+  })
+
+  it('imports a gzipped tar archive', async () => {
+    const tgz = await gzip(tar)
+
+    // split the archive to make sure the gzip header is detected across chunks
+    const entries = await all(tarSource([tgz.subarray(0, 1), tgz.subarray(1)]))
+
+    expect(entries.map(entry => entry.path)).to.deep.equal(['dir', 'dir/foo.txt', 'dir/link'])
+  })
+
+  it('reads a tar archive from an async iterable', async () => {
+    const entries = await all(tarSource((async function * () {
+      yield tar.subarray(0, 100)
+      yield tar.subarray(100)
+    })()))
+
+    expect(entries).to.have.lengthOf(3)
+  })
+})
@@ -17,6 +17,24 @@ describe('to-mtime', () => {
     expect(result?.secs).to.equal(BigInt(Math.floor(input.getTime() / 1000)))
   })
 
+  it('should convert the milliseconds of a date to nanoseconds', async function () {
+    const result = toMtime(new Date(1500))
+
+    expect(result).to.deep.equal({
+      secs: 1n,
+      nsecs: 500000000
+    })
+  })
+
+  it('should not lose precision converting a date with milliseconds', async function () {
+    const result = toMtime(new Date(1577836800999))
+
+    expect(result).to.deep.equal({
+      secs: 1577836800n,
+      nsecs: 999000000
+    })
+  })
+
   it('should convert a timespec', async function () {
     const input = {
       Seconds: 100
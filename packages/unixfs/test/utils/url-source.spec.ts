@@ -1,9 +1,13 @@
 /* eslint-env mocha */
 
+import http from 'http'
 import { expect } from 'aegir/chai'
 import all from 'it-all'
+import toBuffer from 'it-to-buffer'
 import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
-import { urlSource } from '../../src/utils/url-source.js'
+import { isNode } from 'wherearewe'
+import { fetchUrlSource, urlSource, type UrlSourceProgress } from '../../src/utils/url-source.js'
+import type { AddressInfo } from 'net'
 
 describe('url-source', function () {
   it('can get url content', async function () {
@@ -18,4 +22,223 @@ describe('url-source', function () {
       throw new Error('empty response')
     }
   })
+
+  describe('with range requests', function () {
+    const data = Uint8Array.from({ length: 10000 }, (_, i) => i % 251)
+    let server: http.Server
+    let url: URL
+    let etag: string
+    let requests: Array<string | undefined>
+
+    // called before each response, return true if the response was handled
+    let intercept: (req: http.IncomingMessage, res: http.ServerResponse, count: number) => boolean
+
+    beforeEach(async function () {
+      if (!isNode) {
+        return this.skip()
+      }
+
+      etag = '"v1"'
+      requests = []
+      intercept = () => false
+
+      server = http.createServer((req, res) => {
+        requests.push(req.headers.range)
+
+        if (intercept(req, res, requests.length)) {
+          return
+        }
+
+        let start = 0
+        let end = data.byteLength - 1
+        const match = req.headers.range?.match(/^bytes=(\d+)-(\d*)$/)
+        const headers: http.OutgoingHttpHeaders = {
+          'accept-ranges': 'bytes',
+          etag,
+          'last-modified': 'Wed, 01 Jan 2020 00:00:00 GMT',
+          'content-disposition': 'attachment; filename="plain.bin"; filename*=UTF-8\'\'f%C3%BC%C3%BC.bin'
+        }
+
+        if (match != null && (req.headers['if-range'] == null || req.headers['if-range'] === etag)) {
+          start = parseInt(match[1], 10)
+          end = match[2] === '' ? end : Math.min(parseInt(match[2], 10), end)
+
+          res.writeHead(206, {
+            ...headers,
+            'content-length': end - start + 1,
+            'content-range': `bytes ${start}-${end}/${data.byteLength}`
+          })
+        } else {
+          res.writeHead(200, {
+            ...headers,
+            'content-length': data.byteLength
+          })
+        }
+
+        res.end(data.subarray(start, end + 1))
+      })
+
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      url = new URL(`http://127.0.0.1:${(server.address() as AddressInfo).port}/some/path/file.bin`)
+    })
+
+    afterEach(async function () {
+      if (server != null) {
+        server.closeAllConnections()
+        await new Promise(resolve => server.close(resolve))
+      }
+    })
+
+    it('does not make a request until the content is read', async function () {
+      const file = urlSource(url)
+
+      expect(file).to.have.property('path', 'file.bin')
+      expect(requests).to.be.empty()
+      await expect(toBuffer(file.content)).to.eventually.deep.equal(data)
+      expect(requests).to.have.lengthOf(1)
+    })
+
+    it('takes the name and mtime from the response headers', async function () {
+      const file = await fetchUrlSource(url)
+
+      expect(file).to.have.property('path', 'füü.bin')
+      expect(file).to.have.deep.property('mtime', { secs: 1577836800n, nsecs: 0 })
+      await expect(toBuffer(file.content)).to.eventually.deep.equal(data)
+    })
+
+    it('resumes a download that was interrupted', async function () {
+      intercept = (req, res, count) => {
+        if (count === 1) {
+          // send half of the file then drop the connection
+          res.writeHead(200, {
+            'accept-ranges': 'bytes',
+            etag,
+            'content-length': data.byteLength
+          })
+          res.write(data.subarray(0, 4000), () => {
+            res.destroy()
+          })
+
+          return true
+        }
+
+        if (count === 2) {
+          res.writeHead(500)
+          res.end()
+
+          return true
+        }
+
+        return false
+      }
+
+      const events: string[] = []
+      const file = urlSource(url, {
+        retryDelay: 1,
+        onProgress: (evt) => { events.push(evt.type) }
+      })
+
+      await expect(toBuffer(file.content)).to.eventually.deep.equal(data)
+      expect(requests).to.deep.equal([undefined, 'bytes=4000-', 'bytes=4000-'])
+      expect(events.filter(type => type === 'unixfs:url-source:retry')).to.have.lengthOf(2)
+      expect(events).to.include('unixfs:url-source:progress')
+    })
+
+    it('throws if the content changes during a download', async function () {
+      intercept = (req, res, count) => {
+        if (count === 1) {
+          res.writeHead(200, {
+            'accept-ranges': 'bytes',
+            etag,
+            'content-length': data.byteLength
+          })
+          res.write(data.subarray(0, 4000), () => {
+            etag = '"v2"'
+            res.destroy()
+          })
+
+          return true
+        }
+
+        return false
+      }
+
+      const file = urlSource(url, {
+        retryDelay: 1
+      })
+
+      await expect(toBuffer(file.content)).to.eventually.be.rejected
+        .with.property('code', 'ERR_CONTENT_CHANGED')
+    })
+
+    it('does not retry client errors', async function () {
+      intercept = (req, res) => {
+        res.writeHead(404)
+        res.end()
+
+        return true
+      }
+
+      await expect(toBuffer(urlSource(url, {
+        retryDelay: 1
+      }).content)).to.eventually.be.rejected
+        .with.property('status', 404)
+      expect(requests).to.have.lengthOf(1)
+    })
+
+    it('gives up after the configured number of retries', async function () {
+      intercept = (req, res) => {
+        res.writeHead(503)
+        res.end()
+
+        return true
+      }
+
+      await expect(toBuffer(urlSource(url, {
+        retries: 2,
+        retryDelay: 1
+      }).content)).to.eventually.be.rejected
+        .with.property('code', 'ERR_REQUEST_FAILED')
+      expect(requests).to.have.lengthOf(3)
+    })
+
+    it('fetches ranges in parallel in order', async function () {
+      const events: UrlSourceProgress[] = []
+      const file = urlSource(url, {
+        parallel: 3,
+        rangeSize: 1024,
+        onProgress: (evt) => {
+          if (evt.type === 'unixfs:url-source:progress') {
+            events.push(evt.detail)
+          }
+        }
+      })
+
+      await expect(toBuffer(file.content)).to.eventually.deep.equal(data)
+      expect(requests).to.have.lengthOf(10)
+      expect(requests).to.include('bytes=0-1023')
+      expect(requests).to.include('bytes=9216-9999')
+      expect(events.pop()).to.deep.equal({ url, bytesRead: data.byteLength, total: data.byteLength })
+    })
+
+    it('falls back to a single request if ranges are not supported', async function () {
+      intercept = (req, res) => {
+        res.writeHead(200, {
+          'content-length': data.byteLength
+        })
+        res.end(data)
+
+        return true
+      }
+
+      const file = urlSource(url, {
+        parallel: 3,
+        rangeSize: 1024
+      })
+
+      expect(file).to.have.property('path', 'file.bin')
+      await expect(toBuffer(file.content)).to.eventually.deep.equal(data)
+      expect(requests).to.have.lengthOf(1)
+    })
+  })
 })
@@ -0,0 +1,145 @@
+/* eslint-env mocha */
+
+import { openAsBlob } from 'fs'
+import Path from 'path'
+import { fileURLToPath } from 'url'
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { isNode } from 'wherearewe'
+import { unixfs, type UnixFS } from '../../src/index.js'
+import { zipSource } from '../../src/utils/zip-source.js'
+import { smallFile } from '../fixtures/files.js'
+import type { CID } from 'multiformats/cid'
+
+function fixture (file: string): string {
+  const filename = fileURLToPath(import.meta.url)
+  const dirname = Path.dirname(filename)
+
+  return Path.resolve(Path.join(dirname, '..', '..', '..', 'test', 'fixtures', file))
+}
+
+/**
+ * Replace every occurrence of a sequence of bytes with another of the same
+ * length
+ */
+function replaceAll (bytes: Uint8Array, search: Uint8Array, replacement: Uint8Array): Uint8Array {
+  const output = bytes.slice()
+
+  for (let i = 0; i <= output.byteLength - search.byteLength; i++) {
+    if (search.every((byte, j) => output[i + j] === byte)) {
+      output.set(replacement, i)
+    }
+  }
+
+  return output
+}
+
+describe('zip-source', () => {
+  let fs: UnixFS
+  let dirCid: CID
+
+  beforeEach(async () => {
+    fs = unixfs({ blockstore: new MemoryBlockstore() })
+
+    const fileCid = await fs.touch(await fs.chmod(await fs.addBytes(smallFile), 0o600), {
+      mtime: {
+        secs: 10n,
+        nsecs: 0
+      }
+    })
+    dirCid = await fs.cp(fileCid, await fs.addDirectory(), 'dir/foo.txt', {
+      parents: true
+    })
+    dirCid = await fs.symlink(dirCid, 'link', 'dir/foo.txt')
+  })
+
+  async function createZip (cid: CID): Promise<Blob> {
+    return new Blob([await toBuffer(fs.exportZip(cid))])
+  }
+
+  it('yields files, directories and symlinks', async () => {
+    const entries = await all(zipSource(await createZip(dirCid)))
+
+    expect(entries.map(entry => entry.path)).to.deep.equal(['dir', 'dir/foo.txt', 'link'])
+    expect(entries[0]).to.have.property('mode', 0o755)
+    expect(entries[1]).to.have.property('mode', 0o600)
+    expect(entries[1]).to.have.deep.property('mtime', { secs: 10n, nsecs: 0 })
+    expect(entries[2]).to.have.property('target', 'dir/foo.txt')
+  })
+
+  it('imports a zip file', async () => {
+    const results = await all(fs.addAll(zipSource(await createZip(dirCid)), {
+      wrapWithDirectory: true
+    }))
+    const root = results[results.length - 1].cid
+
+    expect(await toBuffer(fs.cat(root, {
+      path: 'dir/foo.txt'
+    }))).to.equalBytes(smallFile)
+    await expect(fs.stat(root, {
+      path: 'dir/foo.txt'
+    })).to.eventually.include({
+      mode: 0o600
+    })
+    await expect(fs.readlink(root, {
+      path: 'link'
+    })).to.eventually.equal('dir/foo.txt')
+  })
+
+  it('rejects corrupted content', async () => {
+    const zip = await toBuffer(fs.exportZip(dirCid, {
+      compression: 'store'
+    }))
+    const entries = await all(zipSource(new Blob([zip])))
+    const offset = zip.findIndex((_, i) => smallFile.every((byte, j) => zip[i + j] === byte))
+
+    zip[offset] ^= 0xff
+
+    const corrupted = await all(zipSource(new Blob([zip])))
+
+    expect(entries).to.have.lengthOf(corrupted.length)
+    await expect(all(fs.addAll([corrupted[1]]))).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_ZIP')
+  })
+
+  it('rejects a file that is not a zip file', async () => {
+    await expect(all(zipSource(new Blob([smallFile])))).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_ZIP')
+  })
+
+  it('refuses to import paths outside of the archive', async () => {
+    const zip = await toBuffer(fs.exportZip(dirCid))
+
+    for (const name of ['../evil.txt', '/a/evil.txt', 'C:\\evil.txt']) {
+      // replace the name in the local and central directory headers
+      const renamed = replaceAll(zip, new TextEncoder().encode('dir/foo.txt'), new TextEncoder().encode(name))
+
+      await expect(all(zipSource(new Blob([renamed])))).to.eventually.be.rejected
+        .with.property('code', 'ERR_INVALID_PARAMETERS')
+    }
+  })
+
+  it('reads a zip file created by another archiver', async function () {
+    if (!isNode) {
+      return this.skip()
+    }
+
+    const entries = await all(zipSource(await openAsBlob(fixture('archive.zip'))))
+
+    expect(entries.map(entry => entry.path)).to.deep.equal(['dir', 'dir/foo.txt', 'dir/link', 'dir/bar.txt'])
+    expect(entries[0]).to.have.property('mode', 0o700)
+    expect(entries[1]).to.have.deep.property('mtime', { secs: 1577836800n, nsecs: 0 })
+    expect(entries[2]).to.have.property('target', 'foo.txt')
+
+    const results = await all(fs.addAll(entries, {
+      wrapWithDirectory: true
+    }))
+    const root = results[results.length - 1].cid
+
+    expect(await toBuffer(fs.cat(root, {
+      path: 'dir/bar.txt'
+    }))).to.equalBytes(new TextEncoder().encode('a'.repeat(1000)))
+  })
+})
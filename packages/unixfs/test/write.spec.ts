@@ -0,0 +1,146 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { MemoryBlockstore } from 'blockstore-core'
+import all from 'it-all'
+import toBuffer from 'it-to-buffer'
+import { unixfs, type UnixFS } from '../src/index.js'
+import { createShardedDirectory } from './fixtures/create-sharded-directory.js'
+import { largeFile, smallFile } from './fixtures/files.js'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+
+describe('write', () => {
+  let blockstore: Blockstore
+  let fs: UnixFS
+  let emptyDirCid: CID
+
+  beforeEach(async () => {
+    blockstore = new MemoryBlockstore()
+
+    fs = unixfs({ blockstore })
+
+    emptyDirCid = await fs.addDirectory()
+  })
+
+  function patched (data: Uint8Array, bytes: Uint8Array, offset: number): Uint8Array {
+    const output = Uint8Array.from(data)
+    output.set(bytes, offset)
+
+    return output
+  }
+
+  it('writes to a raw node', async () => {
+    const bytes = Uint8Array.from([100, 101, 102])
+    const cid = await fs.addBytes(smallFile)
+    const updatedCid = await fs.write(cid, bytes, {
+      offset: 2
+    })
+
+    expect(await toBuffer(fs.cat(updatedCid))).to.equalBytes(patched(smallFile, bytes, 2))
+  })
+
+  it('writes to a file with a dag-pb leaf', async () => {
+    const bytes = Uint8Array.from([100, 101, 102])
+    const cid = await fs.addBytes(smallFile, {
+      rawLeaves: false
+    })
+    const updatedCid = await fs.write(cid, bytes, {
+      offset: 4
+    })
+
+    expect(await toBuffer(fs.cat(updatedCid))).to.equalBytes(patched(smallFile, bytes, 4))
+  })
+
+  it('writes across leaf boundaries of a large file', async () => {
+    const bytes = new Uint8Array(1024).fill(7)
+    const offset = 1024 * 1024 - 512
+    const cid = await fs.addBytes(largeFile)
+    const updatedCid = await fs.write(cid, bytes, {
+      offset
+    })
+
+    const expected = patched(largeFile, bytes, offset)
+
+    expect(await toBuffer(fs.cat(updatedCid))).to.equalBytes(expected)
+    await expect(fs.addBytes(expected)).to.eventually.deep.equal(updatedCid)
+  })
+
+  it('only rewrites affected blocks', async () => {
+    const cid = await fs.addBytes(largeFile)
+    const before = await all(blockstore.getAll())
+
+    const updatedCid = await fs.write(cid, Uint8Array.from([1, 2, 3]), {
+      offset: 10
+    })
+
+    const after = await all(blockstore.getAll())
+
+    // one leaf and the root
+    expect(after).to.have.lengthOf(before.length + 2)
+    await expect(fs.stat(updatedCid)).to.eventually.have.property('blocks', (await fs.stat(cid)).blocks)
+  })
+
+  it('preserves metadata on the root node', async () => {
+    const cid = await fs.addFile({
+      content: largeFile,
+      mode: 0o777,
+      mtime: {
+        secs: 5n
+      }
+    })
+    const updatedCid = await fs.write(cid, Uint8Array.from([0, 1, 2]))
+
+    const stats = await fs.stat(updatedCid)
+    expect(stats).to.have.property('mode', 0o777)
+    expect(stats).to.have.nested.property('mtime.secs', 5n)
+  })
+
+  it('writes to a file inside a directory', async () => {
+    const path = 'foo.txt'
+    const bytes = Uint8Array.from([100, 101, 102])
+    const fileCid = await fs.addBytes(smallFile)
+    const dirCid = await fs.cp(fileCid, emptyDirCid, path)
+    const updatedCid = await fs.write(dirCid, bytes, {
+      path
+    })
+
+    expect(updatedCid).to.not.deep.equal(dirCid)
+
+    const output = await toBuffer(fs.cat(updatedCid, {
+      path
+    }))
+
+    expect(output).to.equalBytes(patched(smallFile, bytes, 0))
+  })
+
+  it('writes to a file inside a sharded directory', async () => {
+    const path = 'file-1'
+    const bytes = Uint8Array.from([100])
+    const dirCid = await createShardedDirectory(blockstore)
+    const updatedCid = await fs.write(dirCid, bytes, {
+      path,
+      offset: 1
+    })
+
+    const output = await toBuffer(fs.cat(updatedCid, {
+      path
+    }))
+
+    expect(output).to.equalBytes(Uint8Array.from([0, 100, 2, 3, 4]))
+  })
+
+  it('refuses to write past the end of a file', async () => {
+    const cid = await fs.addBytes(smallFile)
+
+    await expect(fs.write(cid, Uint8Array.from([0, 1, 2]), {
+      offset: smallFile.byteLength - 1
+    })).to.eventually.be.rejected
+      .with.property('code', 'ERR_INVALID_PARAMETERS')
+  })
+
+  it('refuses to write to a directory', async () => {
+    await expect(fs.write(emptyDirCid, Uint8Array.from([0, 1, 2]))).to.eventually.be.rejected
+      .with.property('code', 'ERR_NOT_A_FILE')
+  })
+})